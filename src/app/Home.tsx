@@ -1,9 +1,11 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useVideoProcessor } from '@/hooks/useVideoProcessor';
-import { useObjectDetection } from '@/hooks/useObjectDetection';
+import { useObjectDetection, TrackEditResult } from '@/hooks/useObjectDetection';
 import { useReframing } from '@/hooks/useReframing';
+import { useActiveSpeaker } from '@/hooks/useActiveSpeaker';
+import { useProject } from '@/hooks/useProject';
 import { VideoUploader } from '@/components/VideoUploader';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { ReframingControls } from '@/components/ReframingControls';
@@ -12,7 +14,15 @@ import { ExportPanel } from '@/components/ExportPanel';
 import { ProcessingStatus } from '@/components/ProcessingStatus';
 import { HeadSelector } from '@/components/HeadSelector';
 import { TrajectoryEditor } from '@/components/TrajectoryEditor';
-import { ExportOptions, BoundingBox, FrameTransform } from '@/types';
+import { TrackEditor } from '@/components/TrackEditor';
+import { DatasetExportPanel } from '@/components/DatasetExportPanel';
+import { MaskEditor } from '@/components/MaskEditor';
+import { ExportOptions, BoundingBox, DetectionMask, FrameTransform, DetectionSettings, SlicingSettings } from '@/types';
+import { DEFAULT_DETECTION_SETTINGS } from '@/lib/detection/detector-registry';
+import { isDetectorAvailable } from '@/lib/detection/model-manager';
+import { DEFAULT_TRACKER_SETTINGS } from '@/lib/detection/tracker-presets';
+import { DatasetExportOptions, exportDataset } from '@/lib/detection/dataset-export';
+import { FrameExtractor } from '@/lib/video/processor';
 
 export default function Home() {
   const [currentStep, setCurrentStep] = useState<'upload' | 'process' | 'export'>('upload');
@@ -25,6 +35,8 @@ export default function Home() {
   const [selectedTrackIdForByteTrack, setSelectedTrackIdForByteTrack] = useState<string | null>(null);
   const [initialTargetBox, setInitialTargetBox] = useState<{ width: number; height: number } | null>(null);
   const [startedFromHeadSelector, setStartedFromHeadSelector] = useState(false);
+  const [hasImportedDetections, setHasImportedDetections] = useState(false); // Detections came from a file, not the models
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(DEFAULT_DETECTION_SETTINGS);
 
   const {
     videoFile,
@@ -32,27 +44,66 @@ export default function Home() {
     status: videoStatus,
     loadVideo,
     processFrames,
+    createFrameExtractor,
     getVideoElement,
     reset: resetVideo
   } = useVideoProcessor();
 
+  const {
+    isAnalyzingAudio,
+    findSpeakers,
+    reset: resetSpeakers
+  } = useActiveSpeaker(videoFile, metadata);
+
+  const { loadProject, saveProject } = useProject();
+
+  const {
+    config,
+    currentPreset,
+    transforms,
+    isProcessing: isReframingProcessing,
+    isExporting,
+    exportProgress,
+    processReframing,
+    updateConfig,
+    applyPreset,
+    exportVideo,
+    getFrameTransform,
+    updateTransform,
+    cancelExport,
+    reset: resetReframing
+  } = useReframing();
+
   const {
     isModelLoaded,
     isProcessing: isDetecting,
     detections,
+    shots,
+    saliency,
     trackedObjects,
+    trackQuality,
     selectedTrackId,
     targetDetection,
     processVideo,
+    findCachedAnalysis,
+    loadCachedAnalysis,
+    importDetections,
     selectTrack,
     getSelectedTrack,
     setConfidenceThreshold: updateConfidenceThreshold,
     setTargetHead,
     selectByteTrackId,
+    mergeTracks,
+    splitTrack,
+    reassignBox,
+    retrack,
+    analysisTrackerSettings,
+    masks,
+    updateMasks,
     reset: resetDetection,
     useByteTrack,
     setUseByteTrack
-  } = useObjectDetection();
+  } = useObjectDetection(detectionSettings, config.tracker ?? DEFAULT_TRACKER_SETTINGS);
   
   // Set initial confidence threshold when model is loaded
   useEffect(() => {
@@ -61,35 +112,35 @@ export default function Home() {
     }
   }, [isModelLoaded, confidenceThreshold, updateConfidenceThreshold]);
 
-  const {
-    config,
-    currentPreset,
-    transforms,
-    isProcessing: isReframingProcessing,
-    isExporting,
-    exportProgress,
-    processReframing,
-    updateConfig,
-    applyPreset,
-    exportVideo,
-    getFrameTransform,
-    updateTransform,
-    cancelExport,
-    reset: resetReframing
-  } = useReframing();
 
 
   const handleVideoLoad = useCallback(async (file: File) => {
     resetVideo();
     resetDetection();
     resetReframing();
+    resetSpeakers();
     setDetectionComplete(false);
     setShowHeadSelector(false);
+    setHasImportedDetections(false);
     
     try {
       const metadata = await loadVideo(file);
       setCurrentStep('process');
       setShowHeadSelector(true); // Show head selector after video loads
+      
+      // Bring back the masks painted the last time this file was opened
+      const project = await loadProject(file);
+      if (project) {
+        updateMasks(project.masks);
+        if (project.slicing) {
+          setDetectionSettings(prev => ({ ...prev, slicing: project.slicing }));
+        }
+        // The model may have been uninstalled since
+        const { detectorId } = project;
+        if (detectorId && await isDetectorAvailable(detectorId)) {
+          setDetectionSettings(prev => ({ ...prev, detectorId }));
+        }
+      }
       return metadata;
     } catch (error) {
       // console.error('Error loading video:', error);
@@ -100,13 +151,21 @@ export default function Home() {
       }
       throw error;
     }
-  }, [loadVideo, resetVideo, resetDetection, resetReframing]);
+  }, [loadVideo, resetVideo, resetDetection, resetReframing, resetSpeakers, loadProject, updateMasks]);
 
   const handleDetection = useCallback(async () => {
     if (!metadata) return;
     
     try {
-      await processVideo(processFrames, metadata);
+      // Imported detections are already complete; otherwise offer the stored analysis of this file
+      if (!hasImportedDetections) {
+        const cached = videoFile ? await findCachedAnalysis(videoFile) : null;
+        if (cached && window.confirm(`This video was analyzed on ${new Date(cached.createdAt).toLocaleString()} with the same settings. Reuse that analysis?`)) {
+          loadCachedAnalysis(cached);
+        } else {
+          await processVideo(processFrames, metadata, videoFile ?? undefined);
+        }
+      }
       setDetectionComplete(true);
       
       // If we have a selected track ID, select it
@@ -116,7 +175,20 @@ export default function Home() {
     } catch (error) {
       // console.error('Error during detection:', error);
     }
-  }, [processVideo, processFrames, metadata, selectedTrackIdForByteTrack, selectByteTrackId]);
+  }, [processVideo, findCachedAnalysis, loadCachedAnalysis, processFrames, metadata, videoFile, hasImportedDetections, selectedTrackIdForByteTrack, selectByteTrackId]);
+
+  const handleImportDetections = useCallback(async (file: File) => {
+    if (!metadata) return;
+    
+    await importDetections(file, metadata);
+    setHasImportedDetections(true);
+  }, [metadata, importDetections]);
+
+  // What the head selector shows for an imported file
+  const importedFirstFrameBoxes = useMemo(() => {
+    if (!hasImportedDetections) return undefined;
+    return detections.find(detection => detection.frameNumber === 0)?.boxes ?? [];
+  }, [hasImportedDetections, detections]);
 
   const handleReframing = useCallback(async () => {
     if (!metadata || !detections.length) return;
@@ -125,15 +197,18 @@ export default function Home() {
     updateConfig({ targetSelection: 'manual' });
     
     const selectedTrack = getSelectedTrack();
-    if (!selectedTrack) {
+    // With speaker framing the crop follows whoever is talking instead of one person
+    const speakers = (config.speakerFraming ?? 'off') !== 'off' ? await findSpeakers(detections, shots) : [];
+    // Footage without people is framed on salient regions instead
+    if (!selectedTrack && trackedObjects.length > 0 && speakers.length === 0) {
       alert('Please select a person to track first');
       return;
     }
     
     // Pass the initial target box dimensions if available
-    await processReframing(detections, selectedTrack, metadata, initialTargetBox || undefined);
+    await processReframing(detections, selectedTrack, metadata, initialTargetBox || undefined, shots, saliency, speakers);
     setShowTrajectoryEditor(true);
-  }, [metadata, detections, getSelectedTrack, processReframing, updateConfig, initialTargetBox]);
+  }, [metadata, detections, shots, saliency, config.speakerFraming, trackedObjects.length, getSelectedTrack, findSpeakers, processReframing, updateConfig, initialTargetBox]);
 
   const handleTrajectoryConfirm = useCallback(() => {
     setShowTrajectoryEditor(false);
@@ -163,11 +238,84 @@ export default function Home() {
     }
   }, [getVideoElement, metadata, exportVideo, videoFile]);
 
+  const handleDatasetExport = useCallback(async (options: DatasetExportOptions, onProgress: (progress: number) => void) => {
+    if (!metadata) return;
+    
+    const baseFilename = videoFile?.name ? videoFile.name.replace(/\.[^/.]+$/, '') : 'video';
+    let frameExtractor: FrameExtractor | null = null;
+    try {
+      // Frames are grabbed on a video element of their own, so the player stays where it is
+      frameExtractor = options.includeImages ? await createFrameExtractor() : null;
+      const blob = await exportDataset(
+        detections,
+        { name: baseFilename, width: metadata.width, height: metadata.height, fps: metadata.fps },
+        options,
+        frameExtractor?.extractFrame,
+        onProgress
+      );
+      
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${baseFilename}_${options.format}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      // console.error('Dataset export failed:', error);
+      alert(`Failed to export dataset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      frameExtractor?.dispose();
+    }
+  }, [metadata, videoFile, detections, createFrameExtractor]);
+
+  const keyframeCount = useMemo(() => detections.filter(detection => detection.isKeyframe).length, [detections]);
+
   const handleConfidenceChange = useCallback((threshold: number) => {
     setConfidenceThreshold(threshold);
     updateConfidenceThreshold(threshold);
   }, [updateConfidenceThreshold]);
 
+  // Re-frame the edited track if reframing already ran on the old one
+  const handleTrackEdit = useCallback(async (result: TrackEditResult) => {
+    if (transforms.size > 0 && result.selectedTrack && metadata) {
+      const speakers = (config.speakerFraming ?? 'off') !== 'off' ? await findSpeakers(result.detections, shots) : [];
+      processReframing(result.detections, result.selectedTrack, metadata, initialTargetBox || undefined, shots, saliency, speakers);
+    }
+  }, [transforms.size, metadata, config.speakerFraming, findSpeakers, processReframing, initialTargetBox, shots, saliency]);
+
+  const handleRetrack = useCallback(() => {
+    const result = retrack();
+    if (result) {
+      handleTrackEdit(result);
+    }
+  }, [retrack, handleTrackEdit]);
+
+  // Slicing and the detection model suit some footage and not others, so they are kept with the project
+  const handleSlicingChange = useCallback((slicing: SlicingSettings) => {
+    setDetectionSettings(prev => ({ ...prev, slicing }));
+    if (videoFile) {
+      saveProject(videoFile, { slicing });
+    }
+  }, [videoFile, saveProject]);
+
+  const handleDetectorChange = useCallback((detectorId: string) => {
+    setDetectionSettings(prev => ({ ...prev, detectorId }));
+    if (videoFile) {
+      saveProject(videoFile, { detectorId });
+    }
+  }, [videoFile, saveProject]);
+
+  // Masks apply at tracking, so an existing analysis is re-tracked without inference
+  const handleMasksChange = useCallback((nextMasks: DetectionMask[]) => {
+    const result = updateMasks(nextMasks);
+    if (videoFile) {
+      saveProject(videoFile, { masks: nextMasks });
+    }
+    if (result) {
+      handleTrackEdit(result);
+    }
+  }, [updateMasks, videoFile, saveProject, handleTrackEdit]);
+
   const handleHeadSelect = useCallback((box: BoundingBox) => {
     // Store the track ID
     if (box.trackId) {
@@ -201,13 +349,15 @@ export default function Home() {
     resetVideo();
     resetDetection();
     resetReframing();
+    resetSpeakers();
     setCurrentStep('upload');
     setDetectionComplete(false);
     setShowHeadSelector(false);
     setShowTrajectoryEditor(false);
     setSelectedTrackIdForByteTrack(null);
     setStartedFromHeadSelector(false);
-  }, [resetVideo, resetDetection, resetReframing]);
+    setHasImportedDetections(false);
+  }, [resetVideo, resetDetection, resetReframing, resetSpeakers]);
 
 
   // State to trigger re-renders when video time changes
@@ -233,10 +383,10 @@ export default function Home() {
     if (detectionComplete && startedFromHeadSelector && detections.length > 0 && selectedTrackId) {
       const selectedTrack = getSelectedTrack();
       if (selectedTrack && transforms.size === 0) { // Only process if transforms not yet created
-        processReframing(detections, selectedTrack, metadata!, initialTargetBox || undefined);
+        processReframing(detections, selectedTrack, metadata!, initialTargetBox || undefined, shots, saliency);
       }
     }
-  }, [detectionComplete, startedFromHeadSelector, detections, selectedTrackId, getSelectedTrack, transforms.size, processReframing, metadata, initialTargetBox]);
+  }, [detectionComplete, startedFromHeadSelector, detections, shots, saliency, selectedTrackId, getSelectedTrack, transforms.size, processReframing, metadata, initialTargetBox]);
 
   // Get current frame transform for video player
   const currentFrame = metadata && getVideoElement() 
@@ -366,13 +516,38 @@ export default function Home() {
                   onConfirm={handleHeadSelectorConfirm}
                   confidenceThreshold={confidenceThreshold}
                   onConfidenceChange={handleConfidenceChange}
+                  detectorId={detectionSettings.detectorId}
+                  onDetectorChange={handleDetectorChange}
+                  classSetId={detectionSettings.classSetId}
+                  onClassSetChange={(classSetId) => setDetectionSettings(prev => ({ ...prev, classSetId }))}
+                  faceLandmarks={detectionSettings.faceLandmarks}
+                  onFaceLandmarksChange={(faceLandmarks) => setDetectionSettings(prev => ({ ...prev, faceLandmarks }))}
+                  headDetection={detectionSettings.headDetection}
+                  onHeadDetectionChange={(headDetection) => setDetectionSettings(prev => ({ ...prev, headDetection }))}
+                  slicing={detectionSettings.slicing}
+                  onSlicingChange={handleSlicingChange}
+                  importedBoxes={importedFirstFrameBoxes}
+                  onImportDetections={handleImportDetections}
                 />
               )}
 
+              {/* Detection Masks - Before detection, or to re-track after it */}
+              {(showHeadSelector || detectionComplete) && !isDetecting && !showTrajectoryEditor && metadata && (
+                <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                  <MaskEditor
+                    videoElement={getVideoElement()}
+                    currentFrame={currentFrame}
+                    totalFrames={Math.floor(metadata.fps * metadata.duration)}
+                    masks={masks}
+                    onChange={handleMasksChange}
+                  />
+                </div>
+              )}
+
               {/* Detection Progress - Show during detection when started from HeadSelector */}
               {isDetecting && startedFromHeadSelector && (
                 <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
-                  <h3 className="text-lg font-semibold text-white mb-4">Detecting Persons</h3>
+                  <h3 className="text-lg font-semibold text-white mb-4">Detecting Subjects</h3>
                   <div className="flex items-center space-x-3">
                     <svg className="animate-spin h-5 w-5 text-blue-500" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -423,6 +598,7 @@ export default function Home() {
                 <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
                   <DetectionOverlay
                     trackedObjects={trackedObjects}
+                    trackQuality={trackQuality}
                     selectedTrackId={selectedTrackId}
                     showDetections={showDetections}
                     showReframing={showReframing}
@@ -446,27 +622,49 @@ export default function Home() {
                 </div>
               )}
 
-              {/* Reframing Button - Show after detection is complete */}
+              {/* Track Editor - Fix ID switches before reframing */}
+              {detectionComplete && !showHeadSelector && !showTrajectoryEditor && trackedObjects.length > 0 && (
+                <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                  <TrackEditor
+                    trackedObjects={trackedObjects}
+                    trackQuality={trackQuality}
+                    selectedTrackId={selectedTrackId}
+                    currentFrame={currentFrame}
+                    onSelectTrack={selectTrack}
+                    onMerge={(keepId, mergeId) => handleTrackEdit(mergeTracks(keepId, mergeId))}
+                    onSplit={(trackId, fromFrame) => handleTrackEdit(splitTrack(trackId, fromFrame))}
+                    onReassign={(frameNumber, fromId, toId) => handleTrackEdit(reassignBox(frameNumber, fromId, toId))}
+                  />
+                </div>
+              )}
+
+              {/* Dataset Export - Corrected tracks as training data */}
+              {detectionComplete && !showHeadSelector && !showTrajectoryEditor && trackedObjects.length > 0 && (
+                <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                  <DatasetExportPanel
+                    onExport={handleDatasetExport}
+                    keyframeCount={keyframeCount}
+                    frameCount={detections.length}
+                  />
+                </div>
+              )}
+
+              {/* Reframing Settings - Show after detection is complete */}
               {detectionComplete && !showTrajectoryEditor && (
                 <div className="bg-black/30 backdrop-blur-sm rounded-xl p-6 border border-white/10">
-                  <h3 className="text-lg font-semibold text-white mb-4">Apply Reframing</h3>
-                  <div className="mb-4 text-sm text-gray-300">
-                    <p>Selected person: {selectedTrackId ? `Track ID ${selectedTrackId}` : 'None'}</p>
-                    <p>Output ratio: {config.outputRatio}</p>
-                    <p>Padding: {(config.padding * 100).toFixed(0)}%</p>
-                    <p>Smoothness: {(config.smoothness * 100).toFixed(0)}%</p>
-                  </div>
-                  <button
-                    onClick={handleReframing}
-                    disabled={isReframingProcessing || !selectedTrackId}
-                    className="w-full py-3 px-4 bg-green-500 text-white font-medium rounded-md
-                               hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed
-                               transition-colors"
-                  >
-                    {isReframingProcessing ? 'Processing...' : 
-                     !selectedTrackId ? 'Select a Person First' : 
-                     'Apply Reframing'}
-                  </button>
+                  <ReframingControls
+                    config={config}
+                    currentPreset={currentPreset}
+                    trackedObjects={trackedObjects}
+                    selectedTrackId={selectedTrackId}
+                    onConfigChange={updateConfig}
+                    onPresetChange={applyPreset}
+                    onTrackSelect={selectTrack}
+                    onProcess={handleReframing}
+                    isProcessing={isReframingProcessing || isAnalyzingAudio}
+                    trackerSettingsApplied={analysisTrackerSettings}
+                    onRetrack={handleRetrack}
+                  />
                 </div>
               )}
 
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { DatasetExportOptions, DatasetFormat, DEFAULT_DATASET_EXPORT_OPTIONS } from '@/lib/detection/dataset-export';
+
+interface DatasetExportPanelProps {
+  onExport: (options: DatasetExportOptions, onProgress: (progress: number) => void) => Promise<void>;
+  keyframeCount: number;
+  frameCount: number;
+}
+
+const FORMAT_DESCRIPTIONS: Record<DatasetFormat, string> = {
+  mot: 'MOTChallenge sequence: gt.txt with people and their track IDs, head centers in heads.txt',
+  coco: 'COCO JSON with frame_id, track_id and head_center on every annotation',
+  yolo: 'Ultralytics label files and data.yaml, ready for fine-tuning'
+};
+
+/**
+ * Save the corrected tracks as training data
+ */
+export function DatasetExportPanel({ onExport, keyframeCount, frameCount }: DatasetExportPanelProps) {
+  const [options, setOptions] = useState<DatasetExportOptions>(DEFAULT_DATASET_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleExport = async () => {
+    setProgress(0);
+    try {
+      await onExport(options, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const exportedFrames = options.frames === 'keyframes' ? keyframeCount : frameCount;
+
+  return (
+    <div className="w-full">
+      <h3 className="text-lg font-semibold text-white mb-4">Export Dataset</h3>
+
+      <div className="mb-3">
+        <label className="block text-sm font-medium text-gray-300 mb-1">Format</label>
+        <select
+          value={options.format}
+          onChange={(e) => setOptions({ ...options, format: e.target.value as DatasetFormat })}
+          className="w-full px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        >
+          <option value="coco">COCO JSON</option>
+          <option value="mot">MOT txt</option>
+          <option value="yolo">YOLO txt</option>
+        </select>
+        <div className="text-xs text-gray-400 mt-1">{FORMAT_DESCRIPTIONS[options.format]}</div>
+      </div>
+
+      <div className="mb-3">
+        <label className="block text-sm font-medium text-gray-300 mb-1">Frames</label>
+        <select
+          value={options.frames}
+          onChange={(e) => setOptions({ ...options, frames: e.target.value as DatasetExportOptions['frames'] })}
+          className="w-full px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        >
+          <option value="keyframes">Keyframes only ({keyframeCount})</option>
+          <option value="all">All frames ({frameCount})</option>
+        </select>
+        <div className="text-xs text-gray-400 mt-1">
+          Boxes between keyframes are interpolated, not detected
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-300">Include Frame Images</span>
+        <input
+          type="checkbox"
+          checked={options.includeImages}
+          onChange={(e) => setOptions({ ...options, includeImages: e.target.checked })}
+          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+        />
+      </label>
+      {options.includeImages && (
+        <div className="text-xs text-gray-400 -mt-2 mb-3">
+          The zip is built in memory; exports over 2 GB stop with an error
+        </div>
+      )}
+
+      {options.format === 'yolo' && (
+        <label className="flex items-center justify-between mb-3">
+          <span className="text-sm font-medium text-gray-300">Head Centers as Pose Keypoints</span>
+          <input
+            type="checkbox"
+            checked={options.headKeypoints}
+            onChange={(e) => setOptions({ ...options, headKeypoints: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+        </label>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={progress !== null || exportedFrames === 0}
+        className="w-full py-2 px-4 bg-gray-700 text-gray-100 font-medium rounded-lg hover:bg-gray-600
+                   disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {progress === null
+          ? `Download ${options.format.toUpperCase()} Dataset`
+          : options.includeImages ? `Extracting frames... ${(progress * 100).toFixed(0)}%` : 'Packing...'}
+      </button>
+    </div>
+  );
+}
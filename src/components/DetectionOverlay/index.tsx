@@ -1,9 +1,12 @@
 'use client';
 
 import { TrackedObject } from '@/types';
+import { TrackQuality } from '@/lib/detection/track-quality';
+import { TrackQualityBadge } from '@/components/TrackQualityReport';
 
 interface DetectionOverlayProps {
   trackedObjects: TrackedObject[];
+  trackQuality?: Map<string, TrackQuality>;
   selectedTrackId: string | null;
   showDetections: boolean;
   showReframing: boolean;
@@ -15,6 +18,7 @@ interface DetectionOverlayProps {
 
 export function DetectionOverlay({
   trackedObjects,
+  trackQuality,
   selectedTrackId,
   showDetections,
   showReframing,
@@ -91,7 +95,10 @@ export function DetectionOverlay({
                       : 'bg-white/5 text-gray-300'
                   }`}
                 >
-                  <div className="font-medium">{obj.label}</div>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{obj.label}</span>
+                    <TrackQualityBadge quality={trackQuality?.get(obj.id)} />
+                  </div>
                   <div className="text-xs text-gray-400">
                     Track {obj.id.split('_')[1]} • {frameCount} frames
                   </div>
@@ -1,8 +1,20 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Detection, BoundingBox, ReframingConfig } from '@/types';
+import { Detection, BoundingBox, ReframingConfig, SliceMode, SlicingSettings } from '@/types';
 import { REFRAMING_PRESETS } from '@/lib/reframing/presets';
+import {
+  createDetector,
+  listDetectors,
+  loadDetectorManifest,
+  DetectorDefinition,
+  DEFAULT_DETECTOR_ID
+} from '@/lib/detection/detector-registry';
+import { CLASS_SETS, DEFAULT_CLASS_SET_ID, getClassSetNames } from '@/lib/detection/class-sets';
+import { attachPosesToBoxes, estimateHeadCenter } from '@/lib/detection/pose-utils';
+import { DEFAULT_SLICING_SETTINGS, SlicedDetector, planSlices } from '@/lib/detection/sliced-detector';
+import { loadInstalledModels } from '@/lib/detection/model-manager';
+import { ModelManager } from '@/components/ModelManager';
 
 interface HeadSelectorProps {
   videoElement: HTMLVideoElement | null;
@@ -10,6 +22,18 @@ interface HeadSelectorProps {
   onConfirm: (reframingConfig?: ReframingConfig) => void;
   confidenceThreshold?: number;
   onConfidenceChange?: (value: number) => void;
+  detectorId?: string;
+  onDetectorChange?: (detectorId: string) => void;
+  classSetId?: string;
+  onClassSetChange?: (classSetId: string) => void;
+  faceLandmarks?: boolean;
+  onFaceLandmarksChange?: (enabled: boolean) => void;
+  headDetection?: boolean;
+  onHeadDetectionChange?: (enabled: boolean) => void;
+  slicing?: SlicingSettings;
+  onSlicingChange?: (slicing: SlicingSettings) => void;
+  importedBoxes?: BoundingBox[]; // First-frame boxes from an imported file; the detector is skipped
+  onImportDetections?: (file: File) => Promise<void>;
 }
 
 export function HeadSelector({ 
@@ -17,11 +41,29 @@ export function HeadSelector({
   onSelectHead, 
   onConfirm, 
   confidenceThreshold = 0.3,
-  onConfidenceChange
+  onConfidenceChange,
+  detectorId = DEFAULT_DETECTOR_ID,
+  onDetectorChange,
+  classSetId = DEFAULT_CLASS_SET_ID,
+  onClassSetChange,
+  faceLandmarks = false,
+  onFaceLandmarksChange,
+  headDetection = false,
+  onHeadDetectionChange,
+  slicing = DEFAULT_SLICING_SETTINGS,
+  onSlicingChange,
+  importedBoxes,
+  onImportDetections
 }: HeadSelectorProps) {
   const [detections, setDetections] = useState<BoundingBox[]>([]);
+  const [availableDetectors, setAvailableDetectors] = useState<DetectorDefinition[]>(() => listDetectors());
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [isDetecting, setIsDetecting] = useState(false);
+  const [modelInputSize, setModelInputSize] = useState(640);
+  // Tiles the detector actually ran on the first frame; auto mode may skip them
+  const [firstFrameSlices, setFirstFrameSlices] = useState<number | null>(null);
+  const [showModelManager, setShowModelManager] = useState(false);
+  const detectorsLoadedRef = useRef<Promise<void> | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   
@@ -99,7 +141,7 @@ export function HeadSelector({
         ctx.fillStyle = isSelected ? '#00ff00' : '#ff0000';
         ctx.font = 'bold 16px Arial';
         const trackIdLabel = detection.trackId ? `ID-${detection.trackId}: ` : '';
-        const label = `${trackIdLabel}person ${(detection.confidence * 100).toFixed(0)}%`;
+        const label = `${trackIdLabel}${detection.class} ${(detection.confidence * 100).toFixed(0)}%`;
         const textMetrics = ctx.measureText(label);
         
         ctx.fillRect(
@@ -132,6 +174,14 @@ export function HeadSelector({
     });
   }, [selectedIndex, activeTab, isDraggingReframeBox]);
 
+  // Pick up team-supplied detectors from the manifest and the user's installed models, once
+  const loadDetectors = useCallback(() => {
+    if (!detectorsLoadedRef.current) {
+      detectorsLoadedRef.current = Promise.all([loadDetectorManifest(), loadInstalledModels()]).then(() => undefined);
+    }
+    return detectorsLoadedRef.current;
+  }, []);
+
   // Detect heads in first frame
   const detectFirstFrame = useCallback(async () => {
     if (!videoElement || !canvasRef.current || !overlayCanvasRef.current) return;
@@ -160,20 +210,33 @@ export function HeadSelector({
     ctx.drawImage(videoElement, 0, 0);
     // console.log('Canvas size:', canvas.width, 'x', canvas.height);
 
-    // Import and run detection
+    // Imported detections already carry track IDs and head estimates
+    if (importedBoxes) {
+      const boxes = importedBoxes.map(box => ({ ...box }));
+      setDetections(boxes);
+      setSelectedIndex(null);
+      drawDetections(overlayCtx, boxes, null);
+      setIsDetecting(false);
+      return;
+    }
+
+    // Create and run the selected detector
     try {
-      // console.log('Importing PersonYOLODetector...');
-      const { PersonYOLODetector } = await import('@/lib/detection/person-yolo');
-      const detector = new PersonYOLODetector();
+      // A restored project may name a manifest or installed model, so register those first
+      await loadDetectors();
+      const detector = new SlicedDetector(await createDetector(detectorId), slicing);
+      setModelInputSize(detector.inputSize);
       
       // console.log('Initializing detector...');
       await detector.initialize();
       
       // Set a lower threshold for initial detection to ensure we catch all persons
       detector.setConfidenceThreshold(0.3);
+      detector.setClassFilter(getClassSetNames(classSetId));
       
       // console.log('Running detection on first frame...');
       const personDetections = await detector.detect(canvas);
+      setFirstFrameSlices(slicing.mode === 'off' ? null : detector.getLastSliceCount());
       // console.log('Raw detections found:', personDetections.length);
       
       // Always use ByteTracker for consistency
@@ -192,90 +255,48 @@ export function HeadSelector({
       const finalDetections = byteTracker.update(personDetections);
       // console.log('ByteTracker detections:', finalDetections.length);
         
-        // Try to detect heads for each person
-        const useHeadDetection = false; // Disable head detection - model not reliable
+        // Pose keypoints place heads on the first frame when the pose model is installed
+        if (finalDetections.some(detection => detection.class === 'person')) {
+          const { createPoseEstimator } = await import('@/lib/detection/pose-estimator');
+          const poseEstimator = await createPoseEstimator();
+          if (poseEstimator) {
+            try {
+              attachPosesToBoxes(finalDetections, await poseEstimator.detect(canvas));
+            } catch (poseError) {
+              // console.warn('Pose estimation failed, using estimates:', poseError);
+            } finally {
+              poseEstimator.dispose();
+            }
+          }
+        }
         
-        if (useHeadDetection) {
+        // Head model, when enabled, places heads the pose model missed
+        if (headDetection) {
           try {
             // console.log('Initializing head detector...');
             const { HeadDetector } = await import('@/lib/detection/head-detector');
             const headDetector = new HeadDetector();
             await headDetector.initialize();
             
-            // console.log('Detecting heads in tracked persons...');
-            for (const detection of finalDetections) {
-              const headResult = await headDetector.detectHeadInBox(
-                canvas,
-                detection,
-                0.05 // 5% padding
-              );
-              
-              if (headResult) {
-                // Add head center to detection
-                detection.headCenterX = headResult.x + headResult.width / 2;
-                detection.headCenterY = headResult.y + headResult.height / 2;
-                // console.log(`Head detected for track ${detection.trackId}:`);
-                // console.log(`  Person box: (${detection.x}, ${detection.y}, ${detection.width}, ${detection.height})`);
-                // console.log(`  Head box: (${headResult.x}, ${headResult.y}, ${headResult.width}, ${headResult.height})`);
-                // console.log(`  Head center: (${detection.headCenterX}, ${detection.headCenterY})`);
-                
-                // Verify head is within person box
-                if (detection.headCenterX < detection.x || 
-                    detection.headCenterX > detection.x + detection.width ||
-                    detection.headCenterY < detection.y || 
-                    detection.headCenterY > detection.y + detection.height) {
-                  // console.warn(`WARNING: Head center is outside person box!`);
-                }
-              } else {
-                // Smart head position estimation based on box aspect ratio
-                const aspectRatio = detection.width / detection.height;
-                
-                if (aspectRatio > 1.5) {
-                  // Wide box - person likely horizontal (like figure skating)
-                  // For figure skating, head is typically at the left side when horizontal
-                  detection.headCenterX = detection.x + detection.width * 0.15; // Head at left end
-                  detection.headCenterY = detection.y + detection.height * 0.5;
-                  // console.log(`Head estimated for horizontal pose (figure skating), track ${detection.trackId} at (${detection.headCenterX}, ${detection.headCenterY})`);
-                } else {
-                  // Normal standing pose
-                  detection.headCenterX = detection.x + detection.width / 2;
-                  detection.headCenterY = detection.y + detection.height * 0.25;
-                  // console.log(`Head estimated for track ${detection.trackId} at (${detection.headCenterX}, ${detection.headCenterY})`);
-                }
-              }
-            }
+            // One full-frame pass, matched to the tracked people
+            const { attachHeadsToBoxes } = await import('@/lib/detection/head-association');
+            attachHeadsToBoxes(finalDetections, await headDetector.detect(canvas));
             
             headDetector.dispose();
           } catch (headError) {
             // console.warn('Head detection failed, using estimates:', headError);
-            // Use estimated head positions
-            for (const detection of finalDetections) {
-              const aspectRatio = detection.width / detection.height;
-              if (aspectRatio > 1.5) {
-                detection.headCenterX = detection.x + detection.width * 0.15;
-                detection.headCenterY = detection.y + detection.height * 0.5;
-              } else {
-                detection.headCenterX = detection.x + detection.width / 2;
-                detection.headCenterY = detection.y + detection.height * 0.25;
-              }
-            }
-          }
-        } else {
-          // Use estimated head positions when head detection is disabled
-          // console.log('Using estimated head positions (head detection disabled)');
-          for (const detection of finalDetections) {
-            const aspectRatio = detection.width / detection.height;
-            if (aspectRatio > 1.5) {
-              detection.headCenterX = detection.x + detection.width * 0.15;
-              detection.headCenterY = detection.y + detection.height * 0.5;
-              // console.log(`Head estimated for horizontal pose, track ${detection.trackId} at (${detection.headCenterX}, ${detection.headCenterY})`);
-            } else {
-              detection.headCenterX = detection.x + detection.width / 2;
-              detection.headCenterY = detection.y + detection.height * 0.25;
-              // console.log(`Head estimated for track ${detection.trackId} at (${detection.headCenterX}, ${detection.headCenterY})`);
-            }
           }
         }
+        
+        // Remaining people get keypoint or box-shape estimates
+        // Non-person subjects (balls, pets, ...) are framed on their box center
+        for (const detection of finalDetections) {
+          if (detection.class !== 'person') continue;
+          const head = estimateHeadCenter(detection);
+          detection.headCenterX = head.x;
+          detection.headCenterY = head.y;
+          // console.log(`Head estimated for track ${detection.trackId} at (${detection.headCenterX}, ${detection.headCenterY})`);
+        }
       
       setDetections(finalDetections);
       detector.dispose();
@@ -284,7 +305,7 @@ export function HeadSelector({
       if (finalDetections.length > 0) {
         drawDetections(overlayCtx, finalDetections, null);
       } else {
-        // console.warn('No persons detected in the first frame');
+        // console.warn('No subjects detected in the first frame');
       }
     } catch (error) {
       // console.error('Failed to detect persons:', error);
@@ -296,7 +317,11 @@ export function HeadSelector({
     } finally {
       setIsDetecting(false);
     }
-  }, [videoElement, confidenceThreshold, drawDetections]);
+  }, [videoElement, confidenceThreshold, drawDetections, detectorId, classSetId, headDetection, slicing, importedBoxes, loadDetectors]);
+
+  useEffect(() => {
+    loadDetectors().then(() => setAvailableDetectors(listDetectors()));
+  }, [loadDetectors]);
 
   // Calculate reframe box preview
   const calculateReframeBox = useCallback(() => {
@@ -431,6 +456,20 @@ export function HeadSelector({
     setIsDraggingReframeBox(false);
   };
 
+  // Load a MOT or COCO file instead of detecting
+  const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onImportDetections) return;
+
+    try {
+      await onImportDetections(file);
+    } catch (error) {
+      // console.error('Failed to import detections:', error);
+      alert(`Failed to import detections: ${error instanceof Error ? error.message : 'unreadable file'}`);
+    }
+  };
+
   // Auto-detect on mount
   useEffect(() => {
     if (videoElement) {
@@ -495,8 +534,8 @@ export function HeadSelector({
           <div className="mb-4 text-sm text-gray-300">
             {selectedIndex === null ? (
               <>
-                <p>Click on a person to select them for tracking.</p>
-                <p>Selected person will be highlighted with a green border.</p>
+                <p>Click on a person or object to select them for tracking.</p>
+                <p>Selected target will be highlighted with a green border.</p>
               </>
             ) : (
               <div className="flex items-center space-x-2 text-blue-400">
@@ -512,6 +551,169 @@ export function HeadSelector({
           <div className="mb-4 p-4 bg-black/20 rounded-lg border border-white/5">
             <h4 className="text-md font-semibold text-white mb-3">Detection Settings</h4>
             
+            {/* Imported Detections */}
+            {onImportDetections && (
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-gray-300 mb-1">Import Detections</label>
+                <input
+                  type="file"
+                  accept=".txt,.csv,.json"
+                  onChange={handleImportChange}
+                  className="w-full text-sm text-gray-300 file:mr-3 file:py-1 file:px-3 file:rounded-md file:border-0 file:bg-gray-700 file:text-gray-100"
+                />
+                <div className="text-xs text-gray-400 mt-1">
+                  {importedBoxes
+                    ? 'Using the imported file. The detection model is skipped.'
+                    : 'MOT txt or COCO JSON from another detector or tracker, instead of running the model.'}
+                </div>
+              </div>
+            )}
+            
+            {/* Detector Model */}
+            {onDetectorChange && !importedBoxes && (
+              <div className="mb-3">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-sm font-medium text-gray-300">Detection Model</label>
+                  <button
+                    onClick={() => setShowModelManager(prev => !prev)}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    {showModelManager ? 'Done' : 'Add Your Own...'}
+                  </button>
+                </div>
+                <select
+                  value={detectorId}
+                  onChange={(e) => onDetectorChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+                >
+                  {availableDetectors.map(definition => (
+                    <option key={definition.id} value={definition.id}>
+                      {definition.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-400 mt-1">
+                  {availableDetectors.find(definition => definition.id === detectorId)?.description}
+                </div>
+                {showModelManager && (
+                  <div className="mt-2">
+                    <ModelManager
+                      onInstalled={(model) => {
+                        setAvailableDetectors(listDetectors());
+                        onDetectorChange(model.id);
+                      }}
+                      onRemoved={(id) => {
+                        setAvailableDetectors(listDetectors());
+                        if (id === detectorId) {
+                          onDetectorChange(DEFAULT_DETECTOR_ID);
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {/* Class Set */}
+            {onClassSetChange && (
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-gray-300 mb-1">Track Classes</label>
+                <select
+                  value={classSetId}
+                  onChange={(e) => onClassSetChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+                >
+                  {Object.values(CLASS_SETS).map(classSet => (
+                    <option key={classSet.id} value={classSet.id}>
+                      {classSet.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-400 mt-1">
+                  {CLASS_SETS[classSetId]?.description}
+                </div>
+              </div>
+            )}
+            
+            {/* Sliced Inference */}
+            {onSlicingChange && !importedBoxes && (
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-gray-300 mb-1">Small Subject Detection</label>
+                <select
+                  value={slicing.mode}
+                  onChange={(e) => onSlicingChange({ ...slicing, mode: e.target.value as SliceMode })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+                >
+                  <option value="off">Off</option>
+                  <option value="auto">Auto (when subjects are small)</option>
+                  <option value="always">Always</option>
+                </select>
+                {slicing.mode !== 'off' && (
+                  <div className="mt-2">
+                    <label className="block text-xs text-gray-400 mb-1">Max Tiles: {slicing.maxSlices}</label>
+                    <input
+                      type="range"
+                      min="2"
+                      max="12"
+                      value={slicing.maxSlices}
+                      onChange={(e) => onSlicingChange({ ...slicing, maxSlices: parseInt(e.target.value, 10) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                )}
+                <div className="text-xs text-gray-400 mt-1">
+                  {slicing.mode === 'off'
+                    ? 'Runs the model on overlapping tiles to find distant people in large frames.'
+                    : (() => {
+                      const tiles = videoElement
+                        ? planSlices(videoElement.videoWidth, videoElement.videoHeight, modelInputSize, slicing).length
+                        : 0;
+                      if (tiles === 0) return 'This video is too small for tiles to help.';
+                      const estimate = `Up to ${tiles + 1} model runs per keyframe instead of 1${slicing.mode === 'auto' ? ', only when needed' : ''}.`;
+                      return firstFrameSlices === null
+                        ? estimate
+                        : `${estimate} The first frame took ${firstFrameSlices + 1} run${firstFrameSlices === 0 ? '' : 's'}.`;
+                    })()}
+                </div>
+              </div>
+            )}
+            
+            {/* Face Landmarks */}
+            {onFaceLandmarksChange && (
+              <div className="mb-3">
+                <label className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-300">Face &amp; Eye-Line Framing</span>
+                  <input
+                    type="checkbox"
+                    checked={faceLandmarks}
+                    onChange={(e) => onFaceLandmarksChange(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                </label>
+                <div className="text-xs text-gray-400 mt-1">
+                  Detects faces and eye landmarks to keep the eyes on the upper third. Best for interviews and podcasts.
+                </div>
+              </div>
+            )}
+            
+            {/* Head Detection */}
+            {onHeadDetectionChange && (
+              <div className="mb-3">
+                <label className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-300">Head Detection</span>
+                  <input
+                    type="checkbox"
+                    checked={headDetection}
+                    onChange={(e) => onHeadDetectionChange(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                </label>
+                <div className="text-xs text-gray-400 mt-1">
+                  Runs a head model on each keyframe and matches heads to people. Helps with back views and crowds; slower.
+                </div>
+              </div>
+            )}
+            
             {/* Confidence Threshold */}
             {onConfidenceChange && (
               <div>
@@ -573,7 +775,7 @@ export function HeadSelector({
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
               </svg>
-              <span className="font-medium">Click on a person to select them</span>
+              <span className="font-medium">Click on a detection to select it</span>
             </div>
           </div>
         )}
@@ -585,7 +787,7 @@ export function HeadSelector({
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              <span>Detecting persons...</span>
+              <span>Detecting subjects...</span>
             </div>
           </div>
         )}
@@ -605,7 +807,7 @@ export function HeadSelector({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
                 <span className="text-sm text-green-500 font-medium">
-                  Person selected (ID: {detections[selectedIndex].trackId || selectedIndex + 1})
+                  <span className="capitalize">{detections[selectedIndex].class}</span> selected (ID: {detections[selectedIndex].trackId || selectedIndex + 1})
                 </span>
                 {activeTab === 'target' && (
                   <span className="text-sm text-blue-400 font-medium ml-2 flex items-center">
@@ -622,7 +824,7 @@ export function HeadSelector({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                 </svg>
                 <span className="text-sm text-yellow-500 font-medium">
-                  No person selected - Click on a detection box to select
+                  No target selected - Click on a detection box to select
                 </span>
               </>
             )}
@@ -641,8 +843,8 @@ export function HeadSelector({
       {detections.length > 0 && (
         <div className="mb-4">
           <p className="text-sm text-gray-300">
-            Found {detections.length} person{detections.length > 1 ? 's' : ''}.
-            {selectedIndex !== null && ` Person ${selectedIndex + 1} selected.`}
+            Found {detections.length} subject{detections.length > 1 ? 's' : ''}.
+            {selectedIndex !== null && ` ${detections[selectedIndex].class} ${selectedIndex + 1} selected.`}
           </p>
         </div>
       )}
@@ -711,7 +913,7 @@ export function HeadSelector({
                    hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed
                    transition-all transform hover:scale-[1.02] mt-4"
       >
-        {selectedIndex === null ? 'Select a Person First' : 
+        {selectedIndex === null ? 'Select a Target First' : 
          activeTab !== 'reframe' ? 'Configure Reframe Settings First' :
          'Confirm Selection & Start Detection'}
       </button>
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DetectionMask, Point } from '@/types';
+import { createMaskId, getMaskPolygon, setMaskOutline } from '@/lib/detection/detection-masks';
+
+interface MaskEditorProps {
+  videoElement: HTMLVideoElement | null;
+  currentFrame: number;
+  totalFrames: number;
+  masks: DetectionMask[];
+  onChange: (masks: DetectionMask[]) => void;
+}
+
+const MASK_COLORS: Record<DetectionMask['mode'], string> = {
+  exclude: '#ef4444',
+  include: '#22c55e'
+};
+
+/**
+ * Paint polygons that keep audiences, billboards and screens out of tracking,
+ * or restrict tracking to a region. Outlines can be re-drawn on later frames
+ * to follow a moving camera.
+ */
+export function MaskEditor({ videoElement, currentFrame, totalFrames, masks, onChange }: MaskEditorProps) {
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [mode, setMode] = useState<DetectionMask['mode']>('exclude');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const selectedMask = masks.find(mask => mask.id === selectedId) ?? null;
+
+  // Drop the selection when its mask is deleted
+  useEffect(() => {
+    if (selectedId && !masks.some(mask => mask.id === selectedId)) {
+      setSelectedId(null);
+    }
+  }, [masks, selectedId]);
+
+  const drawPolygon = useCallback((ctx: CanvasRenderingContext2D, points: Point[], color: string, closed: boolean, lineWidth: number) => {
+    if (points.length === 0) return;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    if (closed) {
+      ctx.closePath();
+      ctx.fillStyle = `${color}40`;
+      ctx.fill();
+    }
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    points.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, lineWidth + 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }, []);
+
+  // Draw the current frame with the masks active on it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !videoElement || !videoElement.videoWidth) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = videoElement.videoWidth;
+    canvas.height = videoElement.videoHeight;
+    ctx.drawImage(videoElement, 0, 0);
+
+    const lineWidth = Math.max(2, canvas.width / 400);
+    masks.forEach(mask => {
+      const polygon = getMaskPolygon(mask, currentFrame);
+      if (polygon) {
+        drawPolygon(ctx, polygon, MASK_COLORS[mask.mode], true, mask.id === selectedId ? lineWidth * 2 : lineWidth);
+      }
+    });
+    drawPolygon(ctx, draft, '#facc15', false, lineWidth);
+  }, [videoElement, currentFrame, masks, draft, selectedId, drawPolygon]);
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    setDraft(prev => [...prev, {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height
+    }]);
+  };
+
+  const handleAddMask = () => {
+    const mask: DetectionMask = {
+      id: createMaskId(masks),
+      mode,
+      startFrame: currentFrame,
+      endFrame: Math.max(currentFrame, totalFrames - 1),
+      keyframes: [{ frameNumber: currentFrame, points: draft }]
+    };
+    onChange([...masks, mask]);
+    setSelectedId(mask.id);
+    setDraft([]);
+  };
+
+  // Key the selected mask's outline on this frame
+  const handleSetOutline = () => {
+    if (!selectedMask) return;
+    onChange(masks.map(mask => (mask === selectedMask ? setMaskOutline(mask, currentFrame, draft) : mask)));
+    setDraft([]);
+  };
+
+  const updateMask = (id: string, changes: Partial<DetectionMask>) => {
+    onChange(masks.map(mask => (mask.id === id ? { ...mask, ...changes } : mask)));
+  };
+
+  const canFinish = draft.length >= 3;
+
+  return (
+    <div className="w-full">
+      <h3 className="text-lg font-semibold text-white mb-2">Detection Masks</h3>
+      <p className="text-sm text-gray-400 mb-3">
+        Click on the frame to outline audiences, billboards or screens whose people should not be tracked.
+      </p>
+
+      <div className="relative mb-3 bg-black rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          onClick={handleCanvasClick}
+          className="w-full h-auto cursor-crosshair"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as DetectionMask['mode'])}
+          className="flex-1 px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        >
+          <option value="exclude">Exclude (drop detections inside)</option>
+          <option value="include">Include (track only inside)</option>
+        </select>
+        <button
+          onClick={() => setDraft([])}
+          disabled={draft.length === 0}
+          className="px-3 py-2 text-sm bg-gray-700 text-gray-100 rounded-md hover:bg-gray-600 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={handleAddMask}
+          disabled={!canFinish}
+          className="flex-1 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add Mask from Frame {currentFrame}
+        </button>
+        <button
+          onClick={handleSetOutline}
+          disabled={!canFinish || !selectedMask}
+          title="Re-draw the selected mask on this frame; it moves smoothly between outlines with the same number of points"
+          className="flex-1 py-2 text-sm bg-gray-700 text-gray-100 rounded-md hover:bg-gray-600 disabled:opacity-50"
+        >
+          Set Outline Here
+        </button>
+      </div>
+
+      {masks.length > 0 && (
+        <div className="space-y-2">
+          {masks.map(mask => (
+            <div
+              key={mask.id}
+              onClick={() => setSelectedId(mask.id)}
+              className={`p-2 rounded-md border text-sm cursor-pointer ${
+                mask.id === selectedId ? 'border-blue-500 bg-blue-500/10' : 'border-white/10 bg-black/20'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium" style={{ color: MASK_COLORS[mask.mode] }}>
+                  {mask.mode === 'exclude' ? 'Exclude' : 'Include'} {mask.id}
+                </span>
+                <span className="text-xs text-gray-400">
+                  Frames {mask.startFrame}–{mask.endFrame} · {mask.keyframes.length} outline{mask.keyframes.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              {mask.id === selectedId && (
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => updateMask(mask.id, { startFrame: Math.min(currentFrame, mask.endFrame) })}
+                    className="px-2 py-1 text-xs bg-gray-700 text-gray-100 rounded hover:bg-gray-600"
+                  >
+                    Start Here
+                  </button>
+                  <button
+                    onClick={() => updateMask(mask.id, { endFrame: Math.max(currentFrame, mask.startFrame) })}
+                    className="px-2 py-1 text-xs bg-gray-700 text-gray-100 rounded hover:bg-gray-600"
+                  >
+                    End Here
+                  </button>
+                  <button
+                    onClick={() => onChange(masks.filter(other => other.id !== mask.id))}
+                    className="px-2 py-1 text-xs bg-red-600/80 text-white rounded hover:bg-red-600 ml-auto"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  InstalledModel,
+  ModelOutputLayout,
+  NORMALIZATION_PRESETS,
+  inferModelBackend,
+  installModel,
+  loadInstalledModels,
+  parseClassNames,
+  uninstallModel
+} from '@/lib/detection/model-manager';
+
+interface ModelManagerProps {
+  onInstalled: (model: InstalledModel) => void;
+  onRemoved: (id: string) => void;
+}
+
+const LAYOUT_DESCRIPTIONS: Record<ModelOutputLayout, string> = {
+  yolov8: 'Ultralytics YOLOv8/v11 export: box and class scores per anchor',
+  yolov5: 'YOLOv5/v7 export: box, objectness and class scores per anchor',
+  detr: 'DETR/RT-DETR: separate normalized box and score outputs'
+};
+
+/**
+ * Load TF.js or ONNX models from disk, describe their input and output, and
+ * keep them installed in the browser for later projects
+ */
+export function ModelManager({ onInstalled, onRemoved }: ModelManagerProps) {
+  const [installed, setInstalled] = useState<InstalledModel[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [name, setName] = useState('');
+  const [inputSize, setInputSize] = useState(640);
+  const [layout, setLayout] = useState<ModelOutputLayout>('yolov8');
+  const [classNamesText, setClassNamesText] = useState('person');
+  const [normalizationId, setNormalizationId] = useState('unit');
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInstalledModels().then(setInstalled);
+  }, []);
+
+  const backend = inferModelBackend(files);
+  const classNames = parseClassNames(classNamesText);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files ?? []);
+    setFiles(picked);
+    setError(null);
+    const main = picked.find(file => file.name.endsWith('.onnx') || file.name.endsWith('.json'));
+    if (main && !name) {
+      setName(main.name.replace(/\.(onnx|json)$/, ''));
+    }
+  };
+
+  const handleInstall = async () => {
+    if (!backend) return;
+    setIsValidating(true);
+    setError(null);
+    try {
+      const { model, validation } = await installModel({
+        name: name.trim() || 'Custom model',
+        backend,
+        inputSize,
+        layout,
+        classNames,
+        normalization: NORMALIZATION_PRESETS[normalizationId].normalization
+      }, files);
+
+      if (!validation.valid) {
+        setError(validation.error ?? 'The model did not pass the dry run');
+        return;
+      }
+      setInstalled(prev => [...prev, model]);
+      setFiles([]);
+      setName('');
+      onInstalled(model);
+    } catch (installError) {
+      setError(installError instanceof Error ? installError.message : 'Failed to install the model');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      await uninstallModel(id);
+      setInstalled(prev => prev.filter(model => model.id !== id));
+      onRemoved(id);
+    } catch (removeError) {
+      setError(removeError instanceof Error ? removeError.message : 'Failed to remove the model');
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-md border border-white/10 bg-black/20">
+      {installed.length > 0 && (
+        <div className="space-y-1 mb-3">
+          {installed.map(model => (
+            <div key={model.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-200 truncate">
+                {model.name} <span className="text-xs text-gray-400">({model.backend === 'tfjs' ? 'TF.js' : 'ONNX'}, {model.inputSize}px)</span>
+              </span>
+              <button
+                onClick={() => handleRemove(model.id)}
+                className="px-2 py-1 text-xs bg-red-600/80 text-white rounded hover:bg-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="block text-xs text-gray-400 mb-1">Model Files (.onnx, or model.json with its .bin shards)</label>
+      <input
+        type="file"
+        multiple
+        accept=".onnx,.json,.bin"
+        onChange={handleFiles}
+        className="w-full text-sm text-gray-300 mb-2"
+      />
+      {files.length > 0 && !backend && (
+        <div className="text-xs text-red-400 mb-2">Pick an .onnx file or a TF.js model.json</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="px-2 py-1 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        />
+        <input
+          type="number"
+          min="32"
+          step="32"
+          value={inputSize}
+          onChange={(e) => setInputSize(parseInt(e.target.value, 10) || 640)}
+          title="Square input size in pixels"
+          className="px-2 py-1 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        />
+        <select
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as ModelOutputLayout)}
+          className="px-2 py-1 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        >
+          <option value="yolov8">YOLOv8 output</option>
+          <option value="yolov5">YOLOv5 output</option>
+          <option value="detr">DETR output</option>
+        </select>
+        <select
+          value={normalizationId}
+          onChange={(e) => setNormalizationId(e.target.value)}
+          className="px-2 py-1 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+        >
+          {Object.entries(NORMALIZATION_PRESETS).map(([id, preset]) => (
+            <option key={id} value={id}>{preset.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="text-xs text-gray-400 mb-2">{LAYOUT_DESCRIPTIONS[layout]}</div>
+
+      <label className="block text-xs text-gray-400 mb-1">Class Names, in model order ({classNames.length})</label>
+      <textarea
+        value={classNamesText}
+        onChange={(e) => setClassNamesText(e.target.value)}
+        rows={3}
+        className="w-full px-2 py-1 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm mb-2"
+      />
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      <button
+        onClick={handleInstall}
+        disabled={!backend || classNames.length === 0 || isValidating}
+        className="w-full py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isValidating ? 'Testing model...' : 'Test and Install'}
+      </button>
+    </div>
+  );
+}
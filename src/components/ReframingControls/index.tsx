@@ -1,7 +1,17 @@
 'use client';
 
-import { ReframingConfig, TrackedObject } from '@/types';
+import { ReframingConfig, SpeakerFraming, TrackedObject, TrackerSettings } from '@/types';
 import { REFRAMING_PRESETS } from '@/lib/reframing/presets';
+import { DEFAULT_TRACKER_SETTINGS, TRACKER_PRESETS, findTrackerPreset } from '@/lib/detection/tracker-presets';
+
+// Slider ranges for the ByteTrack parameters
+const TRACKER_SLIDERS: { key: Exclude<keyof TrackerSettings, 'cameraMotionCompensation'>; label: string; min: number; max: number; step: number; hint: string }[] = [
+  { key: 'trackThresh', label: 'Track threshold', min: 0, max: 1, step: 0.05, hint: 'Confidence needed to start or keep a track' },
+  { key: 'lowThresh', label: 'Low threshold', min: 0, max: 1, step: 0.05, hint: 'Weaker detections that only continue tracks' },
+  { key: 'matchThresh', label: 'Match threshold', min: 0, max: 1, step: 0.05, hint: 'Higher accepts matches with less overlap' },
+  { key: 'trackBuffer', label: 'Track buffer', min: 0, max: 450, step: 15, hint: 'Frames a lost person is remembered' },
+  { key: 'minBoxArea', label: 'Min box area', min: 0, max: 2000, step: 50, hint: 'Smaller detections are ignored (px²)' }
+];
 
 interface ReframingControlsProps {
   config: ReframingConfig;
@@ -13,6 +23,8 @@ interface ReframingControlsProps {
   onTrackSelect: (trackId: string | null) => void;
   onProcess: () => void;
   isProcessing: boolean;
+  trackerSettingsApplied?: TrackerSettings | null; // Settings the current tracks were made with
+  onRetrack?: () => void;
 }
 
 export function ReframingControls({
@@ -24,8 +36,18 @@ export function ReframingControls({
   onPresetChange,
   onTrackSelect,
   onProcess,
-  isProcessing
+  isProcessing,
+  trackerSettingsApplied,
+  onRetrack
 }: ReframingControlsProps) {
+  const tracker = config.tracker ?? DEFAULT_TRACKER_SETTINGS;
+  const trackerPreset = findTrackerPreset(tracker);
+  const trackerChanged = !!trackerSettingsApplied &&
+    (Object.keys(tracker) as (keyof TrackerSettings)[]).some(key => tracker[key] !== trackerSettingsApplied[key]);
+  const speakerFraming = config.speakerFraming ?? 'off';
+  // Without any tracks the crop follows salient regions and motion instead
+  const needsSelection = !selectedTrackId && trackedObjects.length > 0 && speakerFraming === 'off';
+
   return (
     <div className="w-full">
       <h2 className="text-xl font-bold text-white mb-4">Reframing Settings</h2>
@@ -39,6 +61,7 @@ export function ReframingControls({
           className="w-full px-3 py-2 border border-gray-600 rounded-md 
                      bg-gray-700 text-gray-100"
         >
+          {!REFRAMING_PRESETS[currentPreset] && <option value={currentPreset}>Custom</option>}
           {Object.keys(REFRAMING_PRESETS).map(preset => (
             <option key={preset} value={preset}>
               {preset.split('-').map(word => 
@@ -76,11 +99,34 @@ export function ReframingControls({
           {selectedTrackId && trackedObjects.length > 0 ? (() => {
             const selected = trackedObjects.find(obj => obj.id === selectedTrackId);
             return selected ? `${selected.label} (Track ID: ${selected.id})` : 'No person selected';
-          })() : 'No person selected'}
+          })() : trackedObjects.length > 0 ? 'No person selected' : 'No people found'}
         </div>
-        {!selectedTrackId && (
+        {needsSelection && (
           <p className="mt-1 text-sm text-yellow-400">Please select a person to track before applying reframing</p>
         )}
+        {trackedObjects.length === 0 && (
+          <p className="mt-1 text-sm text-gray-400">The crop will follow whatever stands out or moves in the frame</p>
+        )}
+      </div>
+
+      {/* Active Speaker */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-200 mb-2">Follow Active Speaker</label>
+        <select
+          value={speakerFraming}
+          onChange={(e) => onConfigChange({ speakerFraming: e.target.value as SpeakerFraming })}
+          className="w-full px-3 py-2 border border-gray-600 rounded-md 
+                     bg-gray-700 text-gray-100"
+        >
+          <option value="off">Off</option>
+          <option value="cut">Cut between speakers</option>
+          <option value="pan">Pan between speakers</option>
+        </select>
+        {speakerFraming !== 'off' && (
+          <p className="mt-1 text-xs text-gray-400">
+            Uses the audio track, stereo panning and mouth motion to pick who is talking. Needs at least two people.
+          </p>
+        )}
       </div>
 
       {/* Smoothness */}
@@ -113,16 +159,84 @@ export function ReframingControls({
         />
       </div>
 
+      {/* Tracker */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-200 mb-2">Tracker</label>
+        <select
+          value={trackerPreset?.id ?? 'custom'}
+          onChange={(e) => {
+            const preset = TRACKER_PRESETS[e.target.value];
+            if (preset) onConfigChange({ tracker: preset.settings });
+          }}
+          className="w-full px-3 py-2 border border-gray-600 rounded-md 
+                     bg-gray-700 text-gray-100"
+        >
+          {!trackerPreset && <option value="custom">Custom</option>}
+          {Object.values(TRACKER_PRESETS).map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        {trackerPreset && (
+          <p className="mt-1 text-xs text-gray-400">{trackerPreset.description}</p>
+        )}
+
+        <div className="mt-3 space-y-3">
+          {TRACKER_SLIDERS.map(slider => (
+            <div key={slider.key}>
+              <label className="block text-xs text-gray-300 mb-1" title={slider.hint}>
+                {slider.label}: {tracker[slider.key]}
+              </label>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={tracker[slider.key]}
+                onChange={(e) => onConfigChange({ tracker: { ...tracker, [slider.key]: parseFloat(e.target.value) } })}
+                className="w-full"
+              />
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center mt-3 text-xs text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={tracker.cameraMotionCompensation}
+            onChange={(e) => onConfigChange({ tracker: { ...tracker, cameraMotionCompensation: e.target.checked } })}
+            className="mr-2"
+          />
+          Compensate camera motion (panning, handheld)
+        </label>
+
+        {onRetrack && (
+          <button
+            onClick={onRetrack}
+            disabled={isProcessing || !trackerChanged}
+            className="w-full mt-3 py-2 px-4 bg-white/10 text-white text-sm rounded-md
+                       hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed
+                       transition-colors"
+          >
+            Re-run Tracking
+          </button>
+        )}
+        {onRetrack && trackerChanged && (
+          <p className="mt-1 text-xs text-yellow-400">
+            Re-tracks the stored detections without running the models again. Manual track edits are lost.
+          </p>
+        )}
+      </div>
+
       {/* Process Button */}
       <button
         onClick={onProcess}
-        disabled={isProcessing || !selectedTrackId}
+        disabled={isProcessing || needsSelection}
         className="w-full py-3 px-4 bg-green-500 text-white font-medium rounded-md
                    hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed
                    transition-colors"
       >
         {isProcessing ? 'Processing...' : 
-         !selectedTrackId ? 'Select a Person First' : 
+         needsSelection ? 'Select a Person First' : 
          'Apply Reframing'}
       </button>
     </div>
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TrackedObject } from '@/types';
+import { TrackQuality } from '@/lib/detection/track-quality';
+import { TrackQualityBadge, TrackQualityReport } from '@/components/TrackQualityReport';
+
+interface TrackEditorProps {
+  trackedObjects: TrackedObject[];
+  trackQuality?: Map<string, TrackQuality>;
+  selectedTrackId: string | null;
+  currentFrame: number;
+  onSelectTrack: (trackId: string) => void;
+  onMerge: (keepId: string, mergeId: string) => void;
+  onSplit: (trackId: string, fromFrame: number) => void;
+  onReassign: (frameNumber: number, fromId: string, toId: string) => void;
+}
+
+/**
+ * Fix ByteTrack ID switches by hand: merge tracks, split a track at the current
+ * frame, or move a single box to another track
+ */
+export function TrackEditor({
+  trackedObjects,
+  trackQuality,
+  selectedTrackId,
+  currentFrame,
+  onSelectTrack,
+  onMerge,
+  onSplit,
+  onReassign
+}: TrackEditorProps) {
+  const [mergeId, setMergeId] = useState('');
+  const [reassignFromId, setReassignFromId] = useState('');
+  const [reassignToId, setReassignToId] = useState('');
+
+  const otherTracks = trackedObjects.filter(track => track.id !== selectedTrackId);
+  const tracksAtFrame = trackedObjects.filter(track => track.positions.has(currentFrame));
+
+  // Drop choices that no longer exist after an edit or seek
+  useEffect(() => {
+    const exists = (id: string) => trackedObjects.some(track => track.id === id);
+    if (mergeId && (!exists(mergeId) || mergeId === selectedTrackId)) setMergeId('');
+    if (reassignFromId && !trackedObjects.some(track => track.id === reassignFromId && track.positions.has(currentFrame))) {
+      setReassignFromId('');
+    }
+    if (reassignToId && !exists(reassignToId)) setReassignToId('');
+  }, [trackedObjects, selectedTrackId, currentFrame, mergeId, reassignFromId, reassignToId]);
+
+  return (
+    <div className="w-full">
+      <h3 className="text-lg font-semibold text-white mb-4">Edit Tracks</h3>
+
+      {/* Track List */}
+      <div className="space-y-2 max-h-40 overflow-y-auto mb-4">
+        {trackedObjects.map(track => {
+          const isSelected = track.id === selectedTrackId;
+          return (
+            <button
+              key={track.id}
+              onClick={() => onSelectTrack(track.id)}
+              className={`w-full text-left p-2 rounded text-sm ${
+                isSelected
+                  ? 'bg-blue-500/20 border border-blue-500 text-blue-200'
+                  : 'bg-white/5 text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Track {track.id} • {track.label}</span>
+                <span className="flex items-center space-x-2">
+                  {track.positions.has(currentFrame) && (
+                    <span className="text-xs text-green-400">in frame</span>
+                  )}
+                  <TrackQualityBadge quality={trackQuality?.get(track.id)} />
+                </span>
+              </div>
+              <div className="text-xs text-gray-400">
+                Frames {track.firstFrame}–{track.lastFrame}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Quality of the selected track */}
+      {selectedTrackId && trackQuality?.get(selectedTrackId) && (
+        <div className="mb-4">
+          <TrackQualityReport quality={trackQuality.get(selectedTrackId)!} />
+        </div>
+      )}
+
+      {/* Merge */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-200 mb-2">
+          Merge into {selectedTrackId ? `track ${selectedTrackId}` : 'the selected track'}
+        </label>
+        <div className="flex space-x-2">
+          <select
+            value={mergeId}
+            onChange={(e) => setMergeId(e.target.value)}
+            disabled={!selectedTrackId}
+            className="flex-1 px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+          >
+            <option value="">Choose a track…</option>
+            {otherTracks.map(track => (
+              <option key={track.id} value={track.id}>
+                Track {track.id} ({track.firstFrame}–{track.lastFrame})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              onMerge(selectedTrackId!, mergeId);
+              setMergeId('');
+            }}
+            disabled={!selectedTrackId || !mergeId}
+            className="px-4 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600
+                       disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+
+      {/* Split */}
+      <div className="mb-4">
+        <button
+          onClick={() => onSplit(selectedTrackId!, currentFrame)}
+          disabled={!selectedTrackId}
+          className="w-full px-4 py-2 bg-white/10 text-white text-sm rounded-md hover:bg-white/20
+                     disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Split {selectedTrackId ? `track ${selectedTrackId}` : 'selected track'} at frame {currentFrame}
+        </button>
+        <div className="text-xs text-gray-400 mt-1">
+          Boxes from this frame on get a new track ID
+        </div>
+      </div>
+
+      {/* Reassign */}
+      <div>
+        <label className="block text-sm font-medium text-gray-200 mb-2">
+          Reassign box at frame {currentFrame}
+        </label>
+        <div className="flex space-x-2">
+          <select
+            value={reassignFromId}
+            onChange={(e) => setReassignFromId(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+          >
+            <option value="">Box…</option>
+            {tracksAtFrame.map(track => (
+              <option key={track.id} value={track.id}>Track {track.id}</option>
+            ))}
+          </select>
+          <select
+            value={reassignToId}
+            onChange={(e) => setReassignToId(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-600 rounded-md bg-gray-700 text-gray-100 text-sm"
+          >
+            <option value="">To track…</option>
+            {trackedObjects.filter(track => track.id !== reassignFromId).map(track => (
+              <option key={track.id} value={track.id}>Track {track.id}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              onReassign(currentFrame, reassignFromId, reassignToId);
+              setReassignFromId('');
+              setReassignToId('');
+            }}
+            disabled={!reassignFromId || !reassignToId}
+            className="px-4 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600
+                       disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+        <div className="text-xs text-gray-400 mt-1">
+          If the target track already has a box in this frame, the two swap IDs
+        </div>
+      </div>
+    </div>
+  );
+}
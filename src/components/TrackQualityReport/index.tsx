@@ -0,0 +1,80 @@
+'use client';
+
+import { TrackQuality, TrackRating } from '@/lib/detection/track-quality';
+
+const RATING_STYLES: Record<TrackRating, string> = {
+  good: 'bg-green-500/20 text-green-300',
+  fair: 'bg-yellow-500/20 text-yellow-300',
+  poor: 'bg-red-500/20 text-red-300'
+};
+
+const SWITCH_REASONS = {
+  reidentified: 'matched again by appearance',
+  jump: 'box jumped',
+  resize: 'box size changed abruptly'
+};
+
+export function TrackQualityBadge({ quality }: { quality?: TrackQuality }) {
+  if (!quality) return null;
+
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${RATING_STYLES[quality.rating]}`}>
+      {quality.rating}
+    </span>
+  );
+}
+
+/**
+ * Diagnostics for one track: how much was really detected, gaps, confidence,
+ * jitter and where the ID may have switched to someone else
+ */
+export function TrackQualityReport({ quality }: { quality: TrackQuality }) {
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+  return (
+    <div className="p-3 rounded bg-white/5 text-xs text-gray-300 space-y-1">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-semibold text-white">Track {quality.trackId} quality</span>
+        <TrackQualityBadge quality={quality} />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <span>Detected frames</span>
+        <span className="text-right">{quality.detectedFrames} ({percent(quality.detectionRatio)})</span>
+        <span>Interpolated frames</span>
+        <span className="text-right">{quality.interpolatedFrames}</span>
+        <span>Keyframe coverage</span>
+        <span className="text-right">{percent(quality.keyframeCoverage)}</span>
+        <span>Longest lost gap</span>
+        <span className="text-right">{quality.longestGap} frames</span>
+        <span>Average confidence</span>
+        <span className="text-right">{percent(quality.averageConfidence)}</span>
+        <span>Box size jitter</span>
+        <span className="text-right">{percent(quality.sizeJitter)}</span>
+        <span>Position uncertainty</span>
+        <span className="text-right">{percent(quality.meanUncertainty)}</span>
+        <span>Smoothing residual</span>
+        <span className="text-right">{percent(quality.smoothingResidual)}</span>
+        {quality.peakSmoothingResidual && (
+          <>
+            <span>Largest correction</span>
+            <span className="text-right">
+              {percent(quality.peakSmoothingResidual.value)} at frame {quality.peakSmoothingResidual.frameNumber}
+            </span>
+          </>
+        )}
+      </div>
+      {quality.suspectedIdSwitches.length > 0 && (
+        <div className="pt-2">
+          <div className="font-medium text-red-300">Suspected ID switches</div>
+          <ul className="list-disc list-inside text-gray-400">
+            {quality.suspectedIdSwitches.map(idSwitch => (
+              <li key={`${idSwitch.frameNumber}-${idSwitch.reason}`}>
+                Frame {idSwitch.frameNumber}: {SWITCH_REASONS[idSwitch.reason]}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
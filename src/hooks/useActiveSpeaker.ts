@@ -0,0 +1,41 @@
+import { useState, useCallback, useRef } from 'react';
+import { analyzeAudio } from '@/lib/audio/audio-analysis';
+import { detectActiveSpeakers } from '@/lib/reframing/active-speaker';
+import { AudioActivity, Detection, Shot, SpeakerSegment, VideoMetadata } from '@/types';
+
+export function useActiveSpeaker(videoFile: File | null, metadata: VideoMetadata | null) {
+  const [isAnalyzingAudio, setIsAnalyzingAudio] = useState(false);
+  // Decoded audio of the current file; null activity when it has no audio track
+  const audioRef = useRef<{ file: File; activity: AudioActivity | null } | null>(null);
+
+  /**
+   * Decide who is talking on every frame. The audio track is decoded once per file.
+   * Empty when there is no audio or fewer than two people to choose from.
+   */
+  const findSpeakers = useCallback(async (detections: Detection[], shots: Shot[] = []): Promise<SpeakerSegment[]> => {
+    if (!videoFile || !metadata) return [];
+
+    if (audioRef.current?.file !== videoFile) {
+      setIsAnalyzingAudio(true);
+      try {
+        audioRef.current = { file: videoFile, activity: await analyzeAudio(videoFile, metadata.fps) };
+      } finally {
+        setIsAnalyzingAudio(false);
+      }
+    }
+
+    const audio = audioRef.current.activity;
+    const people = new Set(detections.flatMap(d => d.boxes.filter(box => box.class === 'person').map(box => box.trackId)));
+    return audio && people.size >= 2 ? detectActiveSpeakers(detections, audio, metadata.width, shots) : [];
+  }, [videoFile, metadata]);
+
+  const reset = useCallback(() => {
+    audioRef.current = null;
+  }, []);
+
+  return {
+    isAnalyzingAudio,
+    findSpeakers,
+    reset
+  };
+}
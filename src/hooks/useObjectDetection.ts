@@ -1,59 +1,144 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { PersonYOLODetector } from '@/lib/detection/person-yolo';
-import { ByteTrackInterpolator } from '@/lib/detection/bytetrack-interpolator';
-import { HeadDetector } from '@/lib/detection/head-detector';
-import { Detection, BoundingBox, TrackedObject } from '@/types';
-
-// Helper function to calculate IoU between two bounding boxes
-function calculateIoU(box1: BoundingBox, box2: BoundingBox): number {
-  const x1 = Math.max(box1.x, box2.x);
-  const y1 = Math.max(box1.y, box2.y);
-  const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
-  const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { DEFAULT_DETECTION_SETTINGS } from '@/lib/detection/detector-registry';
+import { estimateHeadCenter } from '@/lib/detection/pose-utils';
+import { boxIoU } from '@/lib/detection/bytetrack-proper/matching';
+import { DetectionEngine, DetectionPipeline, PipelineSettings, fillTargetHeadCenters } from '@/lib/detection/pipeline';
+import { DetectionWorkerClient } from '@/lib/detection/detection-worker-client';
+import { AnalysisCache, CachedAnalysis, computeVideoFingerprint, getAnalysisCacheKey } from '@/lib/detection/analysis-cache';
+import * as trackEditing from '@/lib/detection/track-editing';
+import { computeTrackQuality, TrackQuality } from '@/lib/detection/track-quality';
+import { KeyframeDetections, retrackKeyframes } from '@/lib/detection/retracker';
+import { buildImportedDetections, parseAnnotations } from '@/lib/detection/annotation-import';
+import { sameMasks } from '@/lib/detection/detection-masks';
+import { DEFAULT_SLICING_SETTINGS } from '@/lib/detection/sliced-detector';
+import { DEFAULT_TRACKER_SETTINGS } from '@/lib/detection/tracker-presets';
+import { Detection, BoundingBox, TrackedObject, DetectionMask, DetectionSettings, SaliencyRegion, Shot, TrackerSettings } from '@/types';
+
+export interface TrackEditResult {
+  detections: Detection[];
+  selectedTrack: TrackedObject | null; // For re-running the reframing on the edited track
+}
+
+// The track that best overlaps the box picked in the head selector
+function findTargetTrack(tracks: TrackedObject[], targetDetection: Detection): TrackedObject | null {
+  const targetBox = targetDetection.boxes[0];
+  if (!targetBox) return null;
+  
+  let bestTrack: TrackedObject | null = null;
+  let bestScore = 0;
   
-  if (x2 < x1 || y2 < y1) return 0;
+  tracks.forEach(track => {
+    // Get the track's position at the target frame
+    const trackBox = track.positions.get(targetDetection.frameNumber);
+    if (trackBox) {
+      // Calculate IoU between target and track box
+      const iou = boxIoU(targetBox, trackBox);
+      if (iou > bestScore) {
+        bestScore = iou;
+        bestTrack = track;
+      }
+    }
+  });
   
-  const intersection = (x2 - x1) * (y2 - y1);
-  const area1 = box1.width * box1.height;
-  const area2 = box2.width * box2.height;
-  const union = area1 + area2 - intersection;
+  return bestScore > 0.5 ? bestTrack : null;
+}
+
+// The new track that overlaps a previous track the most over its lifetime, after re-tracking
+function findOverlappingTrack(tracks: TrackedObject[], previous: TrackedObject): TrackedObject | null {
+  let bestTrack: TrackedObject | null = null;
+  let bestScore = 0;
+  
+  tracks.forEach(track => {
+    let score = 0;
+    previous.positions.forEach((box, frameNumber) => {
+      const trackBox = track.positions.get(frameNumber);
+      if (trackBox) {
+        score += boxIoU(box, trackBox);
+      }
+    });
+    if (score > bestScore) {
+      bestScore = score;
+      bestTrack = track;
+    }
+  });
+  
+  return bestTrack;
+}
+
+function sameTrackerSettings(a: TrackerSettings, b: TrackerSettings): boolean {
+  return (Object.keys(a) as (keyof TrackerSettings)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * Run detection in a worker when the browser supports it, otherwise in this thread.
+ * Falls back to this thread if the worker can't load the models.
+ */
+async function createDetectionEngine(settings: PipelineSettings): Promise<DetectionEngine> {
+  if (DetectionWorkerClient.isSupported()) {
+    const client = new DetectionWorkerClient();
+    try {
+      await client.initialize(settings);
+      return client;
+    } catch (error) {
+      // console.warn('Detection worker unavailable, running on the main thread:', error);
+      client.dispose();
+    }
+  }
   
-  return union > 0 ? intersection / union : 0;
+  const pipeline = new DetectionPipeline();
+  await pipeline.initialize(settings);
+  return pipeline;
 }
 
-export function useObjectDetection() {
+export function useObjectDetection(
+  settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS,
+  trackerSettings: TrackerSettings = DEFAULT_TRACKER_SETTINGS
+) {
+  const { detectorId, classSetId, faceLandmarks, headDetection = false, slicing = DEFAULT_SLICING_SETTINGS } = settings;
   const [isModelLoaded, setIsModelLoaded] = useState(false);
   const [detections, setDetections] = useState<Detection[]>([]);
   const [trackedObjects, setTrackedObjects] = useState<TrackedObject[]>([]);
   const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [targetDetection, setTargetDetection] = useState<Detection | null>(null);
+  const [keyframes, setKeyframes] = useState<number[]>([]);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [saliency, setSaliency] = useState<SaliencyRegion[]>([]);
+  // Tracker settings the current detections were tracked with
+  const [analysisTrackerSettings, setAnalysisTrackerSettings] = useState<TrackerSettings | null>(null);
+  const [masks, setMasks] = useState<DetectionMask[]>([]);
   // Always use ByteTrack for consistency
   const useByteTrack = true;
-  const [useHeadDetection, setUseHeadDetection] = useState(false); // Disable head detection - model not reliable
   const [headOffsetRatio, setHeadOffsetRatio] = useState<{ x: number; y: number } | null>(null); // Relative head position
   
-  const detectorRef = useRef<PersonYOLODetector | null>(null);
-  const byteTrackerRef = useRef<ByteTrackInterpolator | null>(null);
-  const headDetectorRef = useRef<HeadDetector | null>(null);
+  // Detection, tracking and head refinement run behind this engine, in a worker where possible
+  const engineRef = useRef<DetectionEngine | null>(null);
+  const analysisCacheRef = useRef<AnalysisCache | null>(null);
+  const confidenceThresholdRef = useRef(0.3); // Part of the cache key
+  // Raw keyframe detections of the last analysis, for re-tracking without inference
+  const keyframeDetectionsRef = useRef<KeyframeDetections[]>([]);
+  const videoInfoRef = useRef<{ totalFrames: number; fps: number } | null>(null);
+  // Settings the effects below apply to a loaded model; read when a new model is created
+  const modelSettingsRef = useRef({ classSetId, faceLandmarks, slicing });
+
+  useEffect(() => {
+    modelSettingsRef.current = { classSetId, faceLandmarks, slicing };
+  }, [classSetId, faceLandmarks, slicing]);
 
   // Initialize detector
   useEffect(() => {
+    let cancelled = false;
+    let engine: DetectionEngine | null = null;
+    
     const initDetector = async () => {
+      setIsModelLoaded(false);
       try {
-        detectorRef.current = new PersonYOLODetector();
-        await detectorRef.current.initialize();
-        
-        // Set initial confidence threshold to match UI default (30%)
-        detectorRef.current.setConfidenceThreshold(0.3);
-        
-        // Initialize head detector if head detection is enabled
-        if (useHeadDetection) {
-          headDetectorRef.current = new HeadDetector();
-          await headDetectorRef.current.initialize();
-          // console.log('Head detector initialized');
+        engine = await createDetectionEngine({ detectorId, ...modelSettingsRef.current, headDetection });
+        if (cancelled) {
+          engine.dispose();
+          return;
         }
-        
+        engineRef.current = engine;
         setIsModelLoaded(true);
       } catch (error) {
         // console.error('Failed to initialize detectors:', error);
@@ -64,71 +149,113 @@ export function useObjectDetection() {
     initDetector();
 
     return () => {
-      if (detectorRef.current) {
-        detectorRef.current.dispose();
-      }
-      if (headDetectorRef.current) {
-        headDetectorRef.current.dispose();
+      cancelled = true;
+      if (engine) {
+        engine.dispose();
+        if (engineRef.current === engine) {
+          engineRef.current = null;
+        }
       }
     };
-  }, [useHeadDetection]);
+  }, [headDetection, detectorId]);
 
-  // Initialize ByteTracker will be done when confidence threshold is set
+  // Apply the project's class set to the loaded detector
+  useEffect(() => {
+    if (engineRef.current && isModelLoaded) {
+      engineRef.current.setClassSet(classSetId).catch(() => {
+        // console.warn('Failed to apply class set:', error);
+      });
+    }
+  }, [classSetId, isModelLoaded]);
 
-  const detectFrame = useCallback(async (
-    imageData: ImageData | HTMLVideoElement | HTMLCanvasElement,
-    frameNumber: number,
-    timestamp: number,
-    targetTrackId?: string | null
-  ): Promise<Detection> => {
-    if (!detectorRef.current || !isModelLoaded) {
-      throw new Error('Model not loaded');
+  // Face + landmark detector for talking-head framing, loaded only when enabled
+  useEffect(() => {
+    if (engineRef.current && isModelLoaded) {
+      engineRef.current.setFaceLandmarks(faceLandmarks).catch(() => {
+        // console.warn('Face detector unavailable, using head estimates:', error);
+      });
     }
+  }, [faceLandmarks, isModelLoaded]);
 
-    // Detect objects
-    const boxes = await detectorRef.current.detect(imageData, frameNumber);
-    
-    // Always use ByteTrack for consistency
-    if (!byteTrackerRef.current) {
-      // console.warn('ByteTracker not initialized, using default params');
-      byteTrackerRef.current = new ByteTrackInterpolator({
-        trackThresh: 0.3,
-        trackBuffer: 30,
-        matchThresh: 0.8,
-        minBoxArea: 100,
-        lowThresh: 0.1
+  // Tiled inference for small subjects; the model stays loaded
+  useEffect(() => {
+    if (engineRef.current && isModelLoaded) {
+      engineRef.current.setSlicing(slicing).catch(() => {
+        // console.warn('Failed to apply slicing:', error);
       });
     }
+  }, [slicing, isModelLoaded]);
+
+  const getAnalysisCache = useCallback((): AnalysisCache | null => {
+    if (!analysisCacheRef.current && AnalysisCache.isSupported()) {
+      analysisCacheRef.current = new AnalysisCache();
+    }
+    return analysisCacheRef.current;
+  }, []);
+
+  // Cache entries are keyed by file content plus everything that changes the detections
+  const getCacheKey = useCallback(async (videoFile: File): Promise<string> => {
+    return getAnalysisCacheKey({
+      fingerprint: await computeVideoFingerprint(videoFile),
+      detectorId,
+      classSetId,
+      faceLandmarks,
+      headDetection,
+      slicing,
+      confidenceThreshold: confidenceThresholdRef.current
+    });
+  }, [detectorId, classSetId, faceLandmarks, headDetection, slicing]);
+
+  const saveAnalysis = useCallback(async (videoFile: File, analysis: Omit<CachedAnalysis, 'key'>) => {
+    const cache = getAnalysisCache();
+    if (!cache) return;
     
-    if (frameNumber === 213) {
-      // console.log(`Frame 213: Before ByteTracker - ${boxes.length} boxes from YOLO`);
-      boxes.forEach((box, i) => {
-        // console.log(`  YOLO box ${i}: confidence=${box.confidence}, class=${box.class}`);
-      });
+    try {
+      await cache.put({ ...analysis, key: await getCacheKey(videoFile) });
+    } catch (error) {
+      // console.warn('Failed to cache analysis:', error);
     }
+  }, [getAnalysisCache, getCacheKey]);
+
+  const selectTargetTrack = useCallback((tracks: TrackedObject[]) => {
+    if (!targetDetection) return;
     
-    const detection = byteTrackerRef.current.processFrame(boxes, frameNumber, timestamp);
+    const track = findTargetTrack(tracks, targetDetection);
+    if (track) {
+      setSelectedTrackId(track.id);
+      track.selected = true;
+    }
+  }, [targetDetection]);
 
-    // Don't run head detection here - it will be done selectively in processVideo
+  const detectFrame = useCallback(async (
+    imageData: ImageData | HTMLVideoElement | HTMLCanvasElement,
+    frameNumber: number,
+    timestamp: number,
+    targetTrackId?: string | null
+  ): Promise<Detection> => {
+    if (!engineRef.current || !isModelLoaded) {
+      throw new Error('Model not loaded');
+    }
 
-    return detection;
+    // Don't run head detection here - it is done selectively in processVideo
+    return engineRef.current.detectFrame(imageData, frameNumber, timestamp);
   }, [isModelLoaded]);
 
   const processVideo = useCallback(async (
     processFrames: (onFrame: (imageData: ImageData, frameNumber: number, timestamp: number) => Promise<void>) => Promise<void>,
-    metadata: { fps: number; duration: number }
+    metadata: { fps: number; duration: number },
+    videoFile?: File // Enables saving the analysis to the cache
   ) => {
-    if (!isModelLoaded) {
+    const engine = engineRef.current;
+    if (!engine || !isModelLoaded) {
       throw new Error('Model not loaded');
     }
 
     setIsProcessing(true);
     setDetections([]);
-    if (byteTrackerRef.current) {
-      byteTrackerRef.current.reset();
-    } else {
-      // console.warn('ByteTracker not initialized before processVideo');
-    }
+    setKeyframes([]);
+    setShots([]);
+    setSaliency([]);
 
     // Extract target track ID and head center if using ByteTrack
     let targetTrackId: string | null = null;
@@ -141,267 +268,205 @@ export function useObjectDetection() {
     }
 
     const totalFrames = Math.floor(metadata.fps * metadata.duration);
-    // When using ByteTracker, we should only call it on frames where we actually run detection
-    // to avoid breaking temporal consistency
-    const sampleInterval = 5; // Detect every 5 frames
-    let processedFrames = 0;
-    let detectionFrameCount = 0; // Count only frames where detection runs
 
     try {
+      // The engine picks keyframes from motion and tracker state, splits shots at hard cuts
+      // and only runs ByteTrack on keyframes to keep temporal consistency
+      await engine.beginVideo({ totalFrames, fps: metadata.fps, targetTrackId, tracker: trackerSettings, masks });
+      
       await processFrames(async (imageData, frameNumber, timestamp) => {
-        processedFrames++;
-        
-        // Detect on first frame, last frame, and sample frames
-        const isFirstFrame = frameNumber === 0;
-        const isLastFrame = frameNumber === totalFrames - 1;
-        const isSampleFrame = frameNumber % sampleInterval === 0;
+        const result = await engine.processFrame(imageData, frameNumber, timestamp);
         
-        if (isFirstFrame || isLastFrame || isSampleFrame) {
-          if (frameNumber === 213) {
-            // console.log(`Frame 213: This is a sample frame, running detection`);
-          }
-          const detection = await detectFrame(imageData, frameNumber, timestamp, targetTrackId);
-          
-          // Run head detection only on key frames: first, last, and every 5 frames
-          if (useHeadDetection && headDetectorRef.current && detection.boxes.length > 0 && 
-              (isFirstFrame || isLastFrame || frameNumber % 5 === 0)) {
-            // console.log(`Running head detection for frame ${frameNumber} with ${detection.boxes.length} persons`);
-            
-            for (const box of detection.boxes) {
-              try {
-                const headResult = await headDetectorRef.current.detectHeadInBox(
-                  imageData,
-                  box,
-                  0.05 // 5% padding
-                );
-                
-                if (headResult) {
-                  box.headCenterX = headResult.x + headResult.width / 2;
-                  box.headCenterY = headResult.y + headResult.height / 2;
-                  // console.log(`Frame ${frameNumber}: Head detected for track ${box.trackId} at (${box.headCenterX}, ${box.headCenterY})`);
-                } else {
-                  // Smart head position estimation based on aspect ratio and pose
-                  const aspectRatio = box.width / box.height;
-                  if (aspectRatio > 1.5) {
-                    // Wide box - person likely horizontal (like figure skating)
-                    // For figure skating, head is usually at one of the ends
-                    // We'll check which end based on the frame context
-                    // For now, assume head is at the higher end (top of image)
-                    if (box.y < box.y + box.height / 2) {
-                      // Top part of box is higher, head likely on left
-                      box.headCenterX = box.x + box.width * 0.15;
-                      box.headCenterY = box.y + box.height * 0.5;
-                    } else {
-                      // Head likely on right
-                      box.headCenterX = box.x + box.width * 0.85;
-                      box.headCenterY = box.y + box.height * 0.5;
-                    }
-                  } else if (aspectRatio < 0.5) {
-                    // Very tall box - person standing upright
-                    box.headCenterX = box.x + box.width / 2;
-                    box.headCenterY = box.y + box.height * 0.15;
-                  } else {
-                    // Normal standing pose
-                    box.headCenterX = box.x + box.width / 2;
-                    box.headCenterY = box.y + box.height * 0.25;
-                  }
-                  // console.log(`Frame ${frameNumber}: Head estimated (no detection) for track ${box.trackId} at (${box.headCenterX}, ${box.headCenterY}), aspect ratio: ${aspectRatio.toFixed(2)})`);
-                }
-              } catch (error) {
-                // console.error(`Head detection failed for frame ${frameNumber}, track ${box.trackId}:`, error);
-                // Fallback to estimation
-                const aspectRatio = box.width / box.height;
-                if (aspectRatio > 1.5) {
-                  // Wide box - horizontal pose
-                  box.headCenterX = box.x + box.width * 0.15;
-                  box.headCenterY = box.y + box.height * 0.5;
-                } else if (aspectRatio < 0.5) {
-                  // Very tall box - upright
-                  box.headCenterX = box.x + box.width / 2;
-                  box.headCenterY = box.y + box.height * 0.15;
-                } else {
-                  box.headCenterX = box.x + box.width / 2;
-                  box.headCenterY = box.y + box.height * 0.25;
-                }
-              }
-            }
-          }
-          
-          // ByteTrack handles its own interpolation
-        } else {
-          // For non-sample frames, don't call ByteTracker
-          // This maintains temporal consistency by only updating on frames with actual detections
-          
-          // Update UI periodically
-          if (frameNumber % 10 === 0 || isLastFrame) {
-            let currentDetections: Detection[];
-            
-            // Get all detections with interpolation from ByteTrackInterpolator
-            currentDetections = byteTrackerRef.current!.getAllDetections(processedFrames, metadata.fps);
-            // Head centers are already set by detectFrame for key frames
-            
-            setDetections(currentDetections);
-            
-            // Extract tracked objects from detections
-            const trackMap = new Map<string, TrackedObject>();
-            
-            currentDetections.forEach((detection) => {
-              detection.boxes.forEach((box) => {
-                if (box.trackId) {
-                  if (!trackMap.has(box.trackId)) {
-                    trackMap.set(box.trackId, {
-                      id: box.trackId,
-                      firstFrame: detection.frameNumber,
-                      lastFrame: detection.frameNumber,
-                      positions: new Map(),
-                      label: box.class,
-                      selected: false
-                    });
-                  }
-                  
-                  const track = trackMap.get(box.trackId)!;
-                  track.lastFrame = detection.frameNumber;
-                  track.positions.set(detection.frameNumber, box);
-                }
-              });
-            });
-            
-            setTrackedObjects(Array.from(trackMap.values()));
-          }
+        // Update UI periodically between keyframes
+        if (!result.isKeyframe && (frameNumber % 10 === 0 || frameNumber === totalFrames - 1)) {
+          const currentDetections = await engine.getDetectionsSoFar();
+          setDetections(currentDetections);
+          setTrackedObjects(trackEditing.buildTrackedObjects(currentDetections));
         }
       });
 
-      // Final interpolation for all frames
-      let allDetections: Detection[];
-      
-      // Get all detections with interpolation from ByteTrackInterpolator
-      allDetections = byteTrackerRef.current!.getAllDetections(totalFrames, metadata.fps);
-      // Head centers are already set by detectFrame for key frames
-      // For interpolated frames, we need to interpolate head positions
-      
-      if (targetTrackId) {
-          // console.log(`Processing ${allDetections.length} detections for head center interpolation`);
-          
-          // Create a map of head positions for key frames
-          const headPositions = new Map<number, { x: number; y: number; relX: number; relY: number }>();
-          
-          allDetections.forEach(det => {
-            det.boxes.forEach(box => {
-              if (box.trackId === targetTrackId && box.headCenterX !== undefined && box.headCenterY !== undefined) {
-                // Store both absolute and relative positions
-                headPositions.set(det.frameNumber, {
-                  x: box.headCenterX,
-                  y: box.headCenterY,
-                  relX: (box.headCenterX - box.x) / box.width,
-                  relY: (box.headCenterY - box.y) / box.height
-                });
-              }
-            });
-          });
-          
-          // Interpolate head positions for frames without head detection
-          allDetections.forEach(det => {
-            det.boxes.forEach(box => {
-              if (box.trackId === targetTrackId && (box.headCenterX === undefined || box.headCenterY === undefined)) {
-                // Find nearest key frames with head positions
-                const frameNum = det.frameNumber;
-                let prevFrame = -1;
-                let nextFrame = -1;
-                
-                for (const [frame, _] of headPositions) {
-                  if (frame < frameNum && frame > prevFrame) prevFrame = frame;
-                  if (frame > frameNum && (nextFrame === -1 || frame < nextFrame)) nextFrame = frame;
-                }
-                
-                if (prevFrame !== -1 && headPositions.has(prevFrame)) {
-                  // Use relative position from previous frame
-                  const prevPos = headPositions.get(prevFrame)!;
-                  box.headCenterX = box.x + box.width * prevPos.relX;
-                  box.headCenterY = box.y + box.height * prevPos.relY;
-                } else {
-                  // Fallback to smart estimation
-                  const aspectRatio = box.width / box.height;
-                  if (aspectRatio > 1.5) {
-                    // Horizontal pose - head at left end for figure skating
-                    box.headCenterX = box.x + box.width * 0.15;
-                    box.headCenterY = box.y + box.height * 0.5;
-                  } else if (aspectRatio < 0.5) {
-                    // Very tall - standing upright
-                    box.headCenterX = box.x + box.width * 0.5;
-                    box.headCenterY = box.y + box.height * 0.15;
-                  } else {
-                    box.headCenterX = box.x + box.width * 0.5;
-                    box.headCenterY = box.y + box.height * 0.25;
-                  }
-                }
-              }
-            });
-        });
-      }
+      // Final interpolation for all frames, with head centers filled in for the target track
+      const {
+        detections: allDetections,
+        keyframes: detectedKeyframes,
+        shots: detectedShots,
+        keyframeDetections,
+        saliency: detectedSaliency
+      } = await engine.finishVideo();
       
+      keyframeDetectionsRef.current = keyframeDetections;
+      videoInfoRef.current = { totalFrames, fps: metadata.fps };
       setDetections(allDetections);
+      setKeyframes(detectedKeyframes);
+      setShots(detectedShots);
+      setSaliency(detectedSaliency);
+      setAnalysisTrackerSettings(trackerSettings);
       
-      // Extract tracked objects from detections
-      const finalTrackMap = new Map<string, TrackedObject>();
-      
-      allDetections.forEach((detection) => {
-        detection.boxes.forEach((box) => {
-          if (box.trackId) {
-            if (!finalTrackMap.has(box.trackId)) {
-              finalTrackMap.set(box.trackId, {
-                id: box.trackId,
-                firstFrame: detection.frameNumber,
-                lastFrame: detection.frameNumber,
-                positions: new Map(),
-                label: box.class,
-                selected: false
-              });
-            }
-            
-            const track = finalTrackMap.get(box.trackId)!;
-            track.lastFrame = detection.frameNumber;
-            track.positions.set(detection.frameNumber, box);
-          }
-        });
-      });
-      
-      setTrackedObjects(Array.from(finalTrackMap.values()));
+      const finalTracks = trackEditing.buildTrackedObjects(allDetections);
+      setTrackedObjects(finalTracks);
       
       // Auto-select the target track if available
-      if (targetDetection) {
-        // Find the track that best matches the target detection
-        const targetBox = targetDetection.boxes[0];
-        if (targetBox) {
-          let bestTrack: TrackedObject | null = null;
-          let bestScore = 0;
-          
-          const tracks = Array.from(finalTrackMap.values());
-          tracks.forEach(track => {
-            // Get the track's position at the target frame
-            const trackBox = track.positions.get(targetDetection.frameNumber);
-            if (trackBox) {
-              // Calculate IoU between target and track box
-              const iou = calculateIoU(targetBox, trackBox);
-              if (iou > bestScore) {
-                bestScore = iou;
-                bestTrack = track;
-              }
-            }
-          });
-          
-          if (bestTrack && bestScore > 0.5) {
-            const track = bestTrack as TrackedObject;
-            setSelectedTrackId(track.id);
-            track.selected = true;
-          }
-        }
+      selectTargetTrack(finalTracks);
+      
+      if (videoFile) {
+        saveAnalysis(videoFile, {
+          createdAt: Date.now(),
+          detections: allDetections,
+          trackedObjects: finalTracks,
+          keyframes: detectedKeyframes,
+          shots: detectedShots,
+          targetTrackId,
+          keyframeDetections,
+          saliency: detectedSaliency,
+          trackerSettings,
+          masks,
+          totalFrames,
+          fps: metadata.fps
+        });
       }
       
       return allDetections;
     } finally {
       setIsProcessing(false);
     }
-  }, [isModelLoaded, detectFrame, targetDetection, useHeadDetection, useByteTrack]);
+  }, [isModelLoaded, targetDetection, useByteTrack, trackerSettings, masks, selectTargetTrack, saveAnalysis]);
+
+  /**
+   * Track the stored keyframe detections again with the given settings, without
+   * re-running the models. Keeps the head-selector target, or else the track that
+   * best overlaps the previously selected one.
+   */
+  const retrackDetections = useCallback((
+    keyframeDetections: KeyframeDetections[],
+    videoInfo: { totalFrames: number; fps: number },
+    settings: TrackerSettings,
+    previousTrack: TrackedObject | null,
+    trackingMasks: DetectionMask[]
+  ): TrackEditResult => {
+    const retracked = retrackKeyframes(keyframeDetections, settings, videoInfo.totalFrames, videoInfo.fps, trackingMasks);
+    
+    let tracks = trackEditing.buildTrackedObjects(retracked);
+    const target = (targetDetection ? findTargetTrack(tracks, targetDetection) : null)
+      ?? (previousTrack ? findOverlappingTrack(tracks, previousTrack) : null);
+    const nextSelectedId = target?.id ?? null;
+    
+    if (nextSelectedId) {
+      fillTargetHeadCenters(retracked, nextSelectedId);
+    }
+    tracks = trackEditing.buildTrackedObjects(retracked, nextSelectedId);
+    
+    setDetections(retracked);
+    setTrackedObjects(tracks);
+    setSelectedTrackId(nextSelectedId);
+    setAnalysisTrackerSettings(settings);
+    
+    return {
+      detections: retracked,
+      selectedTrack: tracks.find(track => track.id === nextSelectedId) ?? null
+    };
+  }, [targetDetection]);
+
+  /**
+   * Re-run ByteTrack on the last analysis with the current tracker settings.
+   * Manual track edits are lost.
+   */
+  const retrack = useCallback((): TrackEditResult | null => {
+    const videoInfo = videoInfoRef.current;
+    if (!videoInfo || keyframeDetectionsRef.current.length === 0) return null;
+    
+    const previousTrack = trackedObjects.find(track => track.id === selectedTrackId) ?? null;
+    return retrackDetections(keyframeDetectionsRef.current, videoInfo, trackerSettings, previousTrack, masks);
+  }, [trackedObjects, selectedTrackId, trackerSettings, masks, retrackDetections]);
+
+  /**
+   * Look up a stored analysis of this file made with the current detection settings
+   */
+  const findCachedAnalysis = useCallback(async (videoFile: File): Promise<CachedAnalysis | null> => {
+    const cache = getAnalysisCache();
+    if (!cache) return null;
+    
+    try {
+      return await cache.get(await getCacheKey(videoFile));
+    } catch (error) {
+      // console.warn('Analysis cache unavailable:', error);
+      return null;
+    }
+  }, [getAnalysisCache, getCacheKey]);
+
+  /**
+   * Use a cached analysis instead of re-detecting
+   */
+  const loadCachedAnalysis = useCallback((analysis: CachedAnalysis): Detection[] => {
+    keyframeDetectionsRef.current = analysis.keyframeDetections;
+    videoInfoRef.current = { totalFrames: analysis.totalFrames, fps: analysis.fps };
+    setKeyframes(analysis.keyframes);
+    setShots(analysis.shots);
+    setSaliency(analysis.saliency);
+    
+    // Detections don't depend on the tracker or masks, so other settings only need re-tracking
+    if (!sameTrackerSettings(analysis.trackerSettings, trackerSettings) || !sameMasks(analysis.masks, masks)) {
+      return retrackDetections(analysis.keyframeDetections, videoInfoRef.current, trackerSettings, null, masks).detections;
+    }
+    
+    const targetTrackId = targetDetection?.boxes[0]?.trackId ?? null;
+    let tracks = analysis.trackedObjects;
+    
+    // Head centers were only carried across frames for the target of the original run
+    if (targetTrackId && targetTrackId !== analysis.targetTrackId) {
+      fillTargetHeadCenters(analysis.detections, targetTrackId);
+      tracks = trackEditing.buildTrackedObjects(analysis.detections);
+    }
+    
+    setDetections(analysis.detections);
+    setTrackedObjects(tracks);
+    setAnalysisTrackerSettings(analysis.trackerSettings);
+    selectTargetTrack(tracks);
+    
+    return analysis.detections;
+  }, [targetDetection, trackerSettings, masks, selectTargetTrack, retrackDetections]);
+
+  /**
+   * Forget the stored analysis of this file, e.g. before a forced re-run
+   */
+  const clearCachedAnalysis = useCallback(async (videoFile: File) => {
+    const cache = getAnalysisCache();
+    if (!cache) return;
+    
+    try {
+      await cache.delete(await getCacheKey(videoFile));
+    } catch (error) {
+      // console.warn('Failed to clear cached analysis:', error);
+    }
+  }, [getAnalysisCache, getCacheKey]);
+
+  /**
+   * Use detections or tracks from a MOT or COCO file instead of running the models.
+   * Files without track IDs are tracked with the current tracker settings and can
+   * be re-tracked later; files with track IDs keep them.
+   */
+  const importDetections = useCallback(async (
+    file: File,
+    metadata: { fps: number; duration: number; width: number; height: number }
+  ): Promise<Detection[]> => {
+    const totalFrames = Math.floor(metadata.fps * metadata.duration);
+    const video = { width: metadata.width, height: metadata.height, fps: metadata.fps, totalFrames };
+    const imported = parseAnnotations(await file.text(), file.name, video);
+    const importedDetections = buildImportedDetections(imported, trackerSettings, video, masks);
+    
+    keyframeDetectionsRef.current = imported.tracked ? [] : imported.keyframes;
+    videoInfoRef.current = { totalFrames, fps: metadata.fps };
+    setDetections(importedDetections);
+    setKeyframes(imported.keyframes.map(keyframe => keyframe.frameNumber));
+    setShots([]);
+    setSaliency([]);
+    setAnalysisTrackerSettings(imported.tracked ? null : trackerSettings);
+    
+    const tracks = trackEditing.buildTrackedObjects(importedDetections);
+    setTrackedObjects(tracks);
+    selectTargetTrack(tracks);
+    
+    return importedDetections;
+  }, [trackerSettings, masks, selectTargetTrack]);
 
   const selectTrack = useCallback((trackId: string | null) => {
     setSelectedTrackId(trackId);
@@ -413,6 +478,13 @@ export function useObjectDetection() {
     })));
   }, []);
 
+  // Per-track diagnostics for picking a trustworthy target
+  const trackQuality = useMemo(() => {
+    const report = new Map<string, TrackQuality>();
+    computeTrackQuality(detections).forEach(quality => report.set(quality.trackId, quality));
+    return report;
+  }, [detections]);
+
   const getSelectedTrack = useCallback((): TrackedObject | null => {
     if (!selectedTrackId) return null;
     return trackedObjects.find(obj => obj.id === selectedTrackId) || null;
@@ -421,23 +493,12 @@ export function useObjectDetection() {
   const setConfidenceThreshold = useCallback((threshold: number) => {
     // console.log(`useObjectDetection: setConfidenceThreshold called with ${threshold}`);
     
-    if (detectorRef.current) {
-      detectorRef.current.setConfidenceThreshold(threshold);
-      // console.log(`PersonYOLODetector threshold set to ${threshold}`);
-    }
+    confidenceThresholdRef.current = threshold;
     
-    // Also update ByteTracker thresholds
-    if (byteTrackerRef.current) {
-      // Reinitialize ByteTracker with new thresholds
-      byteTrackerRef.current = new ByteTrackInterpolator({
-        trackThresh: threshold, // Use the same threshold as detector
-        trackBuffer: 30,
-        matchThresh: 0.8,
-        minBoxArea: 100,
-        lowThresh: Math.max(0.1, threshold * 0.5) // Low threshold is half of main threshold
-      });
-      // console.log(`ByteTracker reinitialized with trackThresh=${threshold}, lowThresh=${Math.max(0.1, threshold * 0.5)}`);
-    }
+    // Detector only; ByteTrack thresholds come from the tracker settings
+    engineRef.current?.setConfidenceThreshold(threshold).catch(() => {
+      // console.warn('Failed to update confidence threshold:', error);
+    });
   }, []);
 
   const setTargetHead = useCallback((detection: Detection) => {
@@ -453,25 +514,11 @@ export function useObjectDetection() {
         setHeadOffsetRatio({ x: relativeX, y: relativeY });
         // console.log(`Head offset ratio set: x=${relativeX}, y=${relativeY}`);
       } else {
-        // Smart default based on box aspect ratio
-        // For horizontal poses (like figure skating), head is typically on one side
-        const aspectRatio = box.width / box.height;
-        let defaultX = 0.5;
-        let defaultY = 0.25;
-        
-        if (aspectRatio > 1.5) {
-          // Wide box - person likely horizontal
-          // Head is usually at one end (we'll guess left for now)
-          defaultX = 0.2;
-          defaultY = 0.5;
-          // console.log('Detected horizontal pose, adjusting head position');
-        } else if (aspectRatio < 0.5) {
-          // Tall box - person likely standing
-          defaultY = 0.15; // Head higher for standing poses
-        }
-        
-        setHeadOffsetRatio({ x: defaultX, y: defaultY });
-        // console.log(`Using smart default head offset ratio: x=${defaultX}, y=${defaultY} (aspect ratio: ${aspectRatio.toFixed(2)})`);
+        // Estimate from keypoints, falling back to box shape
+        const head = estimateHeadCenter(box);
+        const relativeX = (head.x - box.x) / box.width;
+        const relativeY = (head.y - box.y) / box.height;
+        setHeadOffsetRatio({ x: relativeX, y: relativeY });
       }
     }
     // console.log('Target detection set for tracking');
@@ -488,31 +535,108 @@ export function useObjectDetection() {
     }
   }, []);
 
+  /**
+   * Replace the detections after a manual track edit and keep tracks and selection in step
+   */
+  const applyTrackEdit = useCallback((edited: Detection[], nextSelectedId: string | null): TrackEditResult => {
+    const tracks = trackEditing.buildTrackedObjects(edited, nextSelectedId);
+    setDetections(edited);
+    setTrackedObjects(tracks);
+    setSelectedTrackId(nextSelectedId);
+    return {
+      detections: edited,
+      selectedTrack: tracks.find(track => track.id === nextSelectedId) ?? null
+    };
+  }, []);
+
+  /**
+   * Merge mergeId into keepId, e.g. after ByteTrack lost and re-created a person
+   */
+  const mergeTracks = useCallback((keepId: string, mergeId: string): TrackEditResult => {
+    const nextSelectedId = selectedTrackId === mergeId ? keepId : selectedTrackId;
+    return applyTrackEdit(trackEditing.mergeTracks(detections, keepId, mergeId), nextSelectedId);
+  }, [detections, selectedTrackId, applyTrackEdit]);
+
+  /**
+   * Give a track a new ID from fromFrame on. The selection stays with the earlier part.
+   */
+  const splitTrack = useCallback((trackId: string, fromFrame: number): TrackEditResult & { newTrackId: string } => {
+    const newTrackId = trackEditing.createTrackId(detections);
+    const result = applyTrackEdit(trackEditing.splitTrack(detections, trackId, fromFrame, newTrackId), selectedTrackId);
+    return { ...result, newTrackId };
+  }, [detections, selectedTrackId, applyTrackEdit]);
+
+  /**
+   * Move one frame's box to another track, swapping if that track has a box there
+   */
+  const reassignBox = useCallback((frameNumber: number, fromId: string, toId: string): TrackEditResult => {
+    return applyTrackEdit(trackEditing.reassignBox(detections, frameNumber, fromId, toId), selectedTrackId);
+  }, [detections, selectedTrackId, applyTrackEdit]);
+
+  /**
+   * Replace the detection masks and re-track the current analysis with them.
+   * Null when there is no analysis to re-track yet (or only imported tracks,
+   * which were masked on import); the masks then apply to the next analysis.
+   */
+  const updateMasks = useCallback((nextMasks: DetectionMask[]): TrackEditResult | null => {
+    setMasks(nextMasks);
+    
+    const videoInfo = videoInfoRef.current;
+    if (!videoInfo || keyframeDetectionsRef.current.length === 0) return null;
+    
+    const previousTrack = trackedObjects.find(track => track.id === selectedTrackId) ?? null;
+    return retrackDetections(keyframeDetectionsRef.current, videoInfo, trackerSettings, previousTrack, nextMasks);
+  }, [trackedObjects, selectedTrackId, trackerSettings, retrackDetections]);
+
   const reset = useCallback(() => {
     setDetections([]);
     setTrackedObjects([]);
     setSelectedTrackId(null);
     setTargetDetection(null);
     setHeadOffsetRatio(null);
-    if (byteTrackerRef.current) {
-      byteTrackerRef.current.reset();
-    }
+    setKeyframes([]);
+    setShots([]);
+    setSaliency([]);
+    setAnalysisTrackerSettings(null);
+    setMasks([]);
+    keyframeDetectionsRef.current = [];
+    videoInfoRef.current = null;
+    engineRef.current?.reset().catch(() => {
+      // console.warn('Failed to reset tracker:', error);
+    });
   }, []);
 
   return {
+    detectorId,
+    classSetId,
     isModelLoaded,
     isProcessing,
     detections,
+    keyframes,
+    shots,
+    saliency,
     trackedObjects,
+    trackQuality,
     selectedTrackId,
     targetDetection,
     detectFrame,
     processVideo,
+    findCachedAnalysis,
+    loadCachedAnalysis,
+    clearCachedAnalysis,
+    importDetections,
     selectTrack,
     getSelectedTrack,
     setConfidenceThreshold,
     setTargetHead,
     selectByteTrackId,
+    mergeTracks,
+    splitTrack,
+    reassignBox,
+    retrack,
+    analysisTrackerSettings,
+    masks,
+    updateMasks,
     reset,
     useByteTrack: true,
     setUseByteTrack: () => {} // No-op since we always use ByteTrack
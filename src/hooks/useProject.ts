@@ -0,0 +1,56 @@
+import { useCallback, useRef } from 'react';
+import { computeVideoFingerprint } from '@/lib/detection/analysis-cache';
+import { ProjectStore, VideoProject } from '@/lib/detection/project-store';
+
+type ProjectChanges = Partial<Omit<VideoProject, 'fingerprint' | 'updatedAt'>>;
+
+const EMPTY_PROJECT: Omit<VideoProject, 'fingerprint' | 'updatedAt'> = {
+  masks: []
+};
+
+export function useProject() {
+  const storeRef = useRef<ProjectStore | null>(null);
+
+  const getStore = useCallback((): ProjectStore | null => {
+    if (!storeRef.current && ProjectStore.isSupported()) {
+      storeRef.current = new ProjectStore();
+    }
+    return storeRef.current;
+  }, []);
+
+  /**
+   * The saved project of this file, if it was opened before
+   */
+  const loadProject = useCallback(async (videoFile: File): Promise<VideoProject | null> => {
+    const store = getStore();
+    if (!store) return null;
+
+    try {
+      return await store.get(await computeVideoFingerprint(videoFile));
+    } catch (error) {
+      // console.warn('Project store unavailable:', error);
+      return null;
+    }
+  }, [getStore]);
+
+  /**
+   * Merge changes into the saved project of this file
+   */
+  const saveProject = useCallback(async (videoFile: File, changes: ProjectChanges) => {
+    const store = getStore();
+    if (!store) return;
+
+    try {
+      const fingerprint = await computeVideoFingerprint(videoFile);
+      const existing = await store.get(fingerprint);
+      await store.put({ ...EMPTY_PROJECT, ...existing, ...changes, fingerprint, updatedAt: Date.now() });
+    } catch (error) {
+      // console.warn('Failed to save project:', error);
+    }
+  }, [getStore]);
+
+  return {
+    loadProject,
+    saveProject
+  };
+}
@@ -10,6 +10,9 @@ import {
   TrackedObject,
   VideoMetadata,
   ExportOptions,
+  SaliencyRegion,
+  Shot,
+  SpeakerSegment,
   AspectRatio
 } from '@/types';
 import { REFRAMING_PRESETS } from '@/lib/reframing/presets';
@@ -50,7 +53,10 @@ export function useReframing() {
     detections: Detection[],
     selectedTrack: TrackedObject | null,
     metadata: VideoMetadata,
-    initialTargetBox?: { width: number; height: number }
+    initialTargetBox?: { width: number; height: number },
+    shots: Shot[] = [],
+    saliency: SaliencyRegion[] = [],
+    speakers: SpeakerSegment[] = []
   ) => {
     // Store initial target box for export
     setStoredInitialTargetBox(initialTargetBox);
@@ -65,7 +71,10 @@ export function useReframing() {
         selectedTrack,
         metadata.width,
         metadata.height,
-        metadata.fps
+        metadata.fps,
+        shots,
+        saliency,
+        speakers
       );
       
       setTransforms(frameTransforms);
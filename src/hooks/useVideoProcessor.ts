@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef } from 'react';
-import { VideoProcessor } from '@/lib/video/processor';
+import { FrameExtractor, VideoProcessor } from '@/lib/video/processor';
 import { VideoMetadata, ProcessingStatus } from '@/types';
 
 export function useVideoProcessor() {
@@ -83,6 +83,13 @@ export function useVideoProcessor() {
     }
   }, [metadata]);
 
+  const createFrameExtractor = useCallback(async (): Promise<FrameExtractor> => {
+    if (!processorRef.current) {
+      throw new Error('No video loaded');
+    }
+    return processorRef.current.createFrameExtractor();
+  }, []);
+
   const getVideoElement = useCallback(() => {
     return processorRef.current?.getVideoElement() || null;
   }, []);
@@ -113,6 +120,7 @@ export function useVideoProcessor() {
     error,
     loadVideo,
     processFrames,
+    createFrameExtractor,
     getVideoElement,
     getCanvas,
     reset
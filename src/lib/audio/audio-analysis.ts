@@ -0,0 +1,134 @@
+import { AudioActivity, AudioFrame } from '@/types';
+
+export interface AudioAnalysisOptions {
+  sampleRate: number;           // Audio is decoded and resampled to this rate
+  voiceLowCut: number;          // Hz; speech band used for voice activity
+  voiceHighCut: number;         // Hz
+  noiseFloorPercentile: number; // Quiet share of the track that sets the noise floor
+  voiceRange: number;           // dB above the noise floor at which voice activity saturates
+}
+
+const DEFAULT_OPTIONS: AudioAnalysisOptions = {
+  sampleRate: 16000,
+  voiceLowCut: 300,
+  voiceHighCut: 3400,
+  noiseFloorPercentile: 0.1,
+  voiceRange: 12
+};
+
+// Speech puts most of its energy into the voice band; music and noise spread wider
+const MIN_VOICE_BAND_SHARE = 0.3;
+
+type AudioContextConstructor = new (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+
+function getOfflineAudioContext(): AudioContextConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as { OfflineAudioContext?: AudioContextConstructor; webkitOfflineAudioContext?: AudioContextConstructor };
+  return scope.OfflineAudioContext ?? scope.webkitOfflineAudioContext ?? null;
+}
+
+/**
+ * Render the decoded track through a band-pass for the speech range
+ */
+async function renderVoiceBand(
+  OfflineContext: AudioContextConstructor,
+  buffer: AudioBuffer,
+  options: AudioAnalysisOptions
+): Promise<AudioBuffer> {
+  const context = new OfflineContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const highPass = context.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = options.voiceLowCut;
+  const lowPass = context.createBiquadFilter();
+  lowPass.type = 'lowpass';
+  lowPass.frequency.value = options.voiceHighCut;
+
+  source.connect(highPass);
+  highPass.connect(lowPass);
+  lowPass.connect(context.destination);
+  source.start();
+
+  return context.startRendering();
+}
+
+function meanSquare(samples: Float32Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return end > start ? sum / (end - start) : 0;
+}
+
+function toDecibels(power: number): number {
+  return 10 * Math.log10(power + 1e-12);
+}
+
+/**
+ * Per-video-frame loudness, voice activity and stereo panning of a video's
+ * audio track, via OfflineAudioContext. Null when the file has no decodable
+ * audio or the browser has no Web Audio.
+ */
+export async function analyzeAudio(
+  file: Blob,
+  fps: number,
+  options: Partial<AudioAnalysisOptions> = {}
+): Promise<AudioActivity | null> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const OfflineContext = getOfflineAudioContext();
+  if (!OfflineContext) return null;
+
+  let buffer: AudioBuffer;
+  try {
+    // decodeAudioData resamples to the context's rate
+    const decoder = new OfflineContext(1, 1, settings.sampleRate);
+    buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    // console.warn('No decodable audio track:', error);
+    return null;
+  }
+
+  const band = await renderVoiceBand(OfflineContext, buffer, settings);
+  const stereo = buffer.numberOfChannels >= 2;
+  const channels = Array.from({ length: Math.min(2, buffer.numberOfChannels) }, (_, i) => buffer.getChannelData(i));
+  const bandChannels = Array.from({ length: channels.length }, (_, i) => band.getChannelData(i));
+
+  const samplesPerFrame = buffer.sampleRate / fps;
+  const frameCount = Math.floor(buffer.length / samplesPerFrame);
+  const power: number[] = [];
+  const bandPower: number[] = [];
+  const pans: number[] = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.floor(frame * samplesPerFrame);
+    const end = Math.min(buffer.length, Math.floor((frame + 1) * samplesPerFrame));
+
+    const channelPower = channels.map(samples => meanSquare(samples, start, end));
+    const channelBandPower = bandChannels.map(samples => meanSquare(samples, start, end));
+    power.push(channelPower.reduce((sum, p) => sum + p, 0) / channels.length);
+    bandPower.push(channelBandPower.reduce((sum, p) => sum + p, 0) / channels.length);
+
+    // Balance of speech energy between the channels: -1 left, 1 right
+    const [left, right] = channelBandPower;
+    pans.push(stereo && left + right > 0 ? (right - left) / (right + left) : 0);
+  }
+
+  // The noise floor is the level of the quietest stretches of the track
+  const sortedLevels = bandPower.map(toDecibels).sort((a, b) => a - b);
+  const noiseFloor = sortedLevels[Math.floor(sortedLevels.length * settings.noiseFloorPercentile)] ?? -120;
+
+  const frames: AudioFrame[] = power.map((framePower, frame) => {
+    const aboveFloor = (toDecibels(bandPower[frame]) - noiseFloor) / settings.voiceRange;
+    const bandShare = framePower > 0 ? bandPower[frame] / framePower : 0;
+    const voice = bandShare >= MIN_VOICE_BAND_SHARE ? Math.max(0, Math.min(1, aboveFloor)) : 0;
+    return {
+      energy: Math.sqrt(framePower),
+      voice,
+      pan: pans[frame]
+    };
+  });
+
+  return { fps, stereo, frames };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { MotBox, evaluateMot, evaluateTracker, formatMotFile, parseMotFile, replayTracker } from '../mot-evaluation';
+
+// Two people walking towards each other for the given number of frames
+function walkers(frames: number): MotBox[] {
+  const boxes: MotBox[] = [];
+  for (let frame = 1; frame <= frames; frame++) {
+    boxes.push({ frame, id: 1, x: 100 + frame * 4, y: 100, width: 60, height: 150, confidence: 1 });
+    boxes.push({ frame, id: 2, x: 600 - frame * 4, y: 120, width: 60, height: 150, confidence: 1 });
+  }
+  return boxes;
+}
+
+function relabel(boxes: MotBox[], relabelId: (box: MotBox) => number): MotBox[] {
+  return boxes.map(box => ({ ...box, id: relabelId(box) }));
+}
+
+describe('parseMotFile', () => {
+  it('should drop ignored and non-pedestrian ground truth rows', () => {
+    const text = [
+      '1,1,10,20,30,40,1,1,1.0',
+      '1,2,50,20,30,40,0,1,1.0',
+      '1,3,90,20,30,40,1,7,0.5',
+      '2,1,12,20,30,40,1,1,0.9'
+    ].join('\n');
+
+    const boxes = parseMotFile(text, true);
+
+    expect(boxes.map(box => [box.frame, box.id])).toEqual([[1, 1], [2, 1]]);
+  });
+
+  it('should keep detection confidences and round-trip through formatMotFile', () => {
+    const text = '3,-1,10.5,20,30,40,0.75,-1,-1,-1';
+
+    const [box] = parseMotFile(text);
+
+    expect(box).toEqual({ frame: 3, id: -1, x: 10.5, y: 20, width: 30, height: 40, confidence: 0.75 });
+    expect(formatMotFile([box])).toBe('3,-1,10.50,20,30,40,0.75,-1,-1,-1');
+  });
+
+  it('should keep the scores of tracker output read as tracks', () => {
+    const text = '3,4,10,20,30,40,0.6,-1,-1,-1';
+
+    const [box] = parseMotFile(text, true);
+
+    expect(box.id).toBe(4);
+    expect(box.confidence).toBe(0.6);
+  });
+});
+
+describe('evaluateMot', () => {
+  it('should score a perfect hypothesis as perfect', () => {
+    const groundTruth = walkers(20);
+    const hypotheses = relabel(groundTruth, box => box.id + 10);
+
+    const metrics = evaluateMot(groundTruth, hypotheses);
+
+    expect(metrics.mota).toBe(1);
+    expect(metrics.idf1).toBe(1);
+    expect(metrics.motp).toBeCloseTo(1, 10);
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.fragmentations).toBe(0);
+    expect(metrics.mostlyTracked).toBe(2);
+  });
+
+  it('should count an ID switch for each person whose identity changes', () => {
+    const groundTruth = walkers(20);
+    // The hypothesis IDs swap halfway through
+    const hypotheses = relabel(groundTruth, box => (box.frame <= 10 ? box.id : 3 - box.id));
+
+    const metrics = evaluateMot(groundTruth, hypotheses);
+
+    expect(metrics.idSwitches).toBe(2);
+    expect(metrics.mota).toBeCloseTo(1 - 2 / 40, 10);
+    expect(metrics.idf1).toBeCloseTo(0.5, 10);
+  });
+
+  it('should count a fragmentation when a track is picked up again after a gap', () => {
+    const groundTruth = walkers(20);
+    const hypotheses = groundTruth.filter(box => !(box.id === 1 && box.frame >= 8 && box.frame <= 11));
+
+    const metrics = evaluateMot(groundTruth, hypotheses);
+
+    expect(metrics.fragmentations).toBe(1);
+    expect(metrics.misses).toBe(4);
+    expect(metrics.idSwitches).toBe(0);
+  });
+
+  it('should count boxes that overlap no ground truth as false positives', () => {
+    const groundTruth = walkers(10);
+    const stray: MotBox = { frame: 5, id: 9, x: 900, y: 500, width: 50, height: 50, confidence: 1 };
+
+    const metrics = evaluateMot(groundTruth, [...groundTruth, stray]);
+
+    expect(metrics.falsePositives).toBe(1);
+    expect(metrics.mota).toBeCloseTo(1 - 1 / 20, 10);
+    expect(metrics.precision).toBeCloseTo(20 / 21, 10);
+  });
+});
+
+describe('replayTracker', () => {
+  const groundTruth = walkers(60);
+  const detections = relabel(groundTruth, () => -1).map(box => ({ ...box, confidence: 0.9 }));
+
+  it('should track clean detections with ByteTracker without identity errors', () => {
+    const metrics = evaluateMot(groundTruth, replayTracker(detections));
+
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.mota).toBeGreaterThan(0.95);
+    expect(metrics.idf1).toBeGreaterThan(0.95);
+  });
+
+  it('should interpolate sparse keyframes like the app does', () => {
+    const metrics = evaluateMot(groundTruth, replayTracker(detections, { mode: 'interpolator', keyframeInterval: 3 }));
+
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.mota).toBeGreaterThan(0.9);
+  });
+
+  it('should evaluate MOTChallenge text end to end', () => {
+    const metrics = evaluateTracker(formatMotFile(groundTruth), formatMotFile(detections));
+
+    expect(metrics.groundTruthTracks).toBe(2);
+    expect(metrics.mota).toBeGreaterThan(0.95);
+  });
+});
@@ -0,0 +1,124 @@
+import { downsampleGray, meanAbsoluteDifference } from '@/lib/video/frame-difference';
+import { TrackerStats } from './bytetrack-proper/types';
+
+export interface AdaptiveSamplerOptions {
+  minInterval: number;          // Densest sampling, in frames
+  maxInterval: number;          // Sparsest sampling, in frames
+  initialInterval: number;
+  lowMotion: number;            // Mean frame difference below which content is considered static
+  highMotion: number;           // Mean frame difference above which content is considered fast
+  uncertaintyThreshold: number; // Kalman position std (relative to box height) that calls for denser sampling
+}
+
+const DEFAULT_OPTIONS: AdaptiveSamplerOptions = {
+  minInterval: 1,
+  maxInterval: 15,
+  initialInterval: 5,
+  lowMotion: 0.01,
+  highMotion: 0.04,
+  uncertaintyThreshold: 0.15
+};
+
+// Motion is measured on a small grayscale thumbnail
+const MOTION_WIDTH = 64;
+const MOTION_HEIGHT = 36;
+
+/**
+ * Decides which frames get a real detection pass.
+ * Static shots are sampled sparsely; fast motion, uncertain tracks and more
+ * tracks starting or ending than usual pull the detection rate up.
+ */
+export class AdaptiveSampler {
+  private options: AdaptiveSamplerOptions;
+  private interval: number;
+  private lastKeyframe: number | null = null;
+  private keyframes: number[] = [];
+  private previousFrame: Float32Array | null = null;
+  private motionSum = 0;
+  private motionCount = 0;
+  private averageTurnover = 0; // Recent tracks started plus lost per keyframe
+
+  constructor(options: Partial<AdaptiveSamplerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.interval = this.options.initialInterval;
+  }
+
+  /**
+   * Measure frame-difference motion energy against the previous frame
+   */
+  measureMotion(imageData: ImageData): number {
+    const current = downsampleGray(imageData, MOTION_WIDTH, MOTION_HEIGHT);
+    const energy = this.previousFrame ? meanAbsoluteDifference(current, this.previousFrame) : 0;
+    this.previousFrame = current;
+
+    this.motionSum += energy;
+    this.motionCount++;
+
+    return energy;
+  }
+
+  /**
+   * Whether this frame should run detection
+   */
+  shouldDetect(frameNumber: number, motionEnergy: number = 0): boolean {
+    if (this.lastKeyframe === null) return true;
+
+    const elapsed = frameNumber - this.lastKeyframe;
+    if (elapsed >= Math.round(this.interval)) return true;
+
+    // Sudden burst of motion - don't wait for the schedule
+    return motionEnergy > this.options.highMotion * 2 && elapsed >= this.options.minInterval;
+  }
+
+  /**
+   * Record that detection ran on this frame and adapt the interval from tracker feedback
+   */
+  recordKeyframe(frameNumber: number, stats?: TrackerStats): void {
+    this.keyframes.push(frameNumber);
+    this.lastKeyframe = frameNumber;
+
+    const averageMotion = this.motionCount > 0 ? this.motionSum / this.motionCount : 0;
+    this.motionSum = 0;
+    this.motionCount = 0;
+
+    let interval = this.interval;
+
+    if (averageMotion > this.options.highMotion) {
+      interval *= 0.7;
+    } else if (averageMotion < this.options.lowMotion) {
+      interval *= 1.25;
+    }
+
+    if (stats) {
+      // A busy scene always has some turnover; only a rise above the usual amount counts
+      const turnover = stats.newTracks + stats.lostTracks;
+      if (turnover >= this.averageTurnover + 1) {
+        // Something entered or left - sample densely until it settles
+        interval = Math.min(interval, this.options.minInterval * 2);
+      } else if (stats.meanUncertainty > this.options.uncertaintyThreshold) {
+        interval *= 0.75;
+      }
+      this.averageTurnover = 0.7 * this.averageTurnover + 0.3 * turnover;
+    }
+
+    this.interval = Math.max(this.options.minInterval, Math.min(this.options.maxInterval, interval));
+  }
+
+  getInterval(): number {
+    return Math.round(this.interval);
+  }
+
+  getKeyframes(): number[] {
+    return [...this.keyframes];
+  }
+
+  reset(): void {
+    this.interval = this.options.initialInterval;
+    this.lastKeyframe = null;
+    this.keyframes = [];
+    this.previousFrame = null;
+    this.motionSum = 0;
+    this.motionCount = 0;
+    this.averageTurnover = 0;
+  }
+}
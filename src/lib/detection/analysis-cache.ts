@@ -0,0 +1,138 @@
+import { Detection, DetectionMask, SaliencyRegion, Shot, SlicingSettings, TrackedObject, TrackerSettings } from '@/types';
+import { KeyframeDetections } from './retracker';
+import { createDatabaseOpener, promisifyRequest } from './indexed-db';
+
+// Bump when the pipeline output changes so stale analyses are ignored
+export const ANALYSIS_CACHE_VERSION = 11;
+
+const DB_NAME = 'autoreframer-analysis';
+const STORE_NAME = 'analyses';
+const MAX_ENTRIES = 20;
+
+// Bytes hashed from the start, middle and end of large files
+const FINGERPRINT_CHUNK_SIZE = 1024 * 1024;
+
+export interface AnalysisCacheKey {
+  fingerprint: string;
+  detectorId: string;
+  classSetId: string;
+  faceLandmarks: boolean;
+  headDetection: boolean;
+  slicing: SlicingSettings;
+  confidenceThreshold: number;
+}
+
+export interface CachedAnalysis {
+  key: string;
+  createdAt: number;
+  detections: Detection[]; // Interpolated, with head centers
+  trackedObjects: TrackedObject[];
+  keyframes: number[];
+  shots: Shot[];
+  targetTrackId: string | null;
+  keyframeDetections: KeyframeDetections[]; // Lets other tracker settings be applied without inference
+  saliency: SaliencyRegion[];
+  trackerSettings: TrackerSettings;
+  masks: DetectionMask[]; // Applied at tracking, so other masks only need re-tracking
+  totalFrames: number;
+  fps: number;
+}
+
+const fingerprints = new WeakMap<File, Promise<string>>();
+
+/**
+ * SHA-256 of the file size and its first, middle and last megabyte.
+ * Cheap for multi-gigabyte videos while still changing on any re-encode or edit.
+ */
+export function computeVideoFingerprint(file: File): Promise<string> {
+  let fingerprint = fingerprints.get(file);
+  if (!fingerprint) {
+    fingerprint = hashFile(file);
+    fingerprints.set(file, fingerprint);
+  }
+  return fingerprint;
+}
+
+async function hashFile(file: File): Promise<string> {
+  const parts: BlobPart[] = [String(file.size)];
+  if (file.size <= FINGERPRINT_CHUNK_SIZE * 3) {
+    parts.push(file);
+  } else {
+    const middle = Math.floor(file.size / 2 - FINGERPRINT_CHUNK_SIZE / 2);
+    parts.push(
+      file.slice(0, FINGERPRINT_CHUNK_SIZE),
+      file.slice(middle, middle + FINGERPRINT_CHUNK_SIZE),
+      file.slice(file.size - FINGERPRINT_CHUNK_SIZE)
+    );
+  }
+
+  const buffer = await new Blob(parts).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getAnalysisCacheKey(key: AnalysisCacheKey): string {
+  return [
+    `v${ANALYSIS_CACHE_VERSION}`,
+    key.fingerprint,
+    key.detectorId,
+    key.classSetId,
+    key.faceLandmarks ? 'faces' : 'nofaces',
+    key.headDetection ? 'heads' : 'noheads',
+    key.slicing.mode === 'off' ? 'noslice' : `slice-${key.slicing.mode}-${key.slicing.overlap}-${key.slicing.maxSlices}`,
+    key.confidenceThreshold.toFixed(2)
+  ].join(':');
+}
+
+/**
+ * Analyses stored in IndexedDB so reloading a video skips detection.
+ * Keeps the most recent entries only; videos produce large detection lists.
+ */
+export class AnalysisCache {
+  private readonly open = createDatabaseOpener(DB_NAME, db => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex('createdAt', 'createdAt');
+  });
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+  }
+
+  async get(key: string): Promise<CachedAnalysis | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry = await promisifyRequest<CachedAnalysis | undefined>(store.get(key));
+    return entry ?? null;
+  }
+
+  async put(entry: CachedAnalysis): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.put(entry));
+    await this.prune(db);
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.clear());
+  }
+
+  /**
+   * Drop the oldest analyses beyond MAX_ENTRIES
+   */
+  private async prune(db: IDBDatabase): Promise<void> {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const keys = await promisifyRequest(store.index('createdAt').getAllKeys());
+    const excess = keys.length - MAX_ENTRIES;
+    for (let i = 0; i < excess; i++) {
+      store.delete(keys[i]);
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import { COCO_CLASSES } from './coco-classes';
+import { parseMotFile } from './mot-evaluation';
+import { estimateHeadCenter } from './pose-utils';
+import { KeyframeDetections, retrackKeyframes } from './retracker';
+import { applyDetectionMasks } from './detection-masks';
+import { BoundingBox, Detection, DetectionMask, TrackerSettings } from '@/types';
+
+export type AnnotationFormat = 'mot' | 'coco';
+
+export interface AnnotationVideoInfo {
+  width: number;
+  height: number;
+  fps: number;
+  totalFrames: number;
+}
+
+export interface ImportedAnnotations {
+  format: AnnotationFormat;
+  keyframes: KeyframeDetections[]; // Annotated frames, 0-based, boxes in video pixels
+  tracked: boolean;                // Boxes carry track IDs from the file
+}
+
+// Tracks are interpolated across gaps up to this long and end otherwise
+const MAX_INTERPOLATION_GAP_SECONDS = 2;
+
+// Category names used by pedestrian datasets for what COCO calls a person
+const PERSON_ALIASES = new Set(['person', 'pedestrian', 'people', 'human']);
+
+interface CocoImage {
+  id: number;
+  file_name?: string;
+  width?: number;
+  height?: number;
+  frame_id?: number;
+  frame_index?: number;
+}
+
+interface CocoAnnotation {
+  image_id: number;
+  bbox: [number, number, number, number];
+  category_id?: number;
+  score?: number;
+  track_id?: number;
+  instance_id?: number;
+  attributes?: { track_id?: number };
+}
+
+interface CocoCategory {
+  id: number;
+  name: string;
+}
+
+/**
+ * Guess the format from the file name, falling back to the content
+ */
+export function detectAnnotationFormat(text: string, fileName: string = ''): AnnotationFormat {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.json')) return 'coco';
+  if (lowerName.endsWith('.txt') || lowerName.endsWith('.csv')) return 'mot';
+  const start = text.trimStart()[0];
+  return start === '{' || start === '[' ? 'coco' : 'mot';
+}
+
+/**
+ * Class of a category name. Names outside COCO get IDs after the COCO classes,
+ * numbered in the order they are first seen, so each keeps one ID per import.
+ */
+function toClass(name: string | undefined, extraClasses: Map<string, number>): { name: string; id: number } {
+  const normalized = name?.toLowerCase().trim();
+  // Files without category names are assumed to annotate people
+  if (!normalized || PERSON_ALIASES.has(normalized)) {
+    return { name: 'person', id: 0 };
+  }
+
+  const cocoId = COCO_CLASSES.indexOf(normalized);
+  if (cocoId >= 0) {
+    return { name: normalized, id: cocoId };
+  }
+  let id = extraClasses.get(normalized);
+  if (id === undefined) {
+    id = COCO_CLASSES.length + extraClasses.size;
+    extraClasses.set(normalized, id);
+  }
+  return { name: normalized, id };
+}
+
+function toKeyframes(framesToBoxes: Map<number, BoundingBox[]>, fps: number): KeyframeDetections[] {
+  return Array.from(framesToBoxes.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([frameNumber, boxes]) => ({
+      frameNumber,
+      timestamp: frameNumber / fps,
+      isShotStart: false,
+      boxes
+    }));
+}
+
+function addBox(framesToBoxes: Map<number, BoundingBox[]>, frame: number, box: BoundingBox): void {
+  const boxes = framesToBoxes.get(frame) ?? [];
+  boxes.push(box);
+  framesToBoxes.set(frame, boxes);
+}
+
+/**
+ * MOTChallenge det.txt, gt.txt or tracker output. Rows with an ID are tracks;
+ * frames in the file are 1-based.
+ */
+function parseMotAnnotations(text: string, video: AnnotationVideoInfo): ImportedAnnotations {
+  const tracked = parseMotFile(text).some(box => box.id >= 0);
+  const rows = parseMotFile(text, tracked);
+  if (rows.length === 0) {
+    throw new Error('No MOT rows found');
+  }
+
+  const framesToBoxes = new Map<number, BoundingBox[]>();
+  for (const row of rows) {
+    addBox(framesToBoxes, row.frame - 1, {
+      x: row.x,
+      y: row.y,
+      width: row.width,
+      height: row.height,
+      confidence: row.confidence,
+      class: 'person',
+      classId: 0,
+      trackId: tracked ? `${row.id}` : undefined
+    });
+  }
+
+  return { format: 'mot', keyframes: toKeyframes(framesToBoxes, video.fps), tracked };
+}
+
+/**
+ * Frame of each image: an explicit frame field, else the last number in the
+ * file name, else the image's order by ID. Numbering that does not start at 0
+ * is taken to be 1-based, as in most video datasets.
+ */
+function getImageFrames(images: CocoImage[]): Map<number, number> {
+  const fromFileName = (image: CocoImage) => {
+    const digits = image.file_name?.match(/(\d+)(?!.*\d)/);
+    return digits ? Number(digits[1]) : undefined;
+  };
+
+  const explicit = images.map(image => image.frame_id ?? image.frame_index ?? fromFileName(image));
+  if (explicit.every(frame => frame !== undefined)) {
+    const offset = explicit.some(frame => frame === 0) ? 0 : 1;
+    return new Map(images.map((image, i) => [image.id, explicit[i]! - offset]));
+  }
+
+  const ordered = [...images].sort((a, b) => a.id - b.id);
+  return new Map(ordered.map((image, frame) => [image.id, frame]));
+}
+
+/**
+ * COCO-style JSON: a dataset with images and annotations, or a bare results
+ * array. Track IDs are read from track_id, instance_id or attributes.track_id.
+ */
+function parseCocoAnnotations(text: string, video: AnnotationVideoInfo): ImportedAnnotations {
+  const data = JSON.parse(text) as
+    | CocoAnnotation[]
+    | { images?: CocoImage[]; annotations?: CocoAnnotation[]; categories?: CocoCategory[] };
+
+  const annotations = Array.isArray(data) ? data : data.annotations ?? [];
+  if (annotations.length === 0) {
+    throw new Error('No annotations found');
+  }
+
+  // A results array has no image list; its image IDs stand in for frames
+  const images: CocoImage[] = !Array.isArray(data) && data.images?.length
+    ? data.images
+    : Array.from(new Set(annotations.map(a => a.image_id))).map(id => ({ id }));
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  const frames = getImageFrames(images);
+  const categories = new Map((!Array.isArray(data) ? data.categories ?? [] : []).map(c => [c.id, c.name]));
+
+  const tracked = annotations.some(a => (a.track_id ?? a.instance_id ?? a.attributes?.track_id) !== undefined);
+  const framesToBoxes = new Map<number, BoundingBox[]>();
+  const extraClasses = new Map<string, number>();
+
+  for (const annotation of annotations) {
+    const frame = frames.get(annotation.image_id);
+    if (frame === undefined || !annotation.bbox) continue;
+
+    // Boxes are scaled when the images were annotated at another resolution
+    const image = imagesById.get(annotation.image_id);
+    const scaleX = image?.width ? video.width / image.width : 1;
+    const scaleY = image?.height ? video.height / image.height : 1;
+    const [x, y, width, height] = annotation.bbox;
+    const objectClass = toClass(categories.get(annotation.category_id ?? -1), extraClasses);
+    const trackId = annotation.track_id ?? annotation.instance_id ?? annotation.attributes?.track_id;
+
+    addBox(framesToBoxes, frame, {
+      x: x * scaleX,
+      y: y * scaleY,
+      width: width * scaleX,
+      height: height * scaleY,
+      confidence: annotation.score ?? 1,
+      class: objectClass.name,
+      classId: objectClass.id,
+      trackId: tracked && trackId !== undefined ? `${trackId}` : undefined
+    });
+  }
+
+  return { format: 'coco', keyframes: toKeyframes(framesToBoxes, video.fps), tracked };
+}
+
+/**
+ * Parse an external detection or tracking file into keyframe records
+ */
+export function parseAnnotations(text: string, fileName: string, video: AnnotationVideoInfo): ImportedAnnotations {
+  const format = detectAnnotationFormat(text, fileName);
+  const imported = format === 'coco' ? parseCocoAnnotations(text, video) : parseMotAnnotations(text, video);
+
+  // Annotations past the end of the video are dropped
+  imported.keyframes = imported.keyframes.filter(k => k.frameNumber >= 0 && k.frameNumber < video.totalFrames);
+  if (imported.keyframes.length === 0) {
+    throw new Error('No annotations fall inside the video');
+  }
+  return imported;
+}
+
+function withHeadCenter(box: BoundingBox): BoundingBox {
+  if (box.class !== 'person' || box.headCenterX !== undefined) return box;
+  const head = estimateHeadCenter(box);
+  return { ...box, headCenterX: head.x, headCenterY: head.y };
+}
+
+function lerpBox(a: BoundingBox, b: BoundingBox, t: number): BoundingBox {
+  const lerp = (from: number, to: number) => from + (to - from) * t;
+  const box: BoundingBox = {
+    ...a,
+    x: lerp(a.x, b.x),
+    y: lerp(a.y, b.y),
+    width: lerp(a.width, b.width),
+    height: lerp(a.height, b.height),
+    confidence: Math.min(a.confidence, b.confidence),
+    headCenterX: undefined,
+    headCenterY: undefined
+  };
+  // Only people have head centers
+  if (a.headCenterX !== undefined && a.headCenterY !== undefined &&
+      b.headCenterX !== undefined && b.headCenterY !== undefined) {
+    box.headCenterX = lerp(a.headCenterX, b.headCenterX);
+    box.headCenterY = lerp(a.headCenterY, b.headCenterY);
+  }
+  return box;
+}
+
+/**
+ * Keep the file's own track IDs and fill the frames between annotations
+ * linearly, as long as the gap is short
+ */
+function interpolateTracks(keyframes: KeyframeDetections[], video: AnnotationVideoInfo, masks: DetectionMask[]): Detection[] {
+  const detections: Detection[] = Array.from({ length: video.totalFrames }, (_, frameNumber) => ({
+    frameNumber,
+    timestamp: frameNumber / video.fps,
+    boxes: []
+  }));
+
+  const tracks = new Map<string, { frame: number; box: BoundingBox }[]>();
+  for (const keyframe of keyframes) {
+    detections[keyframe.frameNumber].isKeyframe = true;
+    for (const box of applyDetectionMasks(keyframe.boxes, masks, keyframe.frameNumber)) {
+      const annotated = withHeadCenter(box);
+      detections[keyframe.frameNumber].boxes.push(annotated);
+      if (!annotated.trackId) continue;
+      const track = tracks.get(annotated.trackId) ?? [];
+      track.push({ frame: keyframe.frameNumber, box: annotated });
+      tracks.set(annotated.trackId, track);
+    }
+  }
+
+  const maxGap = Math.round(video.fps * MAX_INTERPOLATION_GAP_SECONDS);
+  tracks.forEach(track => {
+    for (let i = 1; i < track.length; i++) {
+      const prev = track[i - 1];
+      const next = track[i];
+      const gap = next.frame - prev.frame;
+      if (gap <= 1 || gap > maxGap) continue;
+      for (let frame = prev.frame + 1; frame < next.frame; frame++) {
+        detections[frame].boxes.push(lerpBox(prev.box, next.box, (frame - prev.frame) / gap));
+      }
+    }
+  });
+
+  return detections;
+}
+
+/**
+ * Per-frame detections for imported annotations. Tracks from the file are
+ * kept as they are; bare detections go through ByteTrack like model output.
+ */
+export function buildImportedDetections(
+  imported: ImportedAnnotations,
+  settings: TrackerSettings,
+  video: AnnotationVideoInfo,
+  masks: DetectionMask[] = []
+): Detection[] {
+  if (imported.tracked) {
+    return interpolateTracks(imported.keyframes, video, masks);
+  }
+
+  const detections = retrackKeyframes(imported.keyframes, settings, video.totalFrames, video.fps, masks);
+  return detections.map(detection => ({ ...detection, boxes: detection.boxes.map(withHeadCenter) }));
+}
@@ -0,0 +1,222 @@
+import * as ort from 'onnxruntime-web';
+import { BoundingBox } from '@/types';
+import { DetectorInput } from './detector';
+import { createCanvas, toDrawable } from './canvas-utils';
+
+/**
+ * Produces an L2-normalized appearance embedding per box for re-identification
+ */
+export interface AppearanceExtractor {
+  readonly id: string;
+  readonly dimension: number;
+
+  initialize(): Promise<void>;
+  extract(image: DetectorInput, boxes: BoundingBox[]): Promise<Float32Array[]>;
+  dispose(): void;
+}
+
+export const DEFAULT_REID_MODEL_PATH = '/reid_model.onnx';
+
+/**
+ * Draw a box region into a canvas of the given size and read back its pixels
+ */
+function cropToImageData(image: DetectorInput, box: BoundingBox, width: number, height: number): ImageData {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(
+    toDrawable(image),
+    box.x, box.y, Math.max(1, box.width), Math.max(1, box.height),
+    0, 0, width, height
+  );
+  return ctx.getImageData(0, 0, width, height);
+}
+
+function l2Normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+/**
+ * Model-free fallback: HSV colour histograms of the upper and lower body.
+ * Clothing colour is usually enough to tell two crossing people apart.
+ */
+export class ColorHistogramExtractor implements AppearanceExtractor {
+  readonly id = 'color-histogram';
+
+  private readonly hueBins = 8;
+  private readonly satBins = 4;
+  private readonly grayBins = 4;
+  private readonly regions = 2; // upper and lower half
+  private readonly cropWidth = 32;
+  private readonly cropHeight = 64;
+
+  get dimension(): number {
+    return this.regions * (this.hueBins * this.satBins + this.grayBins);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load
+  }
+
+  async extract(image: DetectorInput, boxes: BoundingBox[]): Promise<Float32Array[]> {
+    return boxes.map(box => this.extractOne(cropToImageData(image, box, this.cropWidth, this.cropHeight)));
+  }
+
+  private extractOne(crop: ImageData): Float32Array {
+    const regionSize = this.hueBins * this.satBins + this.grayBins;
+    const histogram = new Float32Array(this.dimension);
+    const data = crop.data;
+
+    // Skip the outer columns, which are mostly background
+    const marginX = Math.floor(crop.width * 0.15);
+
+    for (let y = 0; y < crop.height; y++) {
+      const region = Math.min(this.regions - 1, Math.floor((y / crop.height) * this.regions));
+      const offset = region * regionSize;
+
+      for (let x = marginX; x < crop.width - marginX; x++) {
+        const i = (y * crop.width + x) * 4;
+        const r = data[i] / 255;
+        const g = data[i + 1] / 255;
+        const b = data[i + 2] / 255;
+
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const delta = max - min;
+        const saturation = max > 0 ? delta / max : 0;
+
+        if (saturation < 0.15 || max < 0.15) {
+          // Achromatic pixel - bin by brightness only
+          const bin = Math.min(this.grayBins - 1, Math.floor(max * this.grayBins));
+          histogram[offset + this.hueBins * this.satBins + bin]++;
+          continue;
+        }
+
+        let hue: number;
+        if (max === r) {
+          hue = ((g - b) / delta + 6) % 6;
+        } else if (max === g) {
+          hue = (b - r) / delta + 2;
+        } else {
+          hue = (r - g) / delta + 4;
+        }
+        const hueBin = Math.min(this.hueBins - 1, Math.floor((hue / 6) * this.hueBins));
+        const satBin = Math.min(this.satBins - 1, Math.floor(saturation * this.satBins));
+        histogram[offset + hueBin * this.satBins + satBin]++;
+      }
+    }
+
+    // Square root (Hellinger) before normalizing so dominant colours don't swamp the rest
+    for (let i = 0; i < histogram.length; i++) {
+      histogram[i] = Math.sqrt(histogram[i]);
+    }
+    return l2Normalize(histogram);
+  }
+
+  dispose(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * Small person re-ID network (e.g. OSNet x0.25) served locally as ONNX.
+ * Expects a [1, 3, 256, 128] ImageNet-normalized input and outputs one feature vector.
+ */
+export class OnnxReidExtractor implements AppearanceExtractor {
+  readonly id = 'onnx-reid';
+
+  private session: ort.InferenceSession | null = null;
+  private modelPath: string;
+  private inputWidth = 128;
+  private inputHeight = 256;
+  private featureDimension = 0;
+
+  private readonly mean = [0.485, 0.456, 0.406];
+  private readonly std = [0.229, 0.224, 0.225];
+
+  constructor(modelPath: string = DEFAULT_REID_MODEL_PATH) {
+    this.modelPath = modelPath;
+  }
+
+  get dimension(): number {
+    return this.featureDimension;
+  }
+
+  async initialize(): Promise<void> {
+    const response = await fetch(this.modelPath, { method: 'HEAD' });
+    if (!response.ok) {
+      throw new Error(`Re-ID model not found: ${this.modelPath} (${response.status})`);
+    }
+
+    this.session = await ort.InferenceSession.create(this.modelPath, {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+  }
+
+  async extract(image: DetectorInput, boxes: BoundingBox[]): Promise<Float32Array[]> {
+    if (!this.session) {
+      throw new Error('Re-ID model not initialized');
+    }
+
+    const features: Float32Array[] = [];
+    for (const box of boxes) {
+      const crop = cropToImageData(image, box, this.inputWidth, this.inputHeight);
+      const input = this.preprocess(crop);
+
+      const feeds: Record<string, ort.Tensor> = {
+        [this.session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, this.inputHeight, this.inputWidth])
+      };
+      const output = await this.session.run(feeds);
+      const feature = new Float32Array(output[this.session.outputNames[0]].data as Float32Array);
+
+      this.featureDimension = feature.length;
+      features.push(l2Normalize(feature));
+    }
+    return features;
+  }
+
+  private preprocess(crop: ImageData): Float32Array {
+    const { width, height, data } = crop;
+    const planeSize = width * height;
+    const input = new Float32Array(3 * planeSize);
+
+    for (let i = 0; i < planeSize; i++) {
+      for (let c = 0; c < 3; c++) {
+        input[c * planeSize + i] = (data[i * 4 + c] / 255 - this.mean[c]) / this.std[c];
+      }
+    }
+    return input;
+  }
+
+  dispose(): void {
+    if (this.session) {
+      this.session.release();
+      this.session = null;
+    }
+  }
+}
+
+/**
+ * Use the local re-ID model if one is installed, otherwise fall back to colour histograms
+ */
+export async function createAppearanceExtractor(modelPath: string = DEFAULT_REID_MODEL_PATH): Promise<AppearanceExtractor> {
+  const reid = new OnnxReidExtractor(modelPath);
+  try {
+    await reid.initialize();
+    return reid;
+  } catch (error) {
+    // console.warn('Re-ID model unavailable, using colour histogram appearance:', error);
+    const fallback = new ColorHistogramExtractor();
+    await fallback.initialize();
+    return fallback;
+  }
+}
@@ -1,5 +1,12 @@
 import { ByteTracker } from './bytetrack-proper/byte-tracker';
-import { BoundingBox, Detection } from '@/types';
+import { TrackerStats, TrackParams } from './bytetrack-proper/types';
+import { interpolateFaceLandmarks, translateFaceLandmarks } from './face-landmarks';
+import { interpolatePose } from './pose-utils';
+import { estimateBoxMotion, moveWithFlow, MIN_FLOW_CONFIDENCE } from '@/lib/video/optical-flow';
+import { AffineTransform, BoundingBox, Detection, FlowSegment } from '@/types';
+
+// Flow that ends further than this share of the box size from the next keyframe box has drifted off the subject
+const MAX_FLOW_DRIFT = 0.5;
 
 interface TrackSegment {
   trackId: string;
@@ -8,32 +15,39 @@ interface TrackSegment {
   endFrame: number;
 }
 
+type FlowBox = Pick<BoundingBox, 'x' | 'y' | 'width' | 'height' | 'headCenterX' | 'headCenterY'>;
+
 export class ByteTrackInterpolator {
   private byteTracker: ByteTracker;
   private detections: Map<number, Detection> = new Map();
   private trackSegments: Map<string, TrackSegment> = new Map();
+  private shotStarts: number[] = [0];
+  private flowSegments: Map<number, FlowSegment> = new Map();
+  private flowPaths: Map<string, FlowBox[] | null> = new Map();
   
-  constructor(byteTrackerParams?: any) {
+  constructor(byteTrackerParams?: Partial<TrackParams>) {
     // console.log('ByteTrackInterpolator constructor called with params:', byteTrackerParams);
     this.byteTracker = new ByteTracker(byteTrackerParams);
   }
   
   /**
-   * Process a frame with ByteTracker and store the result
+   * Process a frame with ByteTracker and store the result.
+   * cameraMotion is the camera's motion since the previous processed frame.
    */
-  processFrame(boxes: BoundingBox[], frameNumber: number, timestamp: number): Detection {
+  processFrame(boxes: BoundingBox[], frameNumber: number, timestamp: number, cameraMotion?: AffineTransform | null): Detection {
     if (frameNumber === 213) {
       // console.log(`Frame 213: ByteTrackInterpolator.processFrame`);
     }
     
     // Run ByteTracker to get tracked boxes
-    const trackedBoxes = this.byteTracker.update(boxes, frameNumber);
+    const trackedBoxes = this.byteTracker.update(boxes, frameNumber, cameraMotion);
     
     // Create detection object
     const detection: Detection = {
       frameNumber,
       timestamp,
-      boxes: trackedBoxes
+      boxes: trackedBoxes,
+      isKeyframe: true
     };
     
     // Store detection
@@ -41,10 +55,48 @@ export class ByteTrackInterpolator {
     
     // Update track segments
     this.updateTrackSegments(trackedBoxes, frameNumber);
+    this.flowPaths.clear();
     
     return detection;
   }
   
+  /**
+   * Reset tracking at a hard cut. Interpolation never crosses a shot boundary.
+   */
+  startNewShot(frameNumber: number): void {
+    this.byteTracker.startNewShot();
+    if (!this.shotStarts.includes(frameNumber)) {
+      this.shotStarts.push(frameNumber);
+      this.shotStarts.sort((a, b) => a - b);
+    }
+  }
+  
+  /**
+   * Optical flow recorded from a keyframe to the next, used to move boxes
+   * between keyframes with the actual pixels
+   */
+  addFlowSegment(segment: FlowSegment): void {
+    this.flowSegments.set(segment.startFrame, segment);
+    this.flowPaths.clear();
+  }
+  
+  /**
+   * First and last frame of the shot containing a frame
+   */
+  private getShotRange(frameNumber: number): [number, number] {
+    let start = 0;
+    let end = Infinity;
+    for (const shotStart of this.shotStarts) {
+      if (shotStart <= frameNumber) {
+        start = shotStart;
+      } else {
+        end = shotStart - 1;
+        break;
+      }
+    }
+    return [start, end];
+  }
+  
   /**
    * Update track segments for interpolation
    */
@@ -96,6 +148,7 @@ export class ByteTrackInterpolator {
    */
   private interpolateFrame(frameNumber: number, fps: number): Detection | null {
     const interpolatedBoxes: BoundingBox[] = [];
+    const [shotStart, shotEnd] = this.getShotRange(frameNumber);
     
     // Check each track segment
     for (const segment of this.trackSegments.values()) {
@@ -108,16 +161,16 @@ export class ByteTrackInterpolator {
       let prevFrame: number | null = null;
       let nextFrame: number | null = null;
       
-      // Find closest previous frame
-      for (let f = frameNumber - 1; f >= segment.startFrame; f--) {
+      // Find closest previous frame within the same shot
+      for (let f = frameNumber - 1; f >= Math.max(segment.startFrame, shotStart); f--) {
         if (segment.frames.has(f)) {
           prevFrame = f;
           break;
         }
       }
       
-      // Find closest next frame
-      for (let f = frameNumber + 1; f <= segment.endFrame; f++) {
+      // Find closest next frame within the same shot
+      for (let f = frameNumber + 1; f <= Math.min(segment.endFrame, shotEnd); f++) {
         if (segment.frames.has(f)) {
           nextFrame = f;
           break;
@@ -154,6 +207,27 @@ export class ByteTrackInterpolator {
           interpolatedBox.headCenterX = prevBox.headCenterX;
           interpolatedBox.headCenterY = prevBox.headCenterY;
         }
+
+        // Interpolate face landmarks, or carry a one-sided face along with the box
+        if (prevBox.face && nextBox.face) {
+          interpolatedBox.face = interpolateFaceLandmarks(prevBox.face, nextBox.face, easedProgress);
+        } else if (prevBox.face || nextBox.face) {
+          const sourceBox = prevBox.face ? prevBox : nextBox;
+          interpolatedBox.face = translateFaceLandmarks(
+            sourceBox.face!,
+            interpolatedBox.x - sourceBox.x,
+            interpolatedBox.y - sourceBox.y
+          );
+        }
+        
+        // Interpolate body keypoints, torso center and facing
+        Object.assign(interpolatedBox, interpolatePose(prevBox, nextBox, easedProgress));
+        
+        // Follow the pixels where flow is reliable; easing stays the fallback
+        const flowPath = this.getFlowPath(prevBox, nextBox, prevFrame, nextFrame);
+        if (flowPath) {
+          this.moveToFlowBox(interpolatedBox, flowPath[frameNumber - prevFrame]);
+        }
         
         interpolatedBoxes.push(interpolatedBox);
       } else if (prevFrame !== null) {
@@ -187,13 +261,143 @@ export class ByteTrackInterpolator {
       return {
         frameNumber,
         timestamp: frameNumber / fps,
-        boxes: interpolatedBoxes
+        boxes: interpolatedBoxes,
+        isKeyframe: false
       };
     }
     
     return null;
   }
   
+  /**
+   * Box and head center carried by optical flow from one keyframe to the
+   * next, frame by frame, with the drift left at the next keyframe spread
+   * evenly over the gap. Null when flow is missing for part of the gap, its
+   * confidence drops too low or it ends up far from the next keyframe box.
+   */
+  private getFlowPath(prevBox: BoundingBox, nextBox: BoundingBox, prevFrame: number, nextFrame: number): FlowBox[] | null {
+    const key = `${prevBox.trackId}:${prevFrame}:${nextFrame}`;
+    if (this.flowPaths.has(key)) {
+      return this.flowPaths.get(key)!;
+    }
+    
+    const path = this.followFlow(prevBox, prevFrame, nextFrame);
+    let corrected: FlowBox[] | null = null;
+    if (path) {
+      const end = path[path.length - 1];
+      const driftX = nextBox.x + nextBox.width / 2 - (end.x + end.width / 2);
+      const driftY = nextBox.y + nextBox.height / 2 - (end.y + end.height / 2);
+      if (Math.hypot(driftX, driftY) <= MAX_FLOW_DRIFT * Math.max(nextBox.width, nextBox.height)) {
+        corrected = path.map((box, i) => {
+          const t = i / (path.length - 1);
+          const correctedBox: FlowBox = {
+            x: box.x + (nextBox.x - end.x) * t,
+            y: box.y + (nextBox.y - end.y) * t,
+            width: box.width + (nextBox.width - end.width) * t,
+            height: box.height + (nextBox.height - end.height) * t
+          };
+          if (box.headCenterX !== undefined && box.headCenterY !== undefined) {
+            const hasNextHead = nextBox.headCenterX !== undefined && nextBox.headCenterY !== undefined &&
+              end.headCenterX !== undefined && end.headCenterY !== undefined;
+            correctedBox.headCenterX = box.headCenterX + (hasNextHead ? (nextBox.headCenterX! - end.headCenterX!) * t : 0);
+            correctedBox.headCenterY = box.headCenterY + (hasNextHead ? (nextBox.headCenterY! - end.headCenterY!) * t : 0);
+          }
+          return correctedBox;
+        });
+      }
+    }
+    
+    this.flowPaths.set(key, corrected);
+    return corrected;
+  }
+  
+  /**
+   * Move a box with the flow from one frame to a later one, chaining the
+   * segments of the keyframes in between
+   */
+  private followFlow(box: BoundingBox, fromFrame: number, toFrame: number): FlowBox[] | null {
+    let segment = this.flowSegments.get(fromFrame);
+    let anchor: FlowBox = box;
+    const path: FlowBox[] = [box];
+    
+    for (let frame = fromFrame + 1; frame <= toFrame; frame++) {
+      if (segment && frame >= segment.startFrame + segment.frameCount) {
+        // The next segment starts on the last frame of this one
+        const lastFrame = segment.startFrame + segment.frameCount - 1;
+        segment = this.flowSegments.get(lastFrame);
+        anchor = path[lastFrame - fromFrame];
+      }
+      if (!segment) return null;
+      
+      const motion = estimateBoxMotion(segment, anchor, frame);
+      if (!motion || motion.confidence < MIN_FLOW_CONFIDENCE) return null;
+      
+      const topLeft = moveWithFlow(anchor, motion, anchor.x, anchor.y);
+      const moved: FlowBox = {
+        x: topLeft.x,
+        y: topLeft.y,
+        width: anchor.width * motion.scale,
+        height: anchor.height * motion.scale
+      };
+      if (anchor.headCenterX !== undefined && anchor.headCenterY !== undefined) {
+        const head = moveWithFlow(anchor, motion, anchor.headCenterX, anchor.headCenterY);
+        moved.headCenterX = head.x;
+        moved.headCenterY = head.y;
+      }
+      path.push(moved);
+    }
+    
+    return path;
+  }
+  
+  /**
+   * Put an eased box where the flow says it is. Face and pose move along with it.
+   */
+  private moveToFlowBox(box: BoundingBox, flowBox: FlowBox): void {
+    const shiftX = flowBox.x + flowBox.width / 2 - (box.x + box.width / 2);
+    const shiftY = flowBox.y + flowBox.height / 2 - (box.y + box.height / 2);
+    
+    box.x = flowBox.x;
+    box.y = flowBox.y;
+    box.width = flowBox.width;
+    box.height = flowBox.height;
+    if (flowBox.headCenterX !== undefined && flowBox.headCenterY !== undefined) {
+      box.headCenterX = flowBox.headCenterX;
+      box.headCenterY = flowBox.headCenterY;
+    }
+    if (box.face) {
+      box.face = translateFaceLandmarks(box.face, shiftX, shiftY);
+    }
+    if (box.keypoints) {
+      box.keypoints = box.keypoints.map(point => ({ ...point, x: point.x + shiftX, y: point.y + shiftY }));
+    }
+    if (box.torsoCenterX !== undefined && box.torsoCenterY !== undefined) {
+      box.torsoCenterX += shiftX;
+      box.torsoCenterY += shiftY;
+    }
+  }
+  
+  /**
+   * Frames that went through the tracker with real detections, in order
+   */
+  getKeyframes(): number[] {
+    return Array.from(this.detections.keys()).sort((a, b) => a - b);
+  }
+  
+  /**
+   * Whether a frame has real detections rather than interpolated boxes
+   */
+  isKeyframe(frameNumber: number): boolean {
+    return this.detections.has(frameNumber);
+  }
+  
+  /**
+   * Tracker stats from the last processed keyframe
+   */
+  getTrackerStats(): TrackerStats {
+    return this.byteTracker.getStats();
+  }
+  
   /**
    * Cubic ease-in-out function for smooth interpolation
    */
@@ -210,5 +414,8 @@ export class ByteTrackInterpolator {
     this.byteTracker.reset();
     this.detections.clear();
     this.trackSegments.clear();
+    this.shotStarts = [0];
+    this.flowSegments.clear();
+    this.flowPaths.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { linearAssignment } from '../matching';
+
+// Cost of a matching relative to leaving everything unmatched
+function matchingCost(costMatrix: number[][], matches: number[][], threshold: number): number {
+  return matches.reduce((sum, [i, j]) => sum + costMatrix[i][j] - threshold, 0);
+}
+
+// Best cost over every partial matching that only uses pairs below threshold
+function bruteForceCost(costMatrix: number[][], threshold: number): number {
+  const nCols = costMatrix[0]?.length ?? 0;
+  const usedCols = new Set<number>();
+
+  const search = (row: number): number => {
+    if (row === costMatrix.length) return 0;
+    let best = search(row + 1); // Leave this row unmatched
+    for (let j = 0; j < nCols; j++) {
+      if (usedCols.has(j) || costMatrix[row][j] >= threshold) continue;
+      usedCols.add(j);
+      best = Math.min(best, costMatrix[row][j] - threshold + search(row + 1));
+      usedCols.delete(j);
+    }
+    return best;
+  };
+
+  return search(0);
+}
+
+function randomMatrix(rows: number, cols: number, seed: number): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+  return Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, () => (random() < 0.4 ? 1 : random()))
+  );
+}
+
+describe('linearAssignment', () => {
+  it('should find the optimal matching below the threshold', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const rows = 1 + (seed % 5);
+      const cols = 1 + ((seed * 7) % 6);
+      const costMatrix = randomMatrix(rows, cols, seed);
+
+      const [matches] = linearAssignment(costMatrix, 0.8, cols);
+
+      expect(matchingCost(costMatrix, matches, 0.8)).toBeCloseTo(bruteForceCost(costMatrix, 0.8), 10);
+    }
+  });
+
+  it('should never match a pair at or above the threshold', () => {
+    const costMatrix = [
+      [0.9, 0.2],
+      [0.8, 0.95]
+    ];
+
+    const [matches, unmatchedRows, unmatchedCols] = linearAssignment(costMatrix, 0.8);
+
+    expect(matches).toEqual([[0, 1]]);
+    expect(unmatchedRows).toEqual([1]);
+    expect(unmatchedCols).toEqual([0]);
+  });
+
+  it('should solve independent groups of rows and columns separately', () => {
+    // Two clusters that never compete: rows 0-1 with cols 0-1, rows 2-3 with cols 2-3
+    const costMatrix = [
+      [0.1, 0.3, 1, 1],
+      [0.2, 0.6, 1, 1],
+      [1, 1, 0.5, 0.1],
+      [1, 1, 0.2, 0.7]
+    ];
+
+    const [matches] = linearAssignment(costMatrix, 0.8);
+
+    expect(matches).toEqual([[0, 1], [1, 0], [2, 3], [3, 2]]);
+  });
+
+  it('should report every column as unmatched when there are no rows', () => {
+    const [matches, unmatchedRows, unmatchedCols] = linearAssignment([], 0.8, 3);
+
+    expect(matches).toEqual([]);
+    expect(unmatchedRows).toEqual([]);
+    expect(unmatchedCols).toEqual([0, 1, 2]);
+  });
+
+  it('should handle more rows than columns', () => {
+    const costMatrix = [[0.5], [0.1], [0.3]];
+
+    const [matches, unmatchedRows] = linearAssignment(costMatrix, 0.8);
+
+    expect(matches).toEqual([[1, 0]]);
+    expect(unmatchedRows).toEqual([0, 2]);
+  });
+});
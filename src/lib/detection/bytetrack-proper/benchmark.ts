@@ -0,0 +1,140 @@
+import { ByteTracker } from './byte-tracker';
+import { calcIoU, linearAssignment } from './matching';
+import { BoundingBox } from '@/types';
+
+export interface TrackerBenchmarkOptions {
+  people: number;
+  frames: number;
+  missRate?: number; // Share of detections dropped per frame
+  seed?: number;
+}
+
+export interface TrackerBenchmarkResult {
+  people: number;
+  frames: number;
+  msPerFrame: number; // ByteTracker.update only
+  idSwitches: number; // Against the simulated ground truth
+}
+
+export interface AssignmentBenchmarkResult {
+  size: number;
+  msPerCall: number;
+  matches: number;
+}
+
+interface SimulatedPerson {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  width: number;
+  height: number;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Time ByteTracker on a synthetic crowd of people walking across a large frame,
+ * with missed detections and noisy confidences. Run from a dev console or a
+ * script to compare tracker changes, e.g. benchmarkTracker({ people: 200, frames: 100 }).
+ */
+export function benchmarkTracker(options: TrackerBenchmarkOptions): TrackerBenchmarkResult {
+  const { people, frames, missRate = 0.05, seed = 42 } = options;
+  const random = createRandom(seed);
+
+  // Room for everyone at roughly constant density
+  const side = Math.ceil(Math.sqrt(people));
+  const frameWidth = side * 160;
+  const frameHeight = side * 200;
+
+  const crowd: SimulatedPerson[] = Array.from({ length: people }, (_, i) => ({
+    x: (i % side) * 160 + 40 + random() * 40,
+    y: Math.floor(i / side) * 200 + 40 + random() * 40,
+    vx: (random() - 0.5) * 4,
+    vy: (random() - 0.5) * 2,
+    width: 40 + random() * 20,
+    height: 100 + random() * 40
+  }));
+
+  const tracker = new ByteTracker({ trackThresh: 0.3, lowThresh: 0.1, matchThresh: 0.8, minBoxArea: 100 });
+  const assignedIds = new Map<number, string>();
+  let idSwitches = 0;
+  let elapsed = 0;
+
+  for (let frame = 0; frame < frames; frame++) {
+    const boxes: BoundingBox[] = [];
+    const personOfBox: number[] = [];
+
+    crowd.forEach((person, index) => {
+      person.x = Math.min(frameWidth - person.width, Math.max(0, person.x + person.vx));
+      person.y = Math.min(frameHeight - person.height, Math.max(0, person.y + person.vy));
+      if (random() < missRate) return;
+
+      boxes.push({
+        x: person.x + (random() - 0.5) * 2,
+        y: person.y + (random() - 0.5) * 2,
+        width: person.width,
+        height: person.height,
+        confidence: 0.25 + random() * 0.7,
+        class: 'person',
+        classId: 0
+      });
+      personOfBox.push(index);
+    });
+
+    const start = now();
+    const tracked = tracker.update(boxes, frame);
+    elapsed += now() - start;
+
+    // Count ground-truth people whose track ID changed
+    boxes.forEach((box, i) => {
+      const input = [box.x, box.y, box.x + box.width, box.y + box.height];
+      const match = tracked.find(t => calcIoU(input, [t.x, t.y, t.x + t.width, t.y + t.height]) > 0.7);
+      if (!match?.trackId) return;
+
+      const previous = assignedIds.get(personOfBox[i]);
+      if (previous && previous !== match.trackId) idSwitches++;
+      assignedIds.set(personOfBox[i], match.trackId);
+    });
+  }
+
+  return { people, frames, msPerFrame: elapsed / frames, idSwitches };
+}
+
+/**
+ * Time linearAssignment on an IoU-like cost matrix where people overlap in small
+ * clusters of clusterSize and everything else costs 1. clusterSize = size is the
+ * dense worst case.
+ */
+export function benchmarkAssignment(size: number, clusterSize = 4, repeats = 10, seed = 7): AssignmentBenchmarkResult {
+  const random = createRandom(seed);
+  const costMatrix = Array.from({ length: size }, (_, i) => {
+    const row = new Array<number>(size).fill(1);
+    const clusterStart = i - (i % clusterSize);
+    for (let j = clusterStart; j < Math.min(size, clusterStart + clusterSize); j++) {
+      row[j] = j === i ? random() * 0.3 : 0.5 + random() * 0.5;
+    }
+    return row;
+  });
+
+  // Warm up so the timing doesn't include compilation
+  linearAssignment(costMatrix, 0.8, size);
+
+  let matches = 0;
+  const start = now();
+  for (let r = 0; r < repeats; r++) {
+    matches = linearAssignment(costMatrix, 0.8, size)[0].length;
+  }
+
+  return { size, msPerCall: (now() - start) / repeats, matches };
+}
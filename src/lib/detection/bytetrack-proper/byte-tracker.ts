@@ -1,22 +1,29 @@
 import { STrack } from './strack';
-import { iouDistance, fuseScore, linearAssignment } from './matching';
-import { TrackState, Detection, TrackParams } from './types';
-import { BoundingBox } from '@/types';
+import { calcIoU, iouDistance, fuseScore, linearAssignment, embeddingDistance, fuseMotionAppearance, reidDistance } from './matching';
+import { TrackState, Detection, TrackParams, TrackerStats } from './types';
+import { AffineTransform, BoundingBox, TrackerEvent } from '@/types';
 
 export class ByteTracker {
   private trackedStracks: STrack[] = [];
   private lostStracks: STrack[] = [];
   private removedStracks: STrack[] = [];
-  private frameId: number = 0;
+  private frameId: number = 0; // Video frame of the last update
+  private updateCount: number = 0;
+  private shotStarting: boolean = false;
   private params: TrackParams;
+  private stats: TrackerStats = { tracked: 0, lost: 0, newTracks: 0, lostTracks: 0, meanUncertainty: 0 };
   
   constructor(params: Partial<TrackParams> = {}) {
     this.params = {
-      trackThresh: params.trackThresh || 0.5,
-      trackBuffer: params.trackBuffer || 30,
-      matchThresh: params.matchThresh || 0.8,
-      minBoxArea: params.minBoxArea || 10,
-      lowThresh: params.lowThresh || 0.1
+      trackThresh: params.trackThresh ?? 0.5,
+      trackBuffer: params.trackBuffer ?? 30,
+      matchThresh: params.matchThresh ?? 0.8,
+      minBoxArea: params.minBoxArea ?? 10,
+      lowThresh: params.lowThresh ?? 0.1,
+      appearanceThresh: params.appearanceThresh ?? 0.15,
+      proximityThresh: params.proximityThresh ?? 0.5,
+      reidBuffer: params.reidBuffer ?? 300,
+      cameraMotionCompensation: params.cameraMotionCompensation ?? true
     };
     
     // console.log('ByteTracker initialized with params:', this.params);
@@ -25,10 +32,19 @@ export class ByteTracker {
   }
 
   /**
-   * Update tracker with new detections
+   * Update tracker with new detections.
+   * frameNumber is the video frame; updates may skip frames, and motion
+   * prediction and the lost-track buffers follow the frames that passed.
+   * Without it every update is taken as the next frame.
+   * cameraMotion maps the previous update's image coordinates to this frame's.
    */
-  update(boxes: BoundingBox[], frameNumber?: number): BoundingBox[] {
-    this.frameId++;
+  update(boxes: BoundingBox[], frameNumber?: number, cameraMotion?: AffineTransform | null): BoundingBox[] {
+    const frame = frameNumber ?? this.frameId + 1;
+    const frameDelta = this.updateCount > 0 ? Math.max(1, frame - this.frameId) : 1;
+    this.frameId = frame;
+    this.updateCount++;
+    const isShotStart = this.shotStarting;
+    this.shotStarting = false;
     
     if (frameNumber && frameNumber >= 210 && frameNumber <= 214) {
       // console.log(`Frame ${frameNumber}: ByteTracker.update - frameId=${this.frameId}, input boxes: ${boxes.length}`);
@@ -44,8 +60,10 @@ export class ByteTracker {
       bbox: [box.x, box.y, box.x + box.width, box.y + box.height], // Convert to tlbr
       score: box.confidence,
       class: box.class,
+      classId: box.classId,
       headCenterX: box.headCenterX,
-      headCenterY: box.headCenterY
+      headCenterY: box.headCenterY,
+      embedding: box.embedding
     }));
     
     // Filter detections by area
@@ -72,13 +90,15 @@ export class ByteTracker {
     }
     
     // Initialize new tracks for first frame
-    if (this.frameId === 1) {
+    if (this.updateCount === 1) {
       const activatedStracks: STrack[] = [];
       for (const det of highDetections) {
         const track = STrack.fromDetection(det, this.frameId);
+        track.isActivated = true;
         activatedStracks.push(track);
       }
       this.trackedStracks = activatedStracks;
+      this.updateStats(activatedStracks.length, 0);
       return this.convertToOutput(this.trackedStracks);
     }
     
@@ -87,16 +107,23 @@ export class ByteTracker {
       // console.log(`Frame 213: Current tracked: ${this.trackedStracks.length}, lost: ${this.lostStracks.length}`);
     }
     
-    // Predict current tracks
+    // Predict current tracks, one motion step per video frame since the last update.
+    // The re-ID gallery is predicted too, so its gate widens the longer a track is gone.
     const strack_pool = [...this.trackedStracks, ...this.lostStracks];
-    for (const track of strack_pool) {
-      track.predict();
+    STrack.multiPredict([...strack_pool, ...this.removedStracks], frameDelta);
+    
+    // The Kalman model assumes a static camera; move predictions with the pan before IoU matching
+    if (cameraMotion && this.params.cameraMotionCompensation) {
+      for (const track of [...strack_pool, ...this.removedStracks]) {
+        track.applyCameraMotion(cameraMotion);
+      }
     }
     
     const activatedStracks: STrack[] = [];
     const refindStracks: STrack[] = [];
     const lostStracks: STrack[] = [];
     const removedStracks: STrack[] = [];
+    const events = new Map<STrack, TrackerEvent>(); // For track quality diagnostics
     
     /** Step 1: First association with high score detections */
     const unconfirmedStracks: STrack[] = [];
@@ -116,8 +143,18 @@ export class ByteTracker {
     
     // Associate confirmed tracks with high detections
     const dists = iouDistance(trackedStracks, highDetections);
-    const fusedDists = fuseScore(dists, highDetections);
-    const [matches, uTrackIdx, uDetIdx] = linearAssignment(fusedDists, this.params.matchThresh);
+    let fusedDists = fuseScore(dists, highDetections);
+    if (highDetections.some(det => det.embedding)) {
+      // Appearance disambiguates people who overlap or cross each other
+      fusedDists = fuseMotionAppearance(
+        fusedDists,
+        dists,
+        embeddingDistance(trackedStracks, highDetections),
+        this.params.proximityThresh,
+        this.params.appearanceThresh
+      );
+    }
+    const [matches, uTrackIdx, uDetIdx] = linearAssignment(fusedDists, this.params.matchThresh, highDetections.length);
     
     // Update matched tracks
     for (const [itrack, idet] of matches) {
@@ -156,8 +193,9 @@ export class ByteTracker {
       }
       
       // Update remaining unmatched tracks
+      const matchedRemaining = new Set(matches2.map(m => m[0]));
       for (let i = 0; i < remainingTracks.length; i++) {
-        if (!matches2.some(m => m[0] === i)) {
+        if (!matchedRemaining.has(i)) {
           lostStracks.push(remainingTracks[i]);
         }
       }
@@ -176,7 +214,7 @@ export class ByteTracker {
     }
     
     const dists3 = iouDistance(unconfirmedStracks, remainingHighDets);
-    const [matches3, uTrackIdx3, uDetIdx3] = linearAssignment(dists3, 0.7);
+    const [matches3, uTrackIdx3, uDetIdx3] = linearAssignment(dists3, 0.7, remainingHighDets.length);
     
     for (const [itrack, idet] of matches3) {
       const track = unconfirmedStracks[itrack];
@@ -192,26 +230,53 @@ export class ByteTracker {
       removedStracks.push(track);
     }
     
-    /** Step 4: Init new tracks */
-    const newDetIdx = uDetIdx3.map(i => remainDetIdx[i]);
+    /**
+     * Step 4: Re-identify lost and removed tracks before creating new ones.
+     * Only tracks gone for at most reidBuffer frames whose predicted position
+     * gates the detection compete, on fused motion and appearance cost.
+     */
+    let newDetIdx = uDetIdx3.map(i => remainDetIdx[i]);
+    
+    const reidCandidates = [...this.lostStracks, ...this.removedStracks]
+      .filter(t => t.smoothFeature && this.frameId - t.frameId <= this.params.reidBuffer);
+    const reidDetections = newDetIdx.map(i => highDetections[i]);
+    if (reidCandidates.length > 0 && reidDetections.some(det => det.embedding)) {
+      const reidDists = reidDistance(reidCandidates, reidDetections, this.params.appearanceThresh);
+      const [reidMatches, , uDetIdxReid] = linearAssignment(reidDists, 1, reidDetections.length);
+      
+      for (const [itrack, idet] of reidMatches) {
+        const track = reidCandidates[itrack];
+        track.reActivate(reidDetections[idet], this.frameId, false);
+        refindStracks.push(track);
+        events.set(track, 'reidentified');
+      }
+      
+      newDetIdx = uDetIdxReid.map(i => newDetIdx[i]);
+    }
+    
+    /** Step 5: Init new tracks */
     const newDetections = newDetIdx.map(i => highDetections[i]);
     
     if (frameNumber === 213) {
-      // console.log(`Frame 213: Step 4 - New detections to track: ${newDetections.length}`);
+      // console.log(`Frame 213: Step 5 - New detections to track: ${newDetections.length}`);
     }
     
+    let newTrackCount = 0;
     for (const det of newDetections) {
       const track = STrack.fromDetection(det, this.frameId);
+      newTrackCount++;
       if (frameNumber === 213) {
         // console.log(`Frame 213: Creating new track, isActivated=${track.isActivated}`);
       }
-      if (!track.isActivated) {
-        activatedStracks.push(track);
+      if (isShotStart) {
+        // First frame of a shot behaves like the first frame of the video
+        track.isActivated = true;
       }
+      activatedStracks.push(track);
     }
     
-    /** Step 5: Associate with lost tracks */
-    const allLostTracks = [...this.lostStracks, ...lostStracks];
+    /** Step 6: Associate with lost tracks */
+    const allLostTracks = [...this.lostStracks, ...lostStracks].filter(t => t.state === TrackState.Lost);
     const dists4 = iouDistance(allLostTracks, highDetections);
     const [matches4, uTrackIdx4, _] = linearAssignment(dists4, this.params.matchThresh);
     
@@ -220,6 +285,7 @@ export class ByteTracker {
       const det = highDetections[idet];
       track.reActivate(det, this.frameId, false);
       refindStracks.push(track);
+      events.set(track, 'refound');
     }
     
     // Remove lost tracks that exceed buffer
@@ -231,7 +297,7 @@ export class ByteTracker {
       }
     }
     
-    /** Step 6: Update track states */
+    /** Step 7: Update track states */
     // Merge track lists
     this.trackedStracks = this.jointStracks(
       this.jointStracks(activatedStracks, refindStracks),
@@ -243,9 +309,16 @@ export class ByteTracker {
     this.lostStracks = this.subStracks(allLostTracks, this.trackedStracks);
     this.lostStracks = this.subStracks(this.lostStracks, removedStracks);
     
+    // Keep removed tracks with an appearance feature as a re-ID gallery
+    this.removedStracks = this.subStracks([...this.removedStracks, ...removedStracks], this.trackedStracks)
+      .filter(t => t.state === TrackState.Removed && t.isActivated && t.smoothFeature &&
+        this.frameId - t.frameId <= this.params.reidBuffer);
+    
     // Remove duplicate tracks
     this.removeDuplicateStracks();
     
+    this.updateStats(newTrackCount, lostStracks.filter(t => t.state === TrackState.Lost).length);
+    
     // Get output tracks
     const outputStracks = this.trackedStracks.filter(track => track.isActivated);
     
@@ -253,7 +326,7 @@ export class ByteTracker {
       // console.log(`Frame 213: ByteTracker output - detections: ${boxes.length}, tracked: ${outputStracks.length}, lost: ${this.lostStracks.length}`);
     }
     
-    const output = this.convertToOutput(outputStracks);
+    const output = this.convertToOutput(outputStracks, events);
     
     if (frameNumber === 213) {
       output.forEach((box, i) => {
@@ -264,6 +337,31 @@ export class ByteTracker {
     return output;
   }
 
+  /**
+   * Summarize tracker state for schedulers and diagnostics
+   */
+  private updateStats(newTracks: number, lostTracks: number): void {
+    const active = this.trackedStracks.filter(t => t.isActivated);
+    const meanUncertainty = active.length > 0
+      ? active.reduce((sum, t) => sum + t.positionUncertainty, 0) / active.length
+      : 0;
+    
+    this.stats = {
+      tracked: active.length,
+      lost: this.lostStracks.length,
+      newTracks,
+      lostTracks,
+      meanUncertainty
+    };
+  }
+
+  /**
+   * Stats from the last update
+   */
+  getStats(): TrackerStats {
+    return { ...this.stats };
+  }
+
   /**
    * Remove duplicate tracks with high IoU
    */
@@ -273,6 +371,8 @@ export class ByteTracker {
     
     for (let i = 0; i < ious.length; i++) {
       for (let j = i + 1; j < ious[i].length; j++) {
+        // A ball in front of a player is not a duplicate
+        if (this.trackedStracks[i].class !== this.trackedStracks[j].class) continue;
         if (ious[i][j] > 0.15) {
           pairs.push([i, j]);
         }
@@ -298,30 +398,11 @@ export class ByteTracker {
    * Calculate IoU matrix between two track lists
    */
   private calcIoUs(tracks1: STrack[], tracks2: STrack[]): number[][] {
-    const ious: number[][] = [];
-    
-    for (const track1 of tracks1) {
-      const row: number[] = [];
-      for (const track2 of tracks2) {
-        const [x1_1, y1_1, x2_1, y2_1] = track1.tlbr;
-        const [x1_2, y1_2, x2_2, y2_2] = track2.tlbr;
-        
-        const xi1 = Math.max(x1_1, x1_2);
-        const yi1 = Math.max(y1_1, y1_2);
-        const xi2 = Math.min(x2_1, x2_2);
-        const yi2 = Math.min(y2_1, y2_2);
-        
-        const interArea = Math.max(0, xi2 - xi1) * Math.max(0, yi2 - yi1);
-        const box1Area = (x2_1 - x1_1) * (y2_1 - y1_1);
-        const box2Area = (x2_2 - x1_2) * (y2_2 - y1_2);
-        const unionArea = box1Area + box2Area - interArea;
-        
-        row.push(unionArea > 0 ? interArea / unionArea : 0);
-      }
-      ious.push(row);
-    }
-    
-    return ious;
+    const boxes2 = tracks2.map(track => track.tlbr);
+    return tracks1.map(track1 => {
+      const box1 = track1.tlbr;
+      return boxes2.map(box2 => calcIoU(box1, box2));
+    });
   }
 
   /**
@@ -356,7 +437,7 @@ export class ByteTracker {
   /**
    * Convert STrack to BoundingBox output
    */
-  private convertToOutput(tracks: STrack[]): BoundingBox[] {
+  private convertToOutput(tracks: STrack[], events: Map<STrack, TrackerEvent> = new Map()): BoundingBox[] {
     return tracks.map(track => {
       const [x, y, w, h] = track.tlwh;
       const box: BoundingBox = {
@@ -365,11 +446,17 @@ export class ByteTracker {
         width: w,
         height: h,
         class: track.class,
-        classId: 0, // person class
+        classId: track.classId,
         confidence: track.score,
-        trackId: `${track.trackId}`
+        trackId: `${track.trackId}`,
+        trackUncertainty: track.positionUncertainty
       };
       
+      const event = events.get(track);
+      if (event) {
+        box.trackerEvent = event;
+      }
+      
       // Preserve head center if available
       if (track.headCenterX !== undefined && track.headCenterY !== undefined) {
         box.headCenterX = track.headCenterX;
@@ -380,6 +467,22 @@ export class ByteTracker {
     });
   }
 
+  /**
+   * Start a new shot after a hard cut.
+   * Neither motion state nor the re-ID gallery carries across a cut, so every
+   * track is dropped and people in the new shot get new IDs. The ID counter
+   * is not reset, so IDs stay unique across shots.
+   */
+  startNewShot(): void {
+    for (const track of [...this.trackedStracks, ...this.lostStracks]) {
+      track.markRemoved();
+    }
+    this.trackedStracks = [];
+    this.lostStracks = [];
+    this.removedStracks = [];
+    this.shotStarting = true;
+  }
+
   /**
    * Reset tracker state
    */
@@ -388,6 +491,9 @@ export class ByteTracker {
     this.lostStracks = [];
     this.removedStracks = [];
     this.frameId = 0;
+    this.updateCount = 0;
+    this.shotStarting = false;
+    this.stats = { tracked: 0, lost: 0, newTracks: 0, lostTracks: 0, meanUncertainty: 0 };
     STrack.resetId();
   }
 }
\ No newline at end of file
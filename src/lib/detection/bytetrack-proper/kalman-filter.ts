@@ -1,50 +1,59 @@
+import { AffineTransform } from '@/types';
+
+// State: [x, y, a, h, vx, vy, va, vh] where x,y is center position, a is aspect ratio, h is height
+const STATE_DIM = 8;
+const MEASURE_DIM = 4;
+
+// 95% quantile of the chi-square distribution with 2 degrees of freedom, for center-only gating
+export const CHI2_95_POSITION = 5.9915;
+
+// Scratch buffers for update; tracking runs on one thread and never re-enters
+const innovationCovariance = new Float64Array(MEASURE_DIM * MEASURE_DIM);
+const choleskyFactor = new Float64Array(MEASURE_DIM * MEASURE_DIM);
+const gain = new Float64Array(STATE_DIM * MEASURE_DIM);
+const measuredRows = new Float64Array(MEASURE_DIM * STATE_DIM);
+const innovation = new Float64Array(MEASURE_DIM);
+const solveBuffer = new Float64Array(MEASURE_DIM);
+
+// Scratch buffers for smooth
+const predictedFactor = new Float64Array(STATE_DIM * STATE_DIM);
+const smootherGain = new Float64Array(STATE_DIM * STATE_DIM);
+const stateColumn = new Float64Array(STATE_DIM);
+const stateDelta = new Float64Array(STATE_DIM);
+const covarianceDelta = new Float64Array(STATE_DIM * STATE_DIM);
+const gainTimesDelta = new Float64Array(STATE_DIM * STATE_DIM);
+
+/**
+ * Constant-velocity Kalman filter on Float64Array state.
+ * Mean is 8 values, covariance 8x8 row-major. predict, update and
+ * applyCameraMotion work in place and use the block structure of the motion and
+ * measurement matrices instead of general matrix products, so a frame with
+ * hundreds of tracks allocates nothing.
+ */
 export class KalmanFilter {
-  private _motion_mat: number[][];
-  private _update_mat: number[][];
   private _std_weight_position: number;
   private _std_weight_velocity: number;
 
   constructor() {
-    // Motion matrix (F)
-    this._motion_mat = [
-      [1, 0, 0, 0, 1, 0, 0, 0],
-      [0, 1, 0, 0, 0, 1, 0, 0],
-      [0, 0, 1, 0, 0, 0, 1, 0],
-      [0, 0, 0, 1, 0, 0, 0, 1],
-      [0, 0, 0, 0, 1, 0, 0, 0],
-      [0, 0, 0, 0, 0, 1, 0, 0],
-      [0, 0, 0, 0, 0, 0, 1, 0],
-      [0, 0, 0, 0, 0, 0, 0, 1]
-    ];
-
-    // Measurement matrix (H)
-    this._update_mat = [
-      [1, 0, 0, 0, 0, 0, 0, 0],
-      [0, 1, 0, 0, 0, 0, 0, 0],
-      [0, 0, 1, 0, 0, 0, 0, 0],
-      [0, 0, 0, 1, 0, 0, 0, 0]
-    ];
-
     this._std_weight_position = 1.0 / 20;
     this._std_weight_velocity = 1.0 / 160;
   }
 
   /**
-   * Initialize track from bounding box.
-   * State: [x, y, a, h, vx, vy, va, vh]
-   * where x,y is center position, a is aspect ratio, h is height
+   * Initialize track from bounding box (tlbr)
    */
-  initiate(measurement: number[]): [number[], number[][]] {
-    const [x1, y1, x2, y2] = measurement;
-    const cx = (x1 + x2) / 2;
-    const cy = (y1 + y2) / 2;
-    const w = x2 - x1;
-    const h = y2 - y1;
-    const a = w / h;
-
-    const mean = [cx, cy, a, h, 0, 0, 0, 0];
-    
-    // Initialize covariance
+  initiate(measurement: ArrayLike<number>): [Float64Array, Float64Array] {
+    const x1 = measurement[0];
+    const y1 = measurement[1];
+    const w = measurement[2] - x1;
+    const h = measurement[3] - y1;
+
+    const mean = new Float64Array(STATE_DIM);
+    mean[0] = x1 + w / 2;
+    mean[1] = y1 + h / 2;
+    mean[2] = w / h;
+    mean[3] = h;
+
     const std = [
       2 * this._std_weight_position * h,
       2 * this._std_weight_position * h,
@@ -56,180 +65,336 @@ export class KalmanFilter {
       10 * this._std_weight_velocity * h
     ];
 
-    const covariance = this.diag(std.map(s => s * s));
+    const covariance = new Float64Array(STATE_DIM * STATE_DIM);
+    for (let i = 0; i < STATE_DIM; i++) {
+      covariance[i * STATE_DIM + i] = std[i] * std[i];
+    }
     return [mean, covariance];
   }
 
   /**
-   * Predict next state
+   * Predict next state in place
    */
-  predict(mean: number[], covariance: number[][]): [number[], number[][]] {
-    // State prediction: x' = F * x
-    const predicted_mean = this.matmul(this._motion_mat, mean) as number[];
-    
-    // Covariance prediction: P' = F * P * F^T + Q
-    const temp = this.matmul(this._motion_mat, covariance) as number[][];
-    const predicted_covariance = this.matmul(temp, this.transpose(this._motion_mat)) as number[][];
-    
-    // Add process noise
-    const std = [
-      this._std_weight_position * predicted_mean[3],
-      this._std_weight_position * predicted_mean[3],
-      1e-2,
-      this._std_weight_position * predicted_mean[3],
-      this._std_weight_velocity * predicted_mean[3],
-      this._std_weight_velocity * predicted_mean[3],
-      1e-5,
-      this._std_weight_velocity * predicted_mean[3]
-    ];
-    
-    const Q = this.diag(std.map(s => s * s));
-    for (let i = 0; i < 8; i++) {
-      predicted_covariance[i][i] += Q[i][i];
+  predict(mean: Float64Array, covariance: Float64Array): void {
+    // x' = F * x: positions advance by their velocities
+    for (let i = 0; i < MEASURE_DIM; i++) {
+      mean[i] += mean[i + MEASURE_DIM];
+    }
+
+    // P' = F * P * F^T with F = [[I, I], [0, I]] and P = [[A, B], [B^T, C]]:
+    // A' = A + B + B^T + C, B' = B + C, C' = C
+    const n = STATE_DIM;
+    const m = MEASURE_DIM;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        covariance[i * n + j] +=
+          covariance[i * n + j + m] + covariance[(i + m) * n + j] + covariance[(i + m) * n + j + m];
+      }
+    }
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        covariance[i * n + j + m] += covariance[(i + m) * n + j + m];
+        covariance[(i + m) * n + j] += covariance[(i + m) * n + j + m];
+      }
     }
 
-    return [predicted_mean, predicted_covariance];
+    // Process noise Q, scaled by the predicted height
+    const h = mean[3];
+    const position = (this._std_weight_position * h) ** 2;
+    const velocity = (this._std_weight_velocity * h) ** 2;
+    covariance[0 * n + 0] += position;
+    covariance[1 * n + 1] += position;
+    covariance[2 * n + 2] += 1e-4;
+    covariance[3 * n + 3] += position;
+    covariance[4 * n + 4] += velocity;
+    covariance[5 * n + 5] += velocity;
+    covariance[6 * n + 6] += 1e-10;
+    covariance[7 * n + 7] += velocity;
   }
 
   /**
-   * Update state with measurement
+   * Predict many tracks at once, steps frames ahead. Lost tracks
+   * (resetHeightVelocity) stop growing or shrinking.
    */
-  update(mean: number[], covariance: number[][], measurement: number[]): [number[], number[][]] {
-    const [x1, y1, x2, y2] = measurement;
-    const cx = (x1 + x2) / 2;
-    const cy = (y1 + y2) / 2;
-    const w = x2 - x1;
-    const h = y2 - y1;
-    const a = w / h;
-
-    const meas = [cx, cy, a, h];
-    
+  multiPredict(means: Float64Array[], covariances: Float64Array[], resetHeightVelocity?: boolean[], steps: number = 1): void {
+    for (let t = 0; t < means.length; t++) {
+      if (resetHeightVelocity?.[t]) {
+        means[t][7] = 0;
+      }
+      for (let step = 0; step < steps; step++) {
+        this.predict(means[t], covariances[t]);
+      }
+    }
+  }
+
+  /**
+   * Correct state in place with a measured bounding box (tlbr)
+   */
+  update(mean: Float64Array, covariance: Float64Array, measurement: ArrayLike<number>): void {
+    const n = STATE_DIM;
+    const m = MEASURE_DIM;
+    const x1 = measurement[0];
+    const y1 = measurement[1];
+    const w = measurement[2] - x1;
+    const h = measurement[3] - y1;
+
     // Innovation: y = z - H * x
-    const predicted_meas = this.matmul(this._update_mat, mean) as number[];
-    const innovation = meas.map((m, i) => m - predicted_meas[i]);
-    
-    // Innovation covariance: S = H * P * H^T + R
-    const temp = this.matmul(this._update_mat, covariance) as number[][];
-    const S = this.matmul(temp, this.transpose(this._update_mat)) as number[][];
-    
-    // Add measurement noise
-    const std = [
-      this._std_weight_position * mean[3],
-      this._std_weight_position * mean[3],
-      1e-1,
-      this._std_weight_position * mean[3]
-    ];
-    
-    for (let i = 0; i < 4; i++) {
-      S[i][i] += std[i] * std[i];
-    }
-    
-    // Kalman gain: K = P * H^T * S^-1
-    const temp2 = this.matmul(covariance, this.transpose(this._update_mat)) as number[][];
-    const K = this.matmul(temp2, this.inverse(S)) as number[][];
-    
+    innovation[0] = x1 + w / 2 - mean[0];
+    innovation[1] = y1 + h / 2 - mean[1];
+    innovation[2] = w / h - mean[2];
+    innovation[3] = h - mean[3];
+
+    // Innovation covariance: S = H * P * H^T + R, the top-left block of P plus measurement noise
+    const positionNoise = (this._std_weight_position * mean[3]) ** 2;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        innovationCovariance[i * m + j] = covariance[i * n + j];
+      }
+    }
+    innovationCovariance[0] += positionNoise;
+    innovationCovariance[1 * m + 1] += positionNoise;
+    innovationCovariance[2 * m + 2] += 1e-2;
+    innovationCovariance[3 * m + 3] += positionNoise;
+
+    if (!this.cholesky(innovationCovariance, choleskyFactor)) return;
+
+    // Kalman gain: K = P * H^T * S^-1, solved row by row since S is symmetric
+    for (let row = 0; row < n; row++) {
+      for (let j = 0; j < m; j++) {
+        solveBuffer[j] = covariance[row * n + j];
+      }
+      this.choleskySolve(choleskyFactor, solveBuffer);
+      for (let j = 0; j < m; j++) {
+        gain[row * m + j] = solveBuffer[j];
+      }
+    }
+
     // State update: x = x + K * y
-    const state_update = this.matmul(K, innovation) as number[];
-    const updated_mean = mean.map((m, i) => m + state_update[i]);
-    
-    // Covariance update: P = (I - K * H) * P
-    const I = this.eye(8);
-    const temp3 = this.matmul(K, this._update_mat) as number[][];
-    const I_KH = this.subtract(I, temp3);
-    const updated_covariance = this.matmul(I_KH, covariance) as number[][];
-
-    return [updated_mean, updated_covariance];
+    for (let i = 0; i < n; i++) {
+      let sum = 0;
+      for (let j = 0; j < m; j++) {
+        sum += gain[i * m + j] * innovation[j];
+      }
+      mean[i] += sum;
+    }
+
+    // Covariance update: P = P - K * (H * P), H * P being the first four rows of P
+    measuredRows.set(covariance.subarray(0, m * n));
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let k = 0; k < m; k++) {
+          sum += gain[i * m + k] * measuredRows[k * n + j];
+        }
+        covariance[i * n + j] -= sum;
+      }
+    }
   }
 
   /**
-   * Convert state to bounding box
+   * Squared Mahalanobis distance between the state's center and a measured
+   * bounding box (tlbr). Compare against CHI2_95_POSITION to gate matches.
    */
-  stateToBbox(state: number[]): number[] {
-    const [cx, cy, a, h] = state;
-    const w = a * h;
-    return [cx - w/2, cy - h/2, cx + w/2, cy + h/2];
+  gatingDistance(mean: Float64Array, covariance: Float64Array, measurement: ArrayLike<number>): number {
+    const n = STATE_DIM;
+    const dx = (measurement[0] + measurement[2]) / 2 - mean[0];
+    const dy = (measurement[1] + measurement[3]) / 2 - mean[1];
+
+    // Center block of S = H * P * H^T + R
+    const positionNoise = (this._std_weight_position * mean[3]) ** 2;
+    const sxx = covariance[0] + positionNoise;
+    const sxy = covariance[1];
+    const syy = covariance[n + 1] + positionNoise;
+    const det = sxx * syy - sxy * sxy;
+    if (!(det > 0)) return Infinity;
+
+    return (syy * dx * dx - 2 * sxy * dx * dy + sxx * dy * dy) / det;
   }
 
-  // Matrix operations
-  private diag(values: number[]): number[][] {
-    const n = values.length;
-    const result: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
-    for (let i = 0; i < n; i++) {
-      result[i][i] = values[i];
+  /**
+   * Move a state in place into the frame of a camera that moved by an affine
+   * transform (BoT-SORT camera motion compensation). Position and velocity are
+   * mapped by the linear part, height by its scale; aspect ratio is unchanged.
+   */
+  applyCameraMotion(mean: Float64Array, covariance: Float64Array, transform: AffineTransform): void {
+    const [a, b, tx, c, d, ty] = transform;
+    const scale = Math.sqrt(Math.abs(a * d - b * c));
+    const n = STATE_DIM;
+
+    // mean' = T * mean + t, with T block-diagonal: R on (x, y) and (vx, vy), scale on h and vh
+    for (const offset of [0, 4]) {
+      const x = mean[offset];
+      const y = mean[offset + 1];
+      mean[offset] = a * x + b * y;
+      mean[offset + 1] = c * x + d * y;
     }
-    return result;
-  }
+    mean[0] += tx;
+    mean[1] += ty;
+    mean[3] *= scale;
+    mean[7] *= scale;
 
-  private eye(n: number): number[][] {
-    const result: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
+    // P' = T * P * T^T: the same block map on rows, then on columns
+    for (const offset of [0, 4]) {
+      for (let j = 0; j < n; j++) {
+        const p0 = covariance[offset * n + j];
+        const p1 = covariance[(offset + 1) * n + j];
+        covariance[offset * n + j] = a * p0 + b * p1;
+        covariance[(offset + 1) * n + j] = c * p0 + d * p1;
+      }
+    }
+    for (let j = 0; j < n; j++) {
+      covariance[3 * n + j] *= scale;
+      covariance[7 * n + j] *= scale;
+    }
+    for (const offset of [0, 4]) {
+      for (let i = 0; i < n; i++) {
+        const p0 = covariance[i * n + offset];
+        const p1 = covariance[i * n + offset + 1];
+        covariance[i * n + offset] = a * p0 + b * p1;
+        covariance[i * n + offset + 1] = c * p0 + d * p1;
+      }
+    }
     for (let i = 0; i < n; i++) {
-      result[i][i] = 1;
+      covariance[i * n + 3] *= scale;
+      covariance[i * n + 7] *= scale;
     }
-    return result;
   }
 
-  private matmul(A: number[][], B: number[] | number[][]): number[] | number[][] {
-    if (!Array.isArray(B[0])) {
-      // Matrix-vector multiplication
-      const b = B as number[];
-      return A.map(row => row.reduce((sum, val, i) => sum + val * b[i], 0));
-    } else {
-      // Matrix-matrix multiplication
-      const b = B as number[][];
-      const result: number[][] = Array(A.length).fill(0).map(() => Array(b[0].length).fill(0));
-      for (let i = 0; i < A.length; i++) {
-        for (let j = 0; j < b[0].length; j++) {
-          for (let k = 0; k < A[0].length; k++) {
-            result[i][j] += A[i][k] * b[k][j];
+  /**
+   * Rauch-Tung-Striebel backward pass over a finished track. filtered[k] is the
+   * state after update at step k, predicted[k] the prediction for step k made
+   * from step k - 1 (predicted[0] is unused). Returns new states that use the
+   * measurements after each step as well as before it.
+   */
+  smooth(
+    filtered: [Float64Array, Float64Array][],
+    predicted: [Float64Array, Float64Array][]
+  ): [Float64Array, Float64Array][] {
+    const n = STATE_DIM;
+    const m = MEASURE_DIM;
+    const count = filtered.length;
+    const smoothed: [Float64Array, Float64Array][] = new Array(count);
+    if (count === 0) return smoothed;
+
+    smoothed[count - 1] = [filtered[count - 1][0].slice(), filtered[count - 1][1].slice()];
+
+    for (let k = count - 2; k >= 0; k--) {
+      const [filteredMean, filteredCovariance] = filtered[k];
+      const [predictedMean, predictedCovariance] = predicted[k + 1];
+      const [nextMean, nextCovariance] = smoothed[k + 1];
+      const mean = filteredMean.slice();
+      const covariance = filteredCovariance.slice();
+      smoothed[k] = [mean, covariance];
+
+      if (!this.cholesky(predictedCovariance, predictedFactor, n)) continue;
+
+      // Smoother gain C = P_f * F^T * P_pred^-1. Its transpose solves
+      // P_pred * X = F * P_f, one column at a time; row i of F * P_f is
+      // P_f[i] + P_f[i + 4] for positions and P_f[i] for velocities.
+      for (let col = 0; col < n; col++) {
+        for (let i = 0; i < n; i++) {
+          stateColumn[i] = filteredCovariance[i * n + col] +
+            (i < m ? filteredCovariance[(i + m) * n + col] : 0);
+        }
+        this.choleskySolve(predictedFactor, stateColumn, n);
+        for (let i = 0; i < n; i++) {
+          smootherGain[col * n + i] = stateColumn[i];
+        }
+      }
+
+      // mean = mean_f + C * (mean_s' - mean_pred')
+      for (let i = 0; i < n; i++) {
+        stateDelta[i] = nextMean[i] - predictedMean[i];
+      }
+      for (let i = 0; i < n; i++) {
+        let sum = 0;
+        for (let j = 0; j < n; j++) {
+          sum += smootherGain[i * n + j] * stateDelta[j];
+        }
+        mean[i] += sum;
+      }
+
+      // P = P_f + C * (P_s' - P_pred') * C^T
+      for (let i = 0; i < n * n; i++) {
+        covarianceDelta[i] = nextCovariance[i] - predictedCovariance[i];
+      }
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          let sum = 0;
+          for (let t = 0; t < n; t++) {
+            sum += smootherGain[i * n + t] * covarianceDelta[t * n + j];
+          }
+          gainTimesDelta[i * n + j] = sum;
+        }
+      }
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          let sum = 0;
+          for (let t = 0; t < n; t++) {
+            sum += gainTimesDelta[i * n + t] * smootherGain[j * n + t];
           }
+          covariance[i * n + j] += sum;
         }
       }
-      return result;
     }
-  }
 
-  private transpose(A: number[][]): number[][] {
-    return A[0].map((_, i) => A.map(row => row[i]));
+    return smoothed;
   }
 
-  private subtract(A: number[][], B: number[][]): number[][] {
-    return A.map((row, i) => row.map((val, j) => val - B[i][j]));
+  /**
+   * Convert state to bounding box
+   */
+  stateToBbox(state: ArrayLike<number>): number[] {
+    const cx = state[0];
+    const cy = state[1];
+    const h = state[3];
+    const w = state[2] * h;
+    return [cx - w/2, cy - h/2, cx + w/2, cy + h/2];
   }
 
-  private inverse(A: number[][]): number[][] {
-    // Simple 4x4 matrix inversion for measurement covariance
-    const n = A.length;
-    const augmented: number[][] = A.map((row, i) => [...row, ...Array(n).fill(0).map((_, j) => i === j ? 1 : 0)]);
-    
-    // Gaussian elimination
-    for (let i = 0; i < n; i++) {
-      // Find pivot
-      let maxRow = i;
-      for (let k = i + 1; k < n; k++) {
-        if (Math.abs(augmented[k][i]) > Math.abs(augmented[maxRow][i])) {
-          maxRow = k;
+  /**
+   * Lower-triangular L with L * L^T = S for a symmetric size x size matrix,
+   * the 4x4 innovation covariance by default.
+   * False if S is not positive definite (degenerate box).
+   */
+  private cholesky(s: Float64Array, l: Float64Array, size: number = MEASURE_DIM): boolean {
+    const m = size;
+    l.fill(0);
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j <= i; j++) {
+        let sum = s[i * m + j];
+        for (let k = 0; k < j; k++) {
+          sum -= l[i * m + k] * l[j * m + k];
         }
-      }
-      [augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]];
-      
-      // Make diagonal 1
-      const pivot = augmented[i][i];
-      for (let j = 0; j < 2 * n; j++) {
-        augmented[i][j] /= pivot;
-      }
-      
-      // Eliminate column
-      for (let k = 0; k < n; k++) {
-        if (k !== i) {
-          const factor = augmented[k][i];
-          for (let j = 0; j < 2 * n; j++) {
-            augmented[k][j] -= factor * augmented[i][j];
-          }
+        if (i === j) {
+          if (!(sum > 0)) return false;
+          l[i * m + i] = Math.sqrt(sum);
+        } else {
+          l[i * m + j] = sum / l[j * m + j];
         }
       }
     }
-    
-    // Extract inverse
-    return augmented.map(row => row.slice(n));
+    return true;
+  }
+
+  /**
+   * Solve L * L^T * x = b in place
+   */
+  private choleskySolve(l: Float64Array, b: Float64Array, size: number = MEASURE_DIM): void {
+    const m = size;
+    for (let i = 0; i < m; i++) {
+      let sum = b[i];
+      for (let k = 0; k < i; k++) {
+        sum -= l[i * m + k] * b[k];
+      }
+      b[i] = sum / l[i * m + i];
+    }
+    for (let i = m - 1; i >= 0; i--) {
+      let sum = b[i];
+      for (let k = i + 1; k < m; k++) {
+        sum -= l[k * m + i] * b[k];
+      }
+      b[i] = sum / l[i * m + i];
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,9 @@
 import { STrack } from './strack';
 import { Detection } from './types';
+import { CHI2_95_POSITION } from './kalman-filter';
+import { BoundingBox } from '@/types';
+
+type BoxRect = Pick<BoundingBox, 'x' | 'y' | 'width' | 'height'>;
 
 /**
  * Calculate IoU between two boxes in tlbr format
@@ -24,15 +28,56 @@ export function calcIoU(box1: number[], box2: number[]): number {
 }
 
 /**
- * Calculate IoU distance matrix between tracks and detections
+ * IoU between two boxes in x, y, width, height form
+ */
+export function boxIoU(a: BoxRect, b: BoxRect): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  if (x2 <= x1 || y2 <= y1) return 0;
+
+  const intersection = (x2 - x1) * (y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Greedy non-maximum suppression, most confident first. Boxes only suppress
+ * boxes of the same classId; boxes without one (faces) all compete.
+ */
+export function nonMaxSuppression<T extends BoxRect & { confidence: number; classId?: number }>(
+  boxes: T[],
+  iouThreshold: number,
+  maxDetections: number = Infinity
+): T[] {
+  const sorted = [...boxes].sort((a, b) => b.confidence - a.confidence);
+  const kept: T[] = [];
+  for (const box of sorted) {
+    if (kept.length >= maxDetections) break;
+    if (!kept.some(other => other.classId === box.classId && boxIoU(other, box) > iouThreshold)) {
+      kept.push(box);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Calculate IoU distance matrix between tracks and detections.
+ * A track can only match detections of its own class.
  */
 export function iouDistance(tracks: STrack[], detections: Detection[]): number[][] {
   const costMatrix: number[][] = [];
   
   for (const track of tracks) {
     const costs: number[] = [];
+    const trackBox = track.tlbr;
     for (const det of detections) {
-      const iou = calcIoU(track.tlbr, det.bbox);
+      if (track.class !== det.class) {
+        costs.push(1);
+        continue;
+      }
+      const iou = calcIoU(trackBox, det.bbox);
       costs.push(1 - iou); // Convert IoU to cost
     }
     costMatrix.push(costs);
@@ -62,90 +107,233 @@ export function fuseScore(costMatrix: number[][], detections: Detection[]): numb
 }
 
 /**
- * Hungarian algorithm implementation for linear assignment
+ * Cosine distance between two normalized embeddings, in [0, 2]
  */
-export function linearAssignment(costMatrix: number[][], threshold: number = 1.0): [number[][], number[], number[]] {
-  if (costMatrix.length === 0 || costMatrix[0].length === 0) {
-    return [[], Array.from({length: costMatrix.length}, (_, i) => i), Array.from({length: costMatrix[0]?.length || 0}, (_, i) => i)];
+export function cosineDistance(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 2;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
   }
+  return 1 - dot;
+}
+
+/**
+ * Calculate appearance distance matrix between track features and detection embeddings.
+ * Pairs without features, or of different classes, get the maximum cost of 1.
+ */
+export function embeddingDistance(tracks: STrack[], detections: Detection[]): number[][] {
+  const costMatrix: number[][] = [];
   
-  const nRows = costMatrix.length;
-  const nCols = costMatrix[0].length;
-  const maxCost = 1e9;
-  
-  // Pad cost matrix to make it square
-  const size = Math.max(nRows, nCols);
-  const paddedCost: number[][] = [];
-  
-  for (let i = 0; i < size; i++) {
-    const row: number[] = [];
-    for (let j = 0; j < size; j++) {
-      if (i < nRows && j < nCols) {
-        row.push(costMatrix[i][j]);
-      } else {
-        row.push(maxCost);
+  for (const track of tracks) {
+    const costs: number[] = [];
+    for (const det of detections) {
+      if (!track.smoothFeature || !det.embedding || track.class !== det.class) {
+        costs.push(1);
+        continue;
       }
+      // Cosine distance is in [0, 2], scale to [0, 1]
+      costs.push(Math.min(1, cosineDistance(track.smoothFeature, det.embedding) / 2));
     }
-    paddedCost.push(row);
+    costMatrix.push(costs);
+  }
+  
+  return costMatrix;
+}
+
+/**
+ * Combine motion and appearance costs (BoT-SORT style).
+ * Appearance only counts for pairs that are already spatially close and look alike;
+ * the final cost is the smaller of the two so either cue can confirm a match.
+ */
+export function fuseMotionAppearance(
+  motionCost: number[][],
+  iouCost: number[][],
+  appearanceCost: number[][],
+  proximityThresh: number,
+  appearanceThresh: number
+): number[][] {
+  return motionCost.map((row, i) => row.map((cost, j) => {
+    const isClose = 1 - iouCost[i][j] >= proximityThresh;
+    const looksAlike = appearanceCost[i][j] <= appearanceThresh;
+    return isClose && looksAlike ? Math.min(cost, appearanceCost[i][j]) : cost;
+  }));
+}
+
+/**
+ * Cost of re-identifying lost or removed tracks with new detections. Pairs
+ * must be of the same class, lie inside the Kalman gate around the predicted
+ * position and look alike; the cost blends appearance with how far the
+ * detection is inside the gate, so a look-alike across the frame never wins.
+ * Pairs that fail a gate get the maximum cost of 1.
+ */
+export function reidDistance(
+  tracks: STrack[],
+  detections: Detection[],
+  appearanceThresh: number,
+  appearanceWeight: number = 0.7
+): number[][] {
+  const appearanceCost = embeddingDistance(tracks, detections);
+  return tracks.map((track, i) => detections.map((det, j) => {
+    if (appearanceCost[i][j] > appearanceThresh) return 1;
+    const gating = track.gatingDistance(det);
+    if (!(gating <= CHI2_95_POSITION)) return 1;
+    return appearanceWeight * appearanceCost[i][j] + (1 - appearanceWeight) * gating / CHI2_95_POSITION;
+  }));
+}
+
+/**
+ * Minimum-cost matching that only accepts pairs cheaper than threshold, like
+ * lapjv with cost_limit in the reference ByteTrack: leaving a row and a column
+ * unmatched costs threshold, so a pair is only taken when it beats that.
+ * Pairs at or above the threshold are gated out, rows and columns that still
+ * compete for each other are grouped, and each group is solved on its own
+ * rectangular matrix. A crowd becomes many tiny problems instead of one large
+ * padded one.
+ * Pass numCols so columns are still reported as unmatched when there are no rows.
+ */
+export function linearAssignment(
+  costMatrix: number[][],
+  threshold: number = 1.0,
+  numCols: number = costMatrix[0]?.length || 0
+): [number[][], number[], number[]] {
+  const nRows = costMatrix.length;
+  if (nRows === 0 || numCols === 0) {
+    return [[], Array.from({length: nRows}, (_, i) => i), Array.from({length: numCols}, (_, i) => i)];
   }
   
-  // Hungarian algorithm
-  const assignment = hungarianAlgorithm(paddedCost);
+  // Union-find over rows (0..nRows-1) and columns (nRows..), joined by feasible pairs
+  const parent = Int32Array.from({ length: nRows + numCols }, (_, i) => i);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+  
+  let feasiblePairs = 0;
+  for (let i = 0; i < nRows; i++) {
+    for (let j = 0; j < numCols; j++) {
+      if (costMatrix[i][j] < threshold) {
+        feasiblePairs++;
+        const a = find(i);
+        const b = find(nRows + j);
+        if (a !== b) parent[a] = b;
+      }
+    }
+  }
   
-  // Filter valid assignments
   const matches: number[][] = [];
+  if (feasiblePairs > 0) {
+    const groups = new Map<number, { rows: number[]; cols: number[] }>();
+    for (let node = 0; node < nRows + numCols; node++) {
+      const root = find(node);
+      let group = groups.get(root);
+      if (!group) {
+        group = { rows: [], cols: [] };
+        groups.set(root, group);
+      }
+      if (node < nRows) {
+        group.rows.push(node);
+      } else {
+        group.cols.push(node - nRows);
+      }
+    }
+    
+    groups.forEach(({ rows, cols }) => {
+      if (rows.length === 0 || cols.length === 0) return;
+      matches.push(...solveGroup(costMatrix, rows, cols, threshold));
+    });
+    matches.sort((a, b) => a[0] - b[0]);
+  }
+  
+  const matchedRows = new Set(matches.map(m => m[0]));
+  const matchedCols = new Set(matches.map(m => m[1]));
   const unmatchedA: number[] = [];
   const unmatchedB: number[] = [];
-  
-  const assignedB = new Set<number>();
-  
   for (let i = 0; i < nRows; i++) {
-    const j = assignment[i];
-    if (j < nCols && costMatrix[i][j] < threshold) {
-      matches.push([i, j]);
-      assignedB.add(j);
-    } else {
-      unmatchedA.push(i);
+    if (!matchedRows.has(i)) unmatchedA.push(i);
+  }
+  for (let j = 0; j < numCols; j++) {
+    if (!matchedCols.has(j)) unmatchedB.push(j);
+  }
+  
+  return [matches, unmatchedA, unmatchedB];
+}
+
+/**
+ * Optimal matches within one group of competing rows and columns
+ */
+function solveGroup(costMatrix: number[][], rows: number[], cols: number[], threshold: number): number[][] {
+  if (rows.length === 1 || cols.length === 1) {
+    // Only one pair can be taken: the cheapest
+    let best: number[] | null = null;
+    let bestCost = threshold;
+    for (const i of rows) {
+      for (const j of cols) {
+        if (costMatrix[i][j] < bestCost) {
+          bestCost = costMatrix[i][j];
+          best = [i, j];
+        }
+      }
     }
+    return best ? [best] : [];
   }
   
-  for (let j = 0; j < nCols; j++) {
-    if (!assignedB.has(j)) {
-      unmatchedB.push(j);
+  // Rows must not outnumber columns; solve the transpose if they do
+  const transposed = rows.length > cols.length;
+  const n = transposed ? cols.length : rows.length;
+  const m = transposed ? rows.length : cols.length;
+  
+  // Cost relative to leaving both unmatched; gated pairs cost 0 and are dropped afterwards
+  const gated = new Float64Array(n * m);
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < m; b++) {
+      const cost = transposed ? costMatrix[rows[b]][cols[a]] : costMatrix[rows[a]][cols[b]];
+      gated[a * m + b] = cost < threshold ? cost - threshold : 0;
     }
   }
   
-  return [matches, unmatchedA, unmatchedB];
+  const assignment = hungarianAlgorithm(gated, n, m);
+  const matches: number[][] = [];
+  for (let a = 0; a < n; a++) {
+    const b = assignment[a];
+    if (b < 0 || gated[a * m + b] >= 0) continue;
+    matches.push(transposed ? [rows[b], cols[a]] : [rows[a], cols[b]]);
+  }
+  return matches;
 }
 
 /**
- * Simplified Hungarian algorithm
+ * Hungarian algorithm (shortest augmenting paths with potentials) for an n x m
+ * row-major cost matrix with n <= m. Every row is assigned; returns each row's column.
  */
-function hungarianAlgorithm(costMatrix: number[][]): number[] {
-  const n = costMatrix.length;
-  const INF = 1e9;
+function hungarianAlgorithm(cost: Float64Array, n: number, m: number): Int32Array {
+  const INF = Infinity;
   
-  // Initialize
-  const u = new Array(n + 1).fill(0);
-  const v = new Array(n + 1).fill(0);
-  const p = new Array(n + 1).fill(0);
-  const way = new Array(n + 1).fill(0);
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  const p = new Int32Array(m + 1);
+  const way = new Int32Array(m + 1);
+  const minv = new Float64Array(m + 1);
+  const used = new Uint8Array(m + 1);
   
   for (let i = 1; i <= n; ++i) {
     p[0] = i;
     let j0 = 0;
-    const minv = new Array(n + 1).fill(INF);
-    const used = new Array(n + 1).fill(false);
+    minv.fill(INF);
+    used.fill(0);
     
     do {
-      used[j0] = true;
-      let i0 = p[j0];
+      used[j0] = 1;
+      const i0 = p[j0];
       let delta = INF;
       let j1 = 0;
       
-      for (let j = 1; j <= n; ++j) {
+      for (let j = 1; j <= m; ++j) {
         if (!used[j]) {
-          const cur = costMatrix[i0 - 1][j - 1] - u[i0] - v[j];
+          const cur = cost[(i0 - 1) * m + j - 1] - u[i0] - v[j];
           if (cur < minv[j]) {
             minv[j] = cur;
             way[j] = j0;
@@ -157,7 +345,7 @@ function hungarianAlgorithm(costMatrix: number[][]): number[] {
         }
       }
       
-      for (let j = 0; j <= n; ++j) {
+      for (let j = 0; j <= m; ++j) {
         if (used[j]) {
           u[p[j]] += delta;
           v[j] -= delta;
@@ -177,12 +365,12 @@ function hungarianAlgorithm(costMatrix: number[][]): number[] {
   }
   
   // Extract assignment
-  const assignment = new Array(n).fill(-1);
-  for (let j = 1; j <= n; ++j) {
+  const assignment = new Int32Array(n).fill(-1);
+  for (let j = 1; j <= m; ++j) {
     if (p[j] !== 0) {
       assignment[p[j] - 1] = j - 1;
     }
   }
   
   return assignment;
-}
\ No newline at end of file
+}
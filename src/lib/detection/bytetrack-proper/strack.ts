@@ -1,20 +1,25 @@
 import { KalmanFilter } from './kalman-filter';
 import { TrackState, Detection } from './types';
+import { AffineTransform } from '@/types';
 
 let trackIdCount = 0;
 
+// The filter holds no per-track state, so all tracks share one
+const sharedKalman = new KalmanFilter();
+
 export class STrack {
   public trackId: number;
   public isActivated: boolean;
   public state: TrackState;
   public score: number;
   public class: string;
+  public classId: number;
   public headCenterX?: number;
   public headCenterY?: number;
+  public smoothFeature: Float32Array | null;
   
-  private kalmanFilter: KalmanFilter;
-  private mean: number[];
-  private covariance: number[][];
+  private mean: Float64Array;
+  private covariance: Float64Array;
   public frameId: number;
   private startFrame: number;
   private trackletLen: number;
@@ -25,10 +30,11 @@ export class STrack {
     this.state = TrackState.New;
     this.score = 0;
     this.class = 'person';
+    this.classId = 0;
+    this.smoothFeature = null;
     
-    this.kalmanFilter = new KalmanFilter();
-    this.mean = [];
-    this.covariance = [];
+    this.mean = new Float64Array(0);
+    this.covariance = new Float64Array(0);
     this.frameId = 0;
     this.startFrame = 0;
     this.trackletLen = 0;
@@ -47,21 +53,19 @@ export class STrack {
    * Activate track with detection
    */
   activate(det: Detection, frameId: number): void {
-    [this.mean, this.covariance] = this.kalmanFilter.initiate(det.bbox);
+    [this.mean, this.covariance] = sharedKalman.initiate(det.bbox);
     
     this.trackletLen = 0;
     this.state = TrackState.Tracked;
     
-    if (frameId === 1) {
-      this.isActivated = true;
-    }
-    
     this.frameId = frameId;
     this.startFrame = frameId;
     this.score = det.score;
     this.class = det.class;
+    this.classId = det.classId;
     this.headCenterX = det.headCenterX;
     this.headCenterY = det.headCenterY;
+    this.updateFeature(det.embedding);
     
     if (this.trackId === 0) {
       this.trackId = this.nextId();
@@ -72,7 +76,12 @@ export class STrack {
    * Re-activate a lost track
    */
   reActivate(det: Detection, frameId: number, newId: boolean = false): void {
-    [this.mean, this.covariance] = this.kalmanFilter.update(this.mean, this.covariance, det.bbox);
+    if (this.state === TrackState.Removed) {
+      // Motion state is stale after a long absence, restart it from the detection
+      [this.mean, this.covariance] = sharedKalman.initiate(det.bbox);
+    } else {
+      sharedKalman.update(this.mean, this.covariance, det.bbox);
+    }
     
     this.trackletLen = 0;
     this.state = TrackState.Tracked;
@@ -81,6 +90,7 @@ export class STrack {
     this.score = det.score;
     this.headCenterX = det.headCenterX;
     this.headCenterY = det.headCenterY;
+    this.updateFeature(det.embedding);
     
     if (newId) {
       this.trackId = this.nextId();
@@ -94,13 +104,38 @@ export class STrack {
     this.frameId = frameId;
     this.trackletLen++;
     
-    [this.mean, this.covariance] = this.kalmanFilter.update(this.mean, this.covariance, det.bbox);
+    sharedKalman.update(this.mean, this.covariance, det.bbox);
     
     this.state = TrackState.Tracked;
     this.isActivated = true;
     this.score = det.score;
     this.headCenterX = det.headCenterX;
     this.headCenterY = det.headCenterY;
+    this.updateFeature(det.embedding);
+  }
+
+  /**
+   * Blend a new appearance embedding into the track's feature (EMA)
+   */
+  private updateFeature(embedding?: Float32Array, alpha: number = 0.9): void {
+    if (!embedding) return;
+    
+    if (!this.smoothFeature || this.smoothFeature.length !== embedding.length) {
+      this.smoothFeature = new Float32Array(embedding);
+      return;
+    }
+    
+    let norm = 0;
+    for (let i = 0; i < embedding.length; i++) {
+      this.smoothFeature[i] = alpha * this.smoothFeature[i] + (1 - alpha) * embedding[i];
+      norm += this.smoothFeature[i] * this.smoothFeature[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < this.smoothFeature.length; i++) {
+        this.smoothFeature[i] /= norm;
+      }
+    }
   }
 
   /**
@@ -111,7 +146,36 @@ export class STrack {
       this.mean[7] = 0; // Reset height velocity for lost tracks
     }
     
-    [this.mean, this.covariance] = this.kalmanFilter.predict(this.mean, this.covariance);
+    sharedKalman.predict(this.mean, this.covariance);
+  }
+
+  /**
+   * Predict all tracks in one pass, steps video frames ahead
+   */
+  static multiPredict(tracks: STrack[], steps: number = 1): void {
+    const active = tracks.filter(track => track.mean.length > 0);
+    sharedKalman.multiPredict(
+      active.map(track => track.mean),
+      active.map(track => track.covariance),
+      active.map(track => track.state !== TrackState.Tracked),
+      steps
+    );
+  }
+
+  /**
+   * Follow the camera: warp the predicted state by the estimated camera motion
+   */
+  applyCameraMotion(transform: AffineTransform): void {
+    if (this.mean.length === 0) return;
+    sharedKalman.applyCameraMotion(this.mean, this.covariance, transform);
+  }
+
+  /**
+   * Squared Mahalanobis distance from the predicted center to a detection
+   */
+  gatingDistance(det: Detection): number {
+    if (this.mean.length === 0) return Infinity;
+    return sharedKalman.gatingDistance(this.mean, this.covariance, det.bbox);
   }
 
   /**
@@ -135,7 +199,7 @@ export class STrack {
     if (this.mean.length === 0) {
       return [0, 0, 0, 0];
     }
-    return this.kalmanFilter.stateToBbox(this.mean);
+    return sharedKalman.stateToBbox(this.mean);
   }
 
   /**
@@ -161,6 +225,15 @@ export class STrack {
     trackIdCount = 0;
   }
 
+  /**
+   * Kalman position standard deviation relative to box height
+   */
+  get positionUncertainty(): number {
+    if (this.mean.length === 0) return 0;
+    const variance = (this.covariance[0] + this.covariance[9]) / 2;
+    return Math.sqrt(variance) / Math.max(1, this.mean[3]);
+  }
+
   /**
    * Get track age (frames since start)
    */
@@ -9,14 +9,28 @@ export interface Detection {
   bbox: number[]; // [x1, y1, x2, y2] in tlbr format
   score: number;
   class: string;
+  classId: number;
   headCenterX?: number;
   headCenterY?: number;
+  embedding?: Float32Array;
+}
+
+export interface TrackerStats {
+  tracked: number;         // Active tracks after the last update
+  lost: number;            // Tracks currently lost but still kept
+  newTracks: number;       // Tracks started in the last update
+  lostTracks: number;      // Tracks that became lost in the last update
+  meanUncertainty: number; // Mean Kalman position std relative to box height
 }
 
 export interface TrackParams {
   trackThresh: number;  // High confidence threshold (default 0.5)
-  trackBuffer: number;  // Frames to keep lost tracks (default 30)
+  trackBuffer: number;  // Video frames to keep lost tracks (default 30)
   matchThresh: number;  // IoU threshold for matching (default 0.8)
   minBoxArea: number;   // Minimum box area (default 10)
   lowThresh: number;    // Low confidence threshold for second stage (default 0.1)
+  appearanceThresh: number; // Max appearance distance to accept a match (default 0.15)
+  proximityThresh: number;  // Min IoU before appearance is trusted in motion stages (default 0.5)
+  reidBuffer: number;   // Video frames to keep removed tracks for re-identification (default 300)
+  cameraMotionCompensation: boolean; // Warp predictions by the camera motion passed to update (default true)
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+export type Canvas = HTMLCanvasElement | OffscreenCanvas;
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Frames handed to the detection worker
+export type TransferableFrame = ImageBitmap | VideoFrame;
+
+/**
+ * Create a 2D canvas on the main thread, or an OffscreenCanvas inside a worker
+ */
+export function createCanvas(width: number, height: number): { canvas: Canvas; ctx: Canvas2DContext } {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+/**
+ * Anything drawImage accepts. ImageData has to be put on a canvas first.
+ */
+export function toDrawable(image: ImageData | CanvasImageSource): CanvasImageSource {
+  if (image instanceof ImageData) {
+    const { canvas, ctx } = createCanvas(image.width, image.height);
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }
+  return image;
+}
+
+/**
+ * Read the pixels of a transferred frame and release it
+ */
+export function frameToImageData(frame: TransferableFrame): ImageData {
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(frame, 0, 0, width, height);
+  frame.close();
+
+  return ctx.getImageData(0, 0, width, height);
+}
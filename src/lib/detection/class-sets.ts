@@ -0,0 +1,49 @@
+/**
+ * Named groups of detector classes a project can track.
+ * Class names (not indices) are used so sets also work with custom models.
+ */
+export interface ClassSet {
+  id: string;
+  name: string;
+  description: string;
+  classNames: string[] | null; // null = every class the model knows
+}
+
+export const CLASS_SETS: Record<string, ClassSet> = {
+  'people': {
+    id: 'people',
+    name: 'People',
+    description: 'Persons only',
+    classNames: ['person']
+  },
+  'sports': {
+    id: 'sports',
+    name: 'Sports',
+    description: 'Players, balls, rackets and boards',
+    classNames: ['person', 'sports ball', 'tennis racket', 'baseball bat', 'frisbee', 'skateboard', 'surfboard', 'skis', 'snowboard']
+  },
+  'pets': {
+    id: 'pets',
+    name: 'Pets & Animals',
+    description: 'Persons and common animals',
+    classNames: ['person', 'dog', 'cat', 'horse', 'bird', 'sheep', 'cow']
+  },
+  'vehicles': {
+    id: 'vehicles',
+    name: 'Vehicles',
+    description: 'Cars, bikes and other vehicles',
+    classNames: ['person', 'bicycle', 'car', 'motorcycle', 'bus', 'truck', 'boat', 'airplane', 'train']
+  },
+  'all': {
+    id: 'all',
+    name: 'All Classes',
+    description: 'Every class the model can detect',
+    classNames: null
+  }
+};
+
+export const DEFAULT_CLASS_SET_ID = 'people';
+
+export function getClassSetNames(classSetId: string): string[] | null {
+  return (CLASS_SETS[classSetId] ?? CLASS_SETS[DEFAULT_CLASS_SET_ID]).classNames;
+}
@@ -0,0 +1,328 @@
+import * as tf from '@tensorflow/tfjs';
+import * as ort from 'onnxruntime-web';
+import { BoundingBox } from '@/types';
+import { Detector, DetectorBackend, DetectorCapabilities, DetectorInput, getInputDimensions, resolveClassFilter } from './detector';
+import { createCanvas, toDrawable } from './canvas-utils';
+import { nonMaxSuppression } from './bytetrack-proper/matching';
+import type { InstalledModel, ModelNormalization, ModelOutputLayout } from './model-manager';
+
+export interface ModelOutput {
+  name: string;
+  dims: number[];
+  data: Float32Array;
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+/**
+ * A model the user installed from local files, decoded according to the
+ * input size, output layout, class names and normalization they declared.
+ * TF.js models take NHWC input, ONNX models NCHW; both are stretched to the
+ * square input size like the built-in YOLOv8n detector.
+ */
+export class CustomModelDetector implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend: DetectorBackend;
+  readonly inputSize: number;
+  readonly classNames: readonly string[];
+  readonly capabilities: DetectorCapabilities;
+
+  private layout: ModelOutputLayout;
+  private normalization: ModelNormalization;
+  private files: File[];
+  private model: tf.GraphModel | null = null;
+  private session: ort.InferenceSession | null = null;
+  private confidenceThreshold = 0.3;
+  private iouThreshold = 0.45;
+  private maxDetections = 100;
+  private classFilter: string[] | null;
+  private allowedClassIds: Set<number> | null;
+
+  constructor(model: InstalledModel) {
+    this.id = model.id;
+    this.name = model.name;
+    this.backend = model.backend;
+    this.inputSize = model.inputSize;
+    this.classNames = model.classNames;
+    this.layout = model.layout;
+    this.normalization = model.normalization;
+    this.files = model.files;
+    this.capabilities = {
+      objects: true,
+      heads: model.classNames.includes('head'),
+      cropRefinement: false,
+      landmarks: false,
+      keypoints: false
+    };
+    // Persons only when the model knows them, like the built-in detector
+    this.classFilter = model.classNames.includes('person') ? ['person'] : null;
+    this.allowedClassIds = resolveClassFilter(this.classNames, this.classFilter);
+  }
+
+  async initialize(): Promise<void> {
+    if (this.backend === 'tfjs') {
+      const modelFile = this.files.find(file => file.name.endsWith('.json'));
+      if (!modelFile) {
+        throw new Error('TF.js models need their model.json');
+      }
+      const weightFiles = this.files.filter(file => file !== modelFile);
+      await tf.ready();
+      this.model = await tf.loadGraphModel(tf.io.browserFiles([modelFile, ...weightFiles]));
+      return;
+    }
+
+    const modelFile = this.files.find(file => file.name.endsWith('.onnx')) ?? this.files[0];
+    if (!modelFile) {
+      throw new Error('ONNX models need their .onnx file');
+    }
+    this.session = await ort.InferenceSession.create(new Uint8Array(await modelFile.arrayBuffer()), {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+  }
+
+  isInitialized(): boolean {
+    return this.model !== null || this.session !== null;
+  }
+
+  /**
+   * Run an all-zero input through the model and report its outputs, to check
+   * the declared layout before the model is used on video
+   */
+  async dryRun(): Promise<ModelOutput[]> {
+    const size = this.inputSize;
+    return this.run(new Float32Array(3 * size * size));
+  }
+
+  async detect(image: DetectorInput): Promise<BoundingBox[]> {
+    if (!this.isInitialized()) {
+      throw new Error('Model not initialized');
+    }
+
+    const { width, height } = getInputDimensions(image);
+    const outputs = await this.run(this.preprocess(image));
+    const boxes = this.layout === 'detr'
+      ? this.decodeDetr(outputs, width, height)
+      : nonMaxSuppression(this.decodeYolo(outputs, width, height), this.iouThreshold, this.maxDetections);
+    return boxes.slice(0, this.maxDetections);
+  }
+
+  private preprocess(image: DetectorInput): Float32Array {
+    const size = this.inputSize;
+    const { ctx } = createCanvas(size, size);
+    ctx.drawImage(toDrawable(image), 0, 0, size, size);
+    const { data } = ctx.getImageData(0, 0, size, size);
+
+    const { mean, std } = this.normalization;
+    const planeSize = size * size;
+    const input = new Float32Array(3 * planeSize);
+    for (let i = 0; i < planeSize; i++) {
+      for (let c = 0; c < 3; c++) {
+        const value = (data[i * 4 + c] / 255 - mean[c]) / std[c];
+        // TF.js graph models take NHWC, ONNX exports take NCHW
+        input[this.backend === 'tfjs' ? i * 3 + c : c * planeSize + i] = value;
+      }
+    }
+    return input;
+  }
+
+  private async run(input: Float32Array): Promise<ModelOutput[]> {
+    const size = this.inputSize;
+
+    if (this.model) {
+      const tensor = tf.tensor4d(input, [1, size, size, 3]);
+      try {
+        const result = await this.model.executeAsync(tensor);
+        const tensors = Array.isArray(result) ? result : [result];
+        const outputs = await Promise.all(tensors.map(async (output, index) => ({
+          name: this.model!.outputs[index]?.name ?? `output${index}`,
+          dims: output.shape,
+          data: Float32Array.from(await output.data())
+        })));
+        tensors.forEach(output => output.dispose());
+        return outputs;
+      } finally {
+        tensor.dispose();
+      }
+    }
+
+    if (this.session) {
+      const feeds: Record<string, ort.Tensor> = {
+        [this.session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, size, size])
+      };
+      const result = await this.session.run(feeds);
+      return this.session.outputNames.map(name => ({
+        name,
+        dims: [...result[name].dims],
+        data: Float32Array.from(result[name].data as Float32Array)
+      }));
+    }
+
+    throw new Error('Model not initialized');
+  }
+
+  private isAllowed(classId: number): boolean {
+    return classId !== -1 && (!this.allowedClassIds || this.allowedClassIds.has(classId));
+  }
+
+  /**
+   * YOLOv8 rows are [cx, cy, w, h, class scores...]; YOLOv5 rows add an
+   * objectness score before the class scores. Either axis may hold the rows.
+   */
+  private decodeYolo(outputs: ModelOutput[], width: number, height: number): BoundingBox[] {
+    const numClasses = this.classNames.length;
+    const scoreOffset = this.layout === 'yolov5' ? 5 : 4;
+    const channels = scoreOffset + numClasses;
+    const output = outputs.find(candidate => candidate.dims.length === 3 && candidate.dims.slice(1).includes(channels));
+    if (!output) return [];
+
+    const [, dim1, dim2] = output.dims;
+    const channelsFirst = dim1 === channels && dim2 !== channels;
+    const numAnchors = channelsFirst ? dim2 : dim1;
+    const value = (anchor: number, channel: number) =>
+      channelsFirst ? output.data[channel * numAnchors + anchor] : output.data[anchor * channels + channel];
+
+    const boxes: BoundingBox[] = [];
+    for (let i = 0; i < numAnchors; i++) {
+      const objectness = this.layout === 'yolov5' ? value(i, 4) : 1;
+      let maxScore = 0;
+      let maxClassIdx = -1;
+      for (let c = 0; c < numClasses; c++) {
+        const score = value(i, scoreOffset + c) * objectness;
+        if (score > maxScore) {
+          maxScore = score;
+          maxClassIdx = c;
+        }
+      }
+      if (!this.isAllowed(maxClassIdx) || maxScore <= this.confidenceThreshold) continue;
+
+      let cx = value(i, 0);
+      let cy = value(i, 1);
+      let w = value(i, 2);
+      let h = value(i, 3);
+      // Some exports emit coordinates normalized to [0, 1] instead of input pixels
+      if (cx <= 1 && cy <= 1 && w <= 1 && h <= 1) {
+        cx *= this.inputSize;
+        cy *= this.inputSize;
+        w *= this.inputSize;
+        h *= this.inputSize;
+      }
+      boxes.push(this.toFrameBox(cx, cy, w, h, maxScore, maxClassIdx, width, height));
+    }
+    return boxes;
+  }
+
+  /**
+   * DETR-style outputs: normalized [cx, cy, w, h] boxes with per-query class
+   * scores (or logits), already free of duplicates. DETR logits end in a
+   * no-object class and are a softmax over all of them; without that extra
+   * class (RT-DETR) each logit is its own sigmoid.
+   */
+  private decodeDetr(outputs: ModelOutput[], width: number, height: number): BoundingBox[] {
+    const boxOutput = outputs.find(output => /box/i.test(output.name) && output.dims[output.dims.length - 1] === 4)
+      ?? outputs.find(output => output.dims[output.dims.length - 1] === 4);
+    const scoreOutput = outputs.find(output => output !== boxOutput);
+    if (!boxOutput || !scoreOutput) return [];
+
+    const numQueries = boxOutput.data.length / 4;
+    const numScores = scoreOutput.data.length / numQueries;
+    const isLogits = scoreOutput.data.some(score => score < 0 || score > 1);
+    const hasNoObjectClass = numScores > this.classNames.length;
+
+    const boxes: BoundingBox[] = [];
+    for (let i = 0; i < numQueries; i++) {
+      const logits = scoreOutput.data.subarray(i * numScores, (i + 1) * numScores);
+      // Softmax over every class including no-object, shifted by the max for stability
+      let maxLogit = -Infinity;
+      let expSum = 0;
+      if (isLogits && hasNoObjectClass) {
+        for (const logit of logits) maxLogit = Math.max(maxLogit, logit);
+        for (const logit of logits) expSum += Math.exp(logit - maxLogit);
+      }
+
+      let maxScore = 0;
+      let maxClassIdx = -1;
+      // The no-object class is last and never a detection
+      for (let c = 0; c < Math.min(numScores, this.classNames.length); c++) {
+        const raw = logits[c];
+        const score = !isLogits ? raw : hasNoObjectClass ? Math.exp(raw - maxLogit) / expSum : sigmoid(raw);
+        if (score > maxScore) {
+          maxScore = score;
+          maxClassIdx = c;
+        }
+      }
+      if (!this.isAllowed(maxClassIdx) || maxScore <= this.confidenceThreshold) continue;
+
+      const [cx, cy, w, h] = Array.from(boxOutput.data.subarray(i * 4, i * 4 + 4), v => v * this.inputSize);
+      boxes.push(this.toFrameBox(cx, cy, w, h, maxScore, maxClassIdx, width, height));
+    }
+    return boxes.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private toFrameBox(
+    cx: number,
+    cy: number,
+    w: number,
+    h: number,
+    confidence: number,
+    classId: number,
+    width: number,
+    height: number
+  ): BoundingBox {
+    const scaleX = width / this.inputSize;
+    const scaleY = height / this.inputSize;
+    const x1 = Math.max(0, (cx - w / 2) * scaleX);
+    const y1 = Math.max(0, (cy - h / 2) * scaleY);
+    const x2 = Math.min(width, (cx + w / 2) * scaleX);
+    const y2 = Math.min(height, (cy + h / 2) * scaleY);
+    return {
+      x: x1,
+      y: y1,
+      width: x2 - x1,
+      height: y2 - y1,
+      confidence,
+      class: this.classNames[classId],
+      classId
+    };
+  }
+
+
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
+  }
+
+  setConfidenceThreshold(threshold: number): void {
+    this.confidenceThreshold = threshold;
+  }
+
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+
+  setIouThreshold(threshold: number): void {
+    this.iouThreshold = threshold;
+  }
+
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+    this.allowedClassIds = resolveClassFilter(this.classNames, classNames);
+  }
+
+  dispose(): void {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+    if (this.session) {
+      this.session.release();
+      this.session = null;
+    }
+  }
+}
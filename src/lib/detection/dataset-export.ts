@@ -0,0 +1,382 @@
+import { createCanvas } from './canvas-utils';
+import { formatMotFile, MotBox } from './mot-evaluation';
+import { BoundingBox, Detection } from '@/types';
+
+export type DatasetFormat = 'mot' | 'coco' | 'yolo';
+
+export interface DatasetExportOptions {
+  format: DatasetFormat;
+  frames: 'keyframes' | 'all'; // Keyframes hold real detections; the other frames are interpolated
+  includeImages: boolean;      // Add a JPEG of every exported frame
+  headKeypoints: boolean;      // YOLO only: write head centers as a one-point pose keypoint
+  imageQuality: number;
+}
+
+export const DEFAULT_DATASET_EXPORT_OPTIONS: DatasetExportOptions = {
+  format: 'coco',
+  frames: 'keyframes',
+  includeImages: false,
+  headKeypoints: false,
+  imageQuality: 0.95
+};
+
+export interface DatasetVideoInfo {
+  name: string;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface DatasetFile {
+  path: string;
+  data: string | Uint8Array;
+}
+
+/**
+ * Image file of a frame. Frames are numbered from 1 in all exported files,
+ * as in MOTChallenge sequences.
+ */
+function getImageName(frameNumber: number): string {
+  return `${String(frameNumber + 1).padStart(6, '0')}.jpg`;
+}
+
+function getImageDirectory(format: DatasetFormat): string {
+  return format === 'mot' ? 'img1' : 'images';
+}
+
+/**
+ * Numeric IDs for the exported tracks. Track IDs are numeric strings unless
+ * they were created by hand, which get the next free numbers.
+ */
+function getNumericTrackIds(detections: Detection[]): Map<string, number> {
+  const trackIds = new Set(detections.flatMap(d => d.boxes.map(box => box.trackId).filter((id): id is string => !!id)));
+  const numeric = new Map<string, number>();
+  let nextId = 1;
+  trackIds.forEach(trackId => {
+    if (/^\d+$/.test(trackId)) {
+      numeric.set(trackId, Number(trackId));
+      nextId = Math.max(nextId, Number(trackId) + 1);
+    }
+  });
+  trackIds.forEach(trackId => {
+    if (!numeric.has(trackId)) numeric.set(trackId, nextId++);
+  });
+  return numeric;
+}
+
+/**
+ * Classes present in the detections, in detector order. The YOLO class index
+ * is the position in this list and the COCO category ID is one more.
+ */
+function getClassList(detections: Detection[]): string[] {
+  const classes = new Map<string, number>();
+  for (const detection of detections) {
+    for (const box of detection.boxes) {
+      if (!classes.has(box.class)) classes.set(box.class, box.classId);
+    }
+  }
+  return Array.from(classes.entries())
+    .sort(([nameA, idA], [nameB, idB]) => idA - idB || nameA.localeCompare(nameB))
+    .map(([name]) => name);
+}
+
+function round(value: number, digits: number = 2): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+function selectFrames(detections: Detection[], frames: DatasetExportOptions['frames']): Detection[] {
+  const selected = frames === 'keyframes' ? detections.filter(d => d.isKeyframe) : detections;
+  return [...selected].sort((a, b) => a.frameNumber - b.frameNumber);
+}
+
+/**
+ * MOTChallenge sequence: gt/gt.txt with people only, since the format has no
+ * other classes, plus head centers in gt/heads.txt (frame, id, x, y)
+ */
+function buildMotFiles(detections: Detection[], video: DatasetVideoInfo, trackIds: Map<string, number>, totalFrames: number): DatasetFile[] {
+  const rows: MotBox[] = [];
+  const heads: string[] = [];
+
+  for (const detection of detections) {
+    for (const box of detection.boxes) {
+      if (box.class !== 'person') continue;
+      const frame = detection.frameNumber + 1;
+      const id = box.trackId ? trackIds.get(box.trackId)! : -1;
+      rows.push({ frame, id, x: box.x, y: box.y, width: box.width, height: box.height, confidence: round(box.confidence) });
+      if (box.headCenterX !== undefined && box.headCenterY !== undefined) {
+        heads.push([frame, id, box.headCenterX.toFixed(2), box.headCenterY.toFixed(2)].join(','));
+      }
+    }
+  }
+
+  const seqinfo = [
+    '[Sequence]',
+    `name=${video.name}`,
+    'imDir=img1',
+    `frameRate=${round(video.fps)}`,
+    `seqLength=${totalFrames}`,
+    `imWidth=${video.width}`,
+    `imHeight=${video.height}`,
+    'imExt=.jpg'
+  ].join('\n');
+
+  return [
+    { path: 'seqinfo.ini', data: `${seqinfo}\n` },
+    { path: 'gt/gt.txt', data: `${formatMotFile(rows)}\n` },
+    { path: 'gt/heads.txt', data: `${heads.join('\n')}\n` }
+  ];
+}
+
+/**
+ * COCO JSON with video extensions: frame_id and track_id as in TAO and
+ * BDD100K, plus each person's head_center
+ */
+function buildCocoFiles(detections: Detection[], video: DatasetVideoInfo, trackIds: Map<string, number>, classes: string[]): DatasetFile[] {
+  const images = detections.map(detection => ({
+    id: detection.frameNumber + 1,
+    file_name: `images/${getImageName(detection.frameNumber)}`,
+    width: video.width,
+    height: video.height,
+    frame_id: detection.frameNumber + 1,
+    video_id: 1
+  }));
+
+  let annotationId = 1;
+  const annotations = detections.flatMap(detection => detection.boxes.map((box: BoundingBox) => ({
+    id: annotationId++,
+    image_id: detection.frameNumber + 1,
+    category_id: classes.indexOf(box.class) + 1,
+    bbox: [round(box.x), round(box.y), round(box.width), round(box.height)],
+    area: round(box.width * box.height),
+    iscrowd: 0,
+    score: round(box.confidence, 3),
+    ...(box.trackId ? { track_id: trackIds.get(box.trackId) } : {}),
+    ...(box.headCenterX !== undefined && box.headCenterY !== undefined
+      ? { head_center: [round(box.headCenterX), round(box.headCenterY)] }
+      : {})
+  })));
+
+  const dataset = {
+    info: { description: `Detections of ${video.name}`, fps: video.fps },
+    videos: [{ id: 1, name: video.name }],
+    images,
+    annotations,
+    categories: classes.map((name, i) => ({ id: i + 1, name }))
+  };
+
+  return [{ path: 'annotations.json', data: JSON.stringify(dataset) }];
+}
+
+/**
+ * Ultralytics layout: one label file per image with normalized center boxes,
+ * and a data.yaml naming the classes
+ */
+function buildYoloFiles(detections: Detection[], video: DatasetVideoInfo, classes: string[], headKeypoints: boolean): DatasetFile[] {
+  const files: DatasetFile[] = detections.map(detection => {
+    const lines = detection.boxes.map(box => {
+      const values = [
+        (box.x + box.width / 2) / video.width,
+        (box.y + box.height / 2) / video.height,
+        box.width / video.width,
+        box.height / video.height
+      ];
+      if (headKeypoints) {
+        // Visibility 2 is a labeled, visible keypoint; 0 is not labeled
+        const hasHead = box.headCenterX !== undefined && box.headCenterY !== undefined;
+        values.push(hasHead ? box.headCenterX! / video.width : 0, hasHead ? box.headCenterY! / video.height : 0, hasHead ? 2 : 0);
+      }
+      return [classes.indexOf(box.class), ...values.map(value => (Number.isInteger(value) ? String(value) : value.toFixed(6)))].join(' ');
+    });
+    return {
+      path: `labels/${getImageName(detection.frameNumber).replace(/\.jpg$/, '.txt')}`,
+      data: lines.length > 0 ? `${lines.join('\n')}\n` : ''
+    };
+  });
+
+  const yaml = [
+    'path: .',
+    'train: images',
+    'val: images',
+    ...(headKeypoints ? ['kpt_shape: [1, 3]'] : []),
+    'names:',
+    ...classes.map((name, i) => `  ${i}: ${name}`)
+  ].join('\n');
+
+  return [{ path: 'data.yaml', data: `${yaml}\n` }, ...files];
+}
+
+/**
+ * Annotation files of a dataset in the chosen format, without images
+ */
+export function buildDatasetFiles(
+  detections: Detection[],
+  video: DatasetVideoInfo,
+  options: Partial<DatasetExportOptions> = {}
+): DatasetFile[] {
+  const settings = { ...DEFAULT_DATASET_EXPORT_OPTIONS, ...options };
+  const frames = selectFrames(detections, settings.frames);
+
+  switch (settings.format) {
+    case 'mot':
+      return buildMotFiles(frames, video, getNumericTrackIds(frames), detections.length);
+    case 'coco':
+      return buildCocoFiles(frames, video, getNumericTrackIds(frames), getClassList(frames));
+    case 'yolo':
+      return buildYoloFiles(frames, video, getClassList(frames), settings.headKeypoints);
+  }
+}
+
+async function encodeJpeg(image: ImageData, quality: number): Promise<Uint8Array> {
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+  ctx.putImageData(image, 0, 0);
+
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: 'image/jpeg', quality })
+    : await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Failed to encode frame'))), 'image/jpeg', quality);
+    });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Stored zip without zip64: offsets and sizes are 32-bit and the entry count 16-bit
+const MAX_ZIP_ENTRIES = 0xffff;
+// The archive is assembled in memory, so it is capped well below the 4 GiB zip limit
+const MAX_ZIP_BYTES = 2 * 1024 ** 3;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function getZipEntrySize(path: string, data: DatasetFile['data']): number {
+  const encoder = new TextEncoder();
+  const nameLength = encoder.encode(path).length;
+  const dataLength = typeof data === 'string' ? encoder.encode(data).length : data.length;
+  // Local header, central directory record and the name in both
+  return 30 + 46 + 2 * nameLength + dataLength;
+}
+
+function checkZipLimits(entries: number, bytes: number): void {
+  if (entries > MAX_ZIP_ENTRIES) {
+    throw new Error(`Dataset has ${entries} files; zip archives hold at most ${MAX_ZIP_ENTRIES}. Export keyframes only.`);
+  }
+  if (bytes > MAX_ZIP_BYTES) {
+    throw new Error(
+      `Dataset is larger than ${MAX_ZIP_BYTES / 1024 ** 3} GB. Export keyframes only, lower the image quality or leave out the images.`
+    );
+  }
+}
+
+/**
+ * Pack files into an uncompressed zip archive. JPEGs gain nothing from
+ * deflate, and stored entries open in every unzip tool.
+ */
+export function createZip(files: DatasetFile[]): Blob {
+  checkZipLimits(files.length, files.reduce((size, file) => size + getZipEntrySize(file.path, file.data), 22));
+
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);           // Version needed
+    local.setUint16(6, 0x0800, true);       // UTF-8 names
+    local.setUint16(8, 0, true);            // Stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);         // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * Zip the detections as a MOT, COCO or YOLO dataset, optionally with a JPEG of
+ * every exported frame taken from the video
+ */
+export async function exportDataset(
+  detections: Detection[],
+  video: DatasetVideoInfo,
+  options: Partial<DatasetExportOptions> = {},
+  extractFrame?: (time: number) => Promise<ImageData>,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const settings = { ...DEFAULT_DATASET_EXPORT_OPTIONS, ...options };
+  const files = buildDatasetFiles(detections, video, settings);
+
+  if (settings.includeImages && extractFrame) {
+    const frames = selectFrames(detections, settings.frames);
+    const directory = getImageDirectory(settings.format);
+    checkZipLimits(files.length + frames.length, 0);
+
+    // Checked as the images come in, so an oversized export stops early
+    let size = files.reduce((total, file) => total + getZipEntrySize(file.path, file.data), 22);
+    for (let i = 0; i < frames.length; i++) {
+      // Same timestamp the analysis grabbed the frame at, so images match their boxes
+      const image = await extractFrame(frames[i].frameNumber / video.fps);
+      const file = { path: `${directory}/${getImageName(frames[i].frameNumber)}`, data: await encodeJpeg(image, settings.imageQuality) };
+      size += getZipEntrySize(file.path, file.data);
+      checkZipLimits(files.length + 1, size);
+      files.push(file);
+      onProgress?.((i + 1) / frames.length);
+    }
+  }
+
+  return createZip(files);
+}
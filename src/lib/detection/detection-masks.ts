@@ -0,0 +1,85 @@
+import { BoundingBox, DetectionMask, Point } from '@/types';
+
+/**
+ * Outline of a mask on a frame, or null outside its frame range. Between two
+ * keyframes with the same number of points the outline moves linearly;
+ * otherwise the earlier outline holds until the next keyframe.
+ */
+export function getMaskPolygon(mask: DetectionMask, frameNumber: number): Point[] | null {
+  if (frameNumber < mask.startFrame || frameNumber > mask.endFrame || mask.keyframes.length === 0) {
+    return null;
+  }
+
+  const nextIndex = mask.keyframes.findIndex(keyframe => keyframe.frameNumber > frameNumber);
+  if (nextIndex === 0) return mask.keyframes[0].points;
+  if (nextIndex === -1) return mask.keyframes[mask.keyframes.length - 1].points;
+
+  const prev = mask.keyframes[nextIndex - 1];
+  const next = mask.keyframes[nextIndex];
+  if (prev.points.length !== next.points.length) return prev.points;
+
+  const t = (frameNumber - prev.frameNumber) / (next.frameNumber - prev.frameNumber);
+  return prev.points.map((point, i) => ({
+    x: point.x + (next.points[i].x - point.x) * t,
+    y: point.y + (next.points[i].y - point.y) * t
+  }));
+}
+
+/**
+ * Even-odd ray casting
+ */
+export function isInsidePolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Drop boxes whose center lies in an exclude mask. While any include mask is
+ * active, only boxes inside one of them are kept.
+ */
+export function applyDetectionMasks(boxes: BoundingBox[], masks: DetectionMask[], frameNumber: number): BoundingBox[] {
+  if (masks.length === 0) return boxes;
+
+  const excluded: Point[][] = [];
+  const included: Point[][] = [];
+  for (const mask of masks) {
+    const polygon = getMaskPolygon(mask, frameNumber);
+    if (!polygon || polygon.length < 3) continue;
+    (mask.mode === 'include' ? included : excluded).push(polygon);
+  }
+  if (excluded.length === 0 && included.length === 0) return boxes;
+
+  return boxes.filter(box => {
+    const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    if (excluded.some(polygon => isInsidePolygon(center, polygon))) return false;
+    return included.length === 0 || included.some(polygon => isInsidePolygon(center, polygon));
+  });
+}
+
+/**
+ * Set the outline of a mask from a frame on, replacing a keyframe on that frame
+ */
+export function setMaskOutline(mask: DetectionMask, frameNumber: number, points: Point[]): DetectionMask {
+  const keyframes = mask.keyframes.filter(keyframe => keyframe.frameNumber !== frameNumber);
+  keyframes.push({ frameNumber, points });
+  keyframes.sort((a, b) => a.frameNumber - b.frameNumber);
+  return { ...mask, keyframes };
+}
+
+export function createMaskId(masks: DetectionMask[]): string {
+  const used = new Set(masks.map(mask => mask.id));
+  let n = masks.length + 1;
+  while (used.has(`mask-${n}`)) n++;
+  return `mask-${n}`;
+}
+
+export function sameMasks(a: DetectionMask[], b: DetectionMask[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,137 @@
+import { Detection, SlicingSettings } from '@/types';
+import { DetectorInput } from './detector';
+import { TransferableFrame } from './canvas-utils';
+import {
+  DetectionEngine,
+  FrameAnalysisResult,
+  PipelineSettings,
+  VideoAnalysisOptions,
+  VideoAnalysisResult
+} from './pipeline';
+import {
+  DetectionWorkerRequest,
+  DetectionWorkerRequestType,
+  DetectionWorkerResponse,
+  DetectionWorkerResultMap
+} from './worker-protocol';
+
+// Distributes over the request union so each message keeps its own fields
+type RequestBody<T extends DetectionWorkerRequestType> =
+  DetectionWorkerRequest extends infer R ? R extends { type: T } ? Omit<R, 'id'> : never : never;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs the detection pipeline in a dedicated worker so inference and tracking
+ * don't block the page. Frames are sent as transferred ImageBitmaps.
+ */
+export class DetectionWorkerClient implements DetectionEngine {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor() {
+    this.worker = new Worker(new URL('../../workers/detection.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event: ErrorEvent) => this.rejectAll(new Error(event.message || 'Detection worker failed'));
+  }
+
+  /**
+   * Workers need OffscreenCanvas and createImageBitmap to read frames
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  initialize(settings: PipelineSettings): Promise<void> {
+    return this.request('initialize', { type: 'initialize', settings });
+  }
+
+  setClassSet(classSetId: string): Promise<void> {
+    return this.request('setClassSet', { type: 'setClassSet', classSetId });
+  }
+
+  setFaceLandmarks(enabled: boolean): Promise<void> {
+    return this.request('setFaceLandmarks', { type: 'setFaceLandmarks', enabled });
+  }
+
+  setSlicing(settings: SlicingSettings): Promise<void> {
+    return this.request('setSlicing', { type: 'setSlicing', settings });
+  }
+
+  setConfidenceThreshold(threshold: number): Promise<void> {
+    return this.request('setConfidenceThreshold', { type: 'setConfidenceThreshold', threshold });
+  }
+
+  async detectFrame(image: DetectorInput, frameNumber: number, timestamp: number): Promise<Detection> {
+    const frame = await createImageBitmap(image);
+    return this.request('detectFrame', { type: 'detectFrame', frame, frameNumber, timestamp }, [frame]);
+  }
+
+  beginVideo(options: VideoAnalysisOptions): Promise<void> {
+    return this.request('beginVideo', { type: 'beginVideo', options });
+  }
+
+  async processFrame(image: ImageData, frameNumber: number, timestamp: number): Promise<FrameAnalysisResult> {
+    const frame = await createImageBitmap(image);
+    return this.processTransferableFrame(frame, frameNumber, timestamp);
+  }
+
+  /**
+   * Hand over an ImageBitmap or VideoFrame without copying; the worker closes it
+   */
+  processTransferableFrame(frame: TransferableFrame, frameNumber: number, timestamp: number): Promise<FrameAnalysisResult> {
+    return this.request('processFrame', { type: 'processFrame', frame, frameNumber, timestamp }, [frame]);
+  }
+
+  getDetectionsSoFar(): Promise<Detection[]> {
+    return this.request('getDetectionsSoFar', { type: 'getDetectionsSoFar' });
+  }
+
+  finishVideo(): Promise<VideoAnalysisResult> {
+    return this.request('finishVideo', { type: 'finishVideo' });
+  }
+
+  reset(): Promise<void> {
+    return this.request('reset', { type: 'reset' });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.rejectAll(new Error('Detection worker terminated'));
+  }
+
+  private request<T extends DetectionWorkerRequestType>(
+    type: T,
+    body: RequestBody<T>,
+    transfer: Transferable[] = []
+  ): Promise<DetectionWorkerResultMap[T]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.worker.postMessage({ ...body, id } as DetectionWorkerRequest, transfer);
+    });
+  }
+
+  private handleResponse(response: DetectionWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,193 @@
+import { Detector, DetectorBackend } from './detector';
+import { DEFAULT_CLASS_SET_ID } from './class-sets';
+import { DetectionSettings } from '@/types';
+
+export interface DetectorDefinition {
+  id: string;
+  name: string;
+  description: string;
+  backend: DetectorBackend;
+  create: () => Promise<Detector>;
+}
+
+/**
+ * Manifest entry for team-supplied models served from /public.
+ * `kind` picks which built-in decoder understands the model output.
+ */
+export interface DetectorManifestEntry {
+  id: string;
+  name: string;
+  description?: string;
+  kind: 'yolov8' | 'rtdetr-head' | 'yolov8-face' | 'yolov8-pose';
+  modelPath: string;
+  inputSize?: number;
+  classNames?: string[];
+}
+
+export const DEFAULT_DETECTOR_ID = 'yolov8n-tfjs';
+export const DETECTOR_MANIFEST_PATH = '/detectors.json';
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  detectorId: DEFAULT_DETECTOR_ID,
+  classSetId: DEFAULT_CLASS_SET_ID,
+  faceLandmarks: false,
+  headDetection: false
+};
+
+const detectorDefinitions = new Map<string, DetectorDefinition>();
+
+/**
+ * Register a detector backend. Re-registering an id replaces the old definition.
+ */
+export function registerDetector(definition: DetectorDefinition): void {
+  detectorDefinitions.set(definition.id, definition);
+}
+
+export function unregisterDetector(id: string): void {
+  detectorDefinitions.delete(id);
+}
+
+export function getDetectorDefinition(id: string): DetectorDefinition | undefined {
+  return detectorDefinitions.get(id);
+}
+
+export function listDetectors(): DetectorDefinition[] {
+  return Array.from(detectorDefinitions.values());
+}
+
+/**
+ * Create an uninitialized detector by id
+ */
+export async function createDetector(id: string = DEFAULT_DETECTOR_ID): Promise<Detector> {
+  const definition = detectorDefinitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown detector: ${id}`);
+  }
+  return definition.create();
+}
+
+/**
+ * Register detectors described by a manifest entry list
+ */
+export function registerDetectorsFromManifest(entries: DetectorManifestEntry[]): void {
+  for (const entry of entries) {
+    registerDetector({
+      id: entry.id,
+      name: entry.name,
+      description: entry.description ?? `${entry.kind} model at ${entry.modelPath}`,
+      backend: entry.kind === 'yolov8' ? 'tfjs' : 'onnx',
+      create: async () => {
+        if (entry.kind === 'yolov8') {
+          const { PersonYOLODetector } = await import('./person-yolo');
+          return new PersonYOLODetector({
+            id: entry.id,
+            name: entry.name,
+            modelPath: entry.modelPath,
+            inputSize: entry.inputSize,
+            classNames: entry.classNames
+          });
+        }
+        if (entry.kind === 'yolov8-face') {
+          const { FaceLandmarkDetector } = await import('./face-detector');
+          return new FaceLandmarkDetector({
+            id: entry.id,
+            name: entry.name,
+            modelPath: entry.modelPath,
+            inputSize: entry.inputSize
+          });
+        }
+        if (entry.kind === 'yolov8-pose') {
+          const { PoseEstimator } = await import('./pose-estimator');
+          return new PoseEstimator({
+            id: entry.id,
+            name: entry.name,
+            modelPath: entry.modelPath,
+            inputSize: entry.inputSize
+          });
+        }
+        const { HeadDetector } = await import('./head-detector');
+        return new HeadDetector({
+          id: entry.id,
+          name: entry.name,
+          modelPath: entry.modelPath,
+          inputSize: entry.inputSize
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Load the optional detector manifest so teams can drop in models without code changes.
+ * A missing manifest is not an error.
+ */
+export async function loadDetectorManifest(path: string = DETECTOR_MANIFEST_PATH): Promise<DetectorDefinition[]> {
+  try {
+    const response = await fetch(path);
+    if (!response.ok) {
+      return [];
+    }
+    const entries = await response.json() as DetectorManifestEntry[];
+    registerDetectorsFromManifest(entries);
+    return entries.map(entry => detectorDefinitions.get(entry.id)!);
+  } catch (error) {
+    // console.warn('Failed to load detector manifest:', error);
+    return [];
+  }
+}
+
+// Built-in detectors
+registerDetector({
+  id: 'yolov8n-tfjs',
+  name: 'YOLOv8n (TF.js)',
+  description: 'COCO object detector running on WebGL',
+  backend: 'tfjs',
+  create: async () => {
+    const { PersonYOLODetector } = await import('./person-yolo');
+    return new PersonYOLODetector();
+  }
+});
+
+registerDetector({
+  id: 'yolov8n-tfjs-nms',
+  name: 'YOLOv8n (TF.js, tensor NMS)',
+  description: 'COCO object detector using TF.js non-max suppression',
+  backend: 'tfjs',
+  create: async () => {
+    const { YOLODetector } = await import('./yolo');
+    return new YOLODetector();
+  }
+});
+
+registerDetector({
+  id: 'rtdetr-head-onnx',
+  name: 'RT-DETR Head (ONNX)',
+  description: 'Head detector running on ONNX Runtime (WASM)',
+  backend: 'onnx',
+  create: async () => {
+    const { HeadDetector } = await import('./head-detector');
+    return new HeadDetector();
+  }
+});
+
+registerDetector({
+  id: 'yolov8n-face-onnx',
+  name: 'YOLOv8n Face + Landmarks (ONNX)',
+  description: 'Face detector with eye, nose and mouth landmarks for talking-head framing',
+  backend: 'onnx',
+  create: async () => {
+    const { FaceLandmarkDetector } = await import('./face-detector');
+    return new FaceLandmarkDetector();
+  }
+});
+
+registerDetector({
+  id: 'yolov8n-pose-onnx',
+  name: 'YOLOv8n Pose (ONNX)',
+  description: 'Person detector with body keypoints for head, torso and facing direction',
+  backend: 'onnx',
+  create: async () => {
+    const { PoseEstimator } = await import('./pose-estimator');
+    return new PoseEstimator();
+  }
+});
@@ -0,0 +1,110 @@
+import { BoundingBox } from '@/types';
+import { createCanvas, toDrawable } from './canvas-utils';
+
+export type DetectorInput = ImageData | HTMLVideoElement | HTMLCanvasElement;
+
+export type DetectorBackend = 'tfjs' | 'onnx';
+
+/**
+ * What a detector is able to produce, so callers can decide how to use it
+ */
+export interface DetectorCapabilities {
+  // Full-frame object boxes (person, ball, dog, ...)
+  objects: boolean;
+  // Head boxes
+  heads: boolean;
+  // Can refine a single box crop (e.g. find the head inside a person box)
+  cropRefinement: boolean;
+  // Face boxes with eye, nose and mouth landmarks
+  landmarks: boolean;
+  // Body pose keypoints per person
+  keypoints: boolean;
+}
+
+/**
+ * Common contract for every detection model backend
+ */
+export interface Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend: DetectorBackend;
+  readonly inputSize: number;
+  readonly classNames: readonly string[];
+  readonly capabilities: DetectorCapabilities;
+
+  initialize(): Promise<void>;
+  isInitialized(): boolean;
+  detect(image: DetectorInput, frameNumber?: number): Promise<BoundingBox[]>;
+
+  getConfidenceThreshold(): number;
+  setConfidenceThreshold(threshold: number): void;
+  getIouThreshold(): number;
+  setIouThreshold(threshold: number): void;
+
+  // Restrict output to these class names (null = all classes)
+  getClassFilter(): string[] | null;
+  setClassFilter(classNames: string[] | null): void;
+
+  dispose(): void;
+}
+
+/**
+ * Get width/height of any supported detector input
+ */
+export function getInputDimensions(image: DetectorInput): { width: number; height: number } {
+  if (typeof HTMLVideoElement !== 'undefined' && image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight };
+  }
+  return { width: image.width, height: image.height };
+}
+
+export interface LetterboxResult {
+  input: Float32Array; // [1, 3, size, size] planar RGB in [0, 1]
+  scale: number;
+  padX: number;
+  padY: number;
+}
+
+/**
+ * Resize keeping aspect ratio and pad to a square, as YOLOv8 ONNX exports were trained.
+ * Map model coordinates back with (v - pad) / scale.
+ */
+export function letterbox(image: DetectorInput, size: number): LetterboxResult {
+  const { width, height } = getInputDimensions(image);
+  const scale = Math.min(size / width, size / height);
+  const scaledWidth = Math.round(width * scale);
+  const scaledHeight = Math.round(height * scale);
+  const padX = Math.floor((size - scaledWidth) / 2);
+  const padY = Math.floor((size - scaledHeight) / 2);
+
+  const { ctx } = createCanvas(size, size);
+  ctx.fillStyle = 'rgb(114, 114, 114)';
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(toDrawable(image), padX, padY, scaledWidth, scaledHeight);
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const planeSize = size * size;
+  const input = new Float32Array(3 * planeSize);
+  for (let i = 0; i < planeSize; i++) {
+    input[i] = data[i * 4] / 255;
+    input[planeSize + i] = data[i * 4 + 1] / 255;
+    input[2 * planeSize + i] = data[i * 4 + 2] / 255;
+  }
+
+  return { input, scale, padX, padY };
+}
+
+/**
+ * Resolve a class-name filter to the class indices a model knows
+ */
+export function resolveClassFilter(classNames: readonly string[], filter: string[] | null): Set<number> | null {
+  if (!filter) return null;
+  const allowed = new Set<number>();
+  for (const name of filter) {
+    const index = classNames.indexOf(name);
+    if (index !== -1) {
+      allowed.add(index);
+    }
+  }
+  return allowed;
+}
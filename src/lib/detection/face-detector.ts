@@ -0,0 +1,189 @@
+import * as ort from 'onnxruntime-web';
+import { BoundingBox, FaceLandmarks, Point } from '@/types';
+import { Detector, DetectorCapabilities, DetectorInput, getInputDimensions, letterbox } from './detector';
+import { nonMaxSuppression } from './bytetrack-proper/matching';
+
+export interface FaceLandmarkDetectorOptions {
+  id?: string;
+  name?: string;
+  modelPath?: string;
+  inputSize?: number;
+}
+
+export const DEFAULT_FACE_MODEL_PATH = '/yolov8n-face.onnx';
+
+const NUM_LANDMARKS = 5;
+
+/**
+ * YOLOv8-face detector with five-point landmarks (eyes, nose, mouth corners).
+ * Expects the usual YOLOv8-face ONNX export: input [1, 3, S, S] in [0, 1],
+ * output [1, 5 + 5 * k, N] (or transposed) where k is 3 (x, y, visibility) or 2 (x, y).
+ */
+export class FaceLandmarkDetector implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend = 'onnx' as const;
+  readonly inputSize: number;
+  readonly classNames: readonly string[] = ['face'];
+  readonly capabilities: DetectorCapabilities = { objects: false, heads: true, cropRefinement: false, landmarks: true, keypoints: false };
+
+  private session: ort.InferenceSession | null = null;
+  private modelPath: string;
+  private confidenceThreshold = 0.4;
+  private iouThreshold = 0.45;
+  private maxDetections = 50;
+  private classFilter: string[] | null = null; // Single-class model, kept for interface parity
+
+  constructor(options: FaceLandmarkDetectorOptions = {}) {
+    this.id = options.id ?? 'yolov8n-face-onnx';
+    this.name = options.name ?? 'YOLOv8n Face + Landmarks (ONNX)';
+    this.modelPath = options.modelPath ?? DEFAULT_FACE_MODEL_PATH;
+    this.inputSize = options.inputSize ?? 640;
+  }
+
+  async initialize(): Promise<void> {
+    const response = await fetch(this.modelPath, { method: 'HEAD' });
+    if (!response.ok) {
+      throw new Error(`Face model not found: ${this.modelPath} (${response.status})`);
+    }
+
+    this.session = await ort.InferenceSession.create(this.modelPath, {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+  }
+
+  isInitialized(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Detect faces as face-class bounding boxes with landmarks attached
+   */
+  async detect(imageData: DetectorInput): Promise<BoundingBox[]> {
+    const faces = await this.detectFaces(imageData);
+    return faces.map(face => ({
+      x: face.x,
+      y: face.y,
+      width: face.width,
+      height: face.height,
+      confidence: face.confidence,
+      class: 'face',
+      classId: 0,
+      headCenterX: face.x + face.width / 2,
+      headCenterY: face.y + face.height / 2,
+      face
+    }));
+  }
+
+  /**
+   * Detect all faces in the full image
+   */
+  async detectFaces(imageData: DetectorInput): Promise<FaceLandmarks[]> {
+    if (!this.session) {
+      throw new Error('Face detector not initialized');
+    }
+
+    const { width, height } = getInputDimensions(imageData);
+    const { input, scale, padX, padY } = letterbox(imageData, this.inputSize);
+
+    const feeds: Record<string, ort.Tensor> = {
+      [this.session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, this.inputSize, this.inputSize])
+    };
+    const output = await this.session.run(feeds);
+    const tensor = output[this.session.outputNames[0]];
+
+    const faces = this.decode(tensor, scale, padX, padY, width, height);
+    return nonMaxSuppression(faces, this.iouThreshold, this.maxDetections);
+  }
+
+  private decode(
+    tensor: ort.Tensor,
+    scale: number,
+    padX: number,
+    padY: number,
+    width: number,
+    height: number
+  ): FaceLandmarks[] {
+    const data = tensor.data as Float32Array;
+    const [, dim1, dim2] = tensor.dims;
+
+    // Channels are the smaller axis: [1, 20, 8400] or [1, 8400, 20]
+    const channelsFirst = dim1 < dim2;
+    const channels = channelsFirst ? dim1 : dim2;
+    const numAnchors = channelsFirst ? dim2 : dim1;
+    const landmarkStride = (channels - 5) / NUM_LANDMARKS;
+    const value = (anchor: number, channel: number) =>
+      channelsFirst ? data[channel * numAnchors + anchor] : data[anchor * channels + channel];
+
+    const toImage = (x: number, y: number): Point => ({
+      x: Math.max(0, Math.min(width, (x - padX) / scale)),
+      y: Math.max(0, Math.min(height, (y - padY) / scale))
+    });
+
+    const faces: FaceLandmarks[] = [];
+    for (let i = 0; i < numAnchors; i++) {
+      const confidence = value(i, 4);
+      if (confidence <= this.confidenceThreshold) continue;
+
+      const cx = value(i, 0);
+      const cy = value(i, 1);
+      const w = value(i, 2);
+      const h = value(i, 3);
+      const topLeft = toImage(cx - w / 2, cy - h / 2);
+      const bottomRight = toImage(cx + w / 2, cy + h / 2);
+
+      const landmarks: Point[] = [];
+      for (let k = 0; k < NUM_LANDMARKS; k++) {
+        const offset = 5 + k * landmarkStride;
+        landmarks.push(toImage(value(i, offset), value(i, offset + 1)));
+      }
+
+      faces.push({
+        x: topLeft.x,
+        y: topLeft.y,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y,
+        confidence,
+        leftEye: landmarks[0],
+        rightEye: landmarks[1],
+        nose: landmarks[2],
+        mouthLeft: landmarks[3],
+        mouthRight: landmarks[4]
+      });
+    }
+
+    return faces;
+  }
+
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
+  }
+
+  setConfidenceThreshold(threshold: number): void {
+    this.confidenceThreshold = threshold;
+  }
+
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+
+  setIouThreshold(threshold: number): void {
+    this.iouThreshold = threshold;
+  }
+
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+  }
+
+  dispose(): void {
+    if (this.session) {
+      this.session.release();
+      this.session = null;
+    }
+  }
+}
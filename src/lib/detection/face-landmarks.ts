@@ -0,0 +1,102 @@
+import { BoundingBox, FaceLandmarks, Point } from '@/types';
+
+/**
+ * Midpoint between the eyes - the point talking-head framing composes on
+ */
+export function getEyeCenter(face: FaceLandmarks): Point {
+  return {
+    x: (face.leftEye.x + face.rightEye.x) / 2,
+    y: (face.leftEye.y + face.rightEye.y) / 2
+  };
+}
+
+/**
+ * Distance between the eyes. Stays stable when the mouth opens or the chin drops,
+ * so it is a steadier size cue than the face box height for frontal faces.
+ */
+export function getInterocularDistance(face: FaceLandmarks): number {
+  return Math.hypot(face.rightEye.x - face.leftEye.x, face.rightEye.y - face.leftEye.y);
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t
+  };
+}
+
+/**
+ * Interpolate a face between two keyframes (t in [0, 1])
+ */
+export function interpolateFaceLandmarks(prev: FaceLandmarks, next: FaceLandmarks, t: number): FaceLandmarks {
+  return {
+    x: prev.x + (next.x - prev.x) * t,
+    y: prev.y + (next.y - prev.y) * t,
+    width: prev.width + (next.width - prev.width) * t,
+    height: prev.height + (next.height - prev.height) * t,
+    confidence: Math.min(prev.confidence, next.confidence),
+    leftEye: lerpPoint(prev.leftEye, next.leftEye, t),
+    rightEye: lerpPoint(prev.rightEye, next.rightEye, t),
+    nose: lerpPoint(prev.nose, next.nose, t),
+    mouthLeft: lerpPoint(prev.mouthLeft, next.mouthLeft, t),
+    mouthRight: lerpPoint(prev.mouthRight, next.mouthRight, t)
+  };
+}
+
+/**
+ * Move a face with its box when only one keyframe has face data
+ */
+export function translateFaceLandmarks(face: FaceLandmarks, dx: number, dy: number): FaceLandmarks {
+  const move = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+  return {
+    ...face,
+    x: face.x + dx,
+    y: face.y + dy,
+    leftEye: move(face.leftEye),
+    rightEye: move(face.rightEye),
+    nose: move(face.nose),
+    mouthLeft: move(face.mouthLeft),
+    mouthRight: move(face.mouthRight)
+  };
+}
+
+/**
+ * Attach each detected face to the person box that contains it and set the
+ * box's head center from the face. Faces nearer the top of a box win, so a
+ * person holding a photo or a second face lower in the box don't steal it.
+ * Returns the number of boxes that received a face.
+ */
+export function attachFacesToBoxes(boxes: BoundingBox[], faces: FaceLandmarks[]): number {
+  const candidates: { box: BoundingBox; face: FaceLandmarks; score: number }[] = [];
+
+  for (const box of boxes) {
+    if (box.class !== 'person') continue;
+
+    for (const face of faces) {
+      const centerX = face.x + face.width / 2;
+      const centerY = face.y + face.height / 2;
+      const inside = centerX >= box.x && centerX <= box.x + box.width &&
+        centerY >= box.y && centerY <= box.y + box.height;
+      if (!inside) continue;
+
+      const relativeY = (centerY - box.y) / box.height;
+      candidates.push({ box, face, score: face.confidence * (1 - 0.5 * relativeY) });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedBoxes = new Set<BoundingBox>();
+  const usedFaces = new Set<FaceLandmarks>();
+  for (const { box, face } of candidates) {
+    if (usedBoxes.has(box) || usedFaces.has(face)) continue;
+    usedBoxes.add(box);
+    usedFaces.add(face);
+
+    box.face = face;
+    box.headCenterX = face.x + face.width / 2;
+    box.headCenterY = face.y + face.height / 2;
+  }
+
+  return usedBoxes.size;
+}
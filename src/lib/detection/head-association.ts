@@ -0,0 +1,86 @@
+import { BoundingBox } from '@/types';
+import { estimateHeadCenter } from './pose-utils';
+import { boxIoU } from './bytetrack-proper/matching';
+
+// At least this share of the head box must lie inside the person box
+const MIN_CONTAINMENT = 0.6;
+// Expected head size relative to person box width
+const EXPECTED_HEAD_SCALE = 0.45;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function intersectionArea(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Where the head of a person box should be: a square around the keypoint or
+ * box-shape head estimate
+ */
+function expectedHeadRegion(person: BoundingBox): Rect {
+  const center = estimateHeadCenter({ ...person, headCenterX: undefined, headCenterY: undefined });
+  const size = Math.min(person.width, person.height) * EXPECTED_HEAD_SCALE;
+  return { x: center.x - size / 2, y: center.y - size / 2, width: size, height: size };
+}
+
+/**
+ * Pair full-frame head detections with person boxes. A head must lie mostly
+ * inside the person; among those, overlap with the expected head region and
+ * confidence decide. Each person and each head is used at most once.
+ */
+export function associateHeads(persons: BoundingBox[], heads: BoundingBox[]): Map<BoundingBox, BoundingBox> {
+  const candidates: { person: BoundingBox; head: BoundingBox; score: number }[] = [];
+
+  for (const person of persons) {
+    if (person.class !== 'person') continue;
+    const expected = expectedHeadRegion(person);
+
+    for (const head of heads) {
+      const headArea = head.width * head.height;
+      if (headArea <= 0) continue;
+
+      const containment = intersectionArea(person, head) / headArea;
+      if (containment < MIN_CONTAINMENT) continue;
+
+      // Heads low in the box are more likely someone else's in front
+      const relativeY = (head.y + head.height / 2 - person.y) / person.height;
+      const score = head.confidence * (containment + boxIoU(expected, head)) * (1 - 0.5 * relativeY);
+      candidates.push({ person, head, score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const pairs = new Map<BoundingBox, BoundingBox>();
+  const usedHeads = new Set<BoundingBox>();
+  for (const { person, head } of candidates) {
+    if (pairs.has(person) || usedHeads.has(head)) continue;
+    pairs.set(person, head);
+    usedHeads.add(head);
+  }
+
+  return pairs;
+}
+
+/**
+ * Set head centers from associated head detections on people that don't have
+ * one from a face or pose yet. Returns how many people got a head.
+ */
+export function attachHeadsToBoxes(boxes: BoundingBox[], heads: BoundingBox[]): number {
+  const persons = boxes.filter(box => box.class === 'person' && box.headCenterX === undefined);
+  const pairs = associateHeads(persons, heads);
+
+  pairs.forEach((head, person) => {
+    person.headCenterX = head.x + head.width / 2;
+    person.headCenterY = head.y + head.height / 2;
+  });
+
+  return pairs.size;
+}
@@ -1,8 +1,10 @@
 import * as tf from '@tensorflow/tfjs';
 import * as ort from 'onnxruntime-web';
 import { BoundingBox } from '@/types';
+import { Detector, DetectorCapabilities, DetectorInput, getInputDimensions } from './detector';
+import { createCanvas, toDrawable } from './canvas-utils';
 
-interface HeadDetection {
+export interface HeadDetection {
   x: number;
   y: number;
   width: number;
@@ -10,11 +12,33 @@ interface HeadDetection {
   confidence: number;
 }
 
-export class HeadDetector {
+export interface HeadDetectorOptions {
+  id?: string;
+  name?: string;
+  modelPath?: string;
+  inputSize?: number;
+}
+
+export class HeadDetector implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend = 'onnx' as const;
+  readonly inputSize: number;
+  readonly classNames: readonly string[] = ['head'];
+  readonly capabilities: DetectorCapabilities = { objects: false, heads: true, cropRefinement: true, landmarks: false, keypoints: false };
+
   private session: ort.InferenceSession | null = null;
-  private modelPath = '/head_model_640.onnx';
-  private inputSize = 640;
+  private modelPath: string;
   private confidenceThreshold = 0.05; // Very low threshold to detect more heads
+  private iouThreshold = 0.5; // DETR output needs no NMS, kept for interface parity
+  private classFilter: string[] | null = null; // Single-class model, kept for interface parity
+
+  constructor(options: HeadDetectorOptions = {}) {
+    this.id = options.id ?? 'rtdetr-head-onnx';
+    this.name = options.name ?? 'RT-DETR Head (ONNX)';
+    this.modelPath = options.modelPath ?? '/head_model_640.onnx';
+    this.inputSize = options.inputSize ?? 640;
+  }
   
   async initialize(): Promise<void> {
     try {
@@ -49,11 +73,27 @@ export class HeadDetector {
     }
   }
   
+  isInitialized(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Detect all heads in the image as head-class bounding boxes
+   */
+  async detect(imageData: DetectorInput): Promise<BoundingBox[]> {
+    const heads = await this.detectHeads(imageData);
+    return heads.map(head => ({
+      ...head,
+      class: 'head',
+      classId: 0
+    }));
+  }
+
   /**
    * Detect heads within a person bounding box
    */
   async detectHeadInBox(
-    imageData: ImageData | HTMLCanvasElement,
+    imageData: DetectorInput,
     personBox: BoundingBox,
     padding: number = 0.1
   ): Promise<HeadDetection | null> {
@@ -75,28 +115,13 @@ export class HeadDetector {
       // console.log(`Cropped region: (${cropX}, ${cropY}, ${cropWidth}, ${cropHeight})`);
       
       // Create canvas for cropping
-      const cropCanvas = document.createElement('canvas');
-      cropCanvas.width = cropWidth;
-      cropCanvas.height = cropHeight;
-      const cropCtx = cropCanvas.getContext('2d')!;
+      const { canvas: cropCanvas, ctx: cropCtx } = createCanvas(cropWidth, cropHeight);
       
       // Draw cropped region
-      if (imageData instanceof ImageData) {
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = imageData.width;
-        tempCanvas.height = imageData.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        tempCtx.putImageData(imageData, 0, 0);
-        cropCtx.drawImage(tempCanvas, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
-      } else {
-        cropCtx.drawImage(imageData, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
-      }
+      cropCtx.drawImage(toDrawable(imageData), cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
       
       // Resize to model input size
-      const resizeCanvas = document.createElement('canvas');
-      resizeCanvas.width = this.inputSize;
-      resizeCanvas.height = this.inputSize;
-      const resizeCtx = resizeCanvas.getContext('2d')!;
+      const { ctx: resizeCtx } = createCanvas(this.inputSize, this.inputSize);
       resizeCtx.drawImage(cropCanvas, 0, 0, this.inputSize, this.inputSize);
       
       // Get image data and preprocess
@@ -206,37 +231,24 @@ export class HeadDetector {
   /**
    * Detect all heads in the full image
    */
-  async detectHeads(imageData: ImageData | HTMLCanvasElement): Promise<HeadDetection[]> {
+  async detectHeads(imageData: DetectorInput): Promise<HeadDetection[]> {
     if (!this.session) {
       throw new Error('Head detector not initialized');
     }
     
     try {
       // Create canvas for resizing
-      const canvas = document.createElement('canvas');
-      canvas.width = this.inputSize;
-      canvas.height = this.inputSize;
-      const ctx = canvas.getContext('2d')!;
+      const { ctx } = createCanvas(this.inputSize, this.inputSize);
       
       // Draw and resize image
-      if (imageData instanceof ImageData) {
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = imageData.width;
-        tempCanvas.height = imageData.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        tempCtx.putImageData(imageData, 0, 0);
-        ctx.drawImage(tempCanvas, 0, 0, this.inputSize, this.inputSize);
-      } else {
-        ctx.drawImage(imageData, 0, 0, this.inputSize, this.inputSize);
-      }
+      ctx.drawImage(toDrawable(imageData), 0, 0, this.inputSize, this.inputSize);
       
       // Get image data and preprocess
       const imgData = ctx.getImageData(0, 0, this.inputSize, this.inputSize);
       const input = this.preprocessImage(imgData);
       
       // Get original dimensions
-      const origWidth = imageData instanceof ImageData ? imageData.width : imageData.width;
-      const origHeight = imageData instanceof ImageData ? imageData.height : imageData.height;
+      const { width: origWidth, height: origHeight } = getInputDimensions(imageData);
       
       // Run inference
       const feeds: Record<string, ort.Tensor> = {};
@@ -408,10 +420,30 @@ export class HeadDetector {
     return detections;
   }
   
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
+  }
+  
   setConfidenceThreshold(threshold: number): void {
     this.confidenceThreshold = threshold;
   }
   
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+  
+  setIouThreshold(threshold: number): void {
+    this.iouThreshold = threshold;
+  }
+  
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+  
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+  }
+  
   dispose(): void {
     if (this.session) {
       this.session.release();
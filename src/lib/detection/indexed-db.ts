@@ -0,0 +1,33 @@
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open an IndexedDB database on first use and reuse the connection after that.
+ * A failed open is forgotten, so the next call tries again.
+ */
+export function createDatabaseOpener(
+  name: string,
+  upgrade: (db: IDBDatabase) => void,
+  version: number = 1
+): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+}
@@ -0,0 +1,256 @@
+import { DetectorBackend } from './detector';
+import { getDetectorDefinition, loadDetectorManifest, registerDetector, unregisterDetector } from './detector-registry';
+import { createDatabaseOpener, promisifyRequest } from './indexed-db';
+
+const DB_NAME = 'autoreframer-models';
+const STORE_NAME = 'models';
+
+/**
+ * How a model's output tensor is laid out:
+ * - yolov8: [cx, cy, w, h, class scores...] per anchor, either axis first
+ * - yolov5: [cx, cy, w, h, objectness, class scores...] per anchor
+ * - detr: a normalized [cx, cy, w, h] box output plus a per-query score output
+ */
+export type ModelOutputLayout = 'yolov8' | 'yolov5' | 'detr';
+
+/**
+ * Per-channel RGB normalization applied to pixels scaled to [0, 1]
+ */
+export interface ModelNormalization {
+  mean: [number, number, number];
+  std: [number, number, number];
+}
+
+export const NORMALIZATION_PRESETS: Record<string, { name: string; normalization: ModelNormalization }> = {
+  'unit': {
+    name: '0 to 1 (YOLO)',
+    normalization: { mean: [0, 0, 0], std: [1, 1, 1] }
+  },
+  'imagenet': {
+    name: 'ImageNet mean/std (DETR)',
+    normalization: { mean: [0.485, 0.456, 0.406], std: [0.229, 0.224, 0.225] }
+  },
+  'raw': {
+    name: '0 to 255',
+    normalization: { mean: [0, 0, 0], std: [1 / 255, 1 / 255, 1 / 255] }
+  }
+};
+
+/**
+ * Everything the user declares about a model they load from disk
+ */
+export interface ModelSpec {
+  name: string;
+  backend: DetectorBackend;
+  inputSize: number;
+  layout: ModelOutputLayout;
+  classNames: string[];
+  normalization: ModelNormalization;
+}
+
+export interface InstalledModel extends ModelSpec {
+  id: string;
+  files: File[]; // model.json plus weight shards for TF.js, the .onnx file for ONNX
+  installedAt: number;
+}
+
+export interface ModelValidation {
+  valid: boolean;
+  error?: string;
+  outputShapes: number[][];
+}
+
+/**
+ * Backend implied by the picked files, or null when they are neither a
+ * TF.js graph model nor an ONNX model
+ */
+export function inferModelBackend(files: File[]): DetectorBackend | null {
+  if (files.some(file => file.name.endsWith('.onnx'))) return 'onnx';
+  if (files.some(file => file.name.endsWith('.json'))) return 'tfjs';
+  return null;
+}
+
+/**
+ * Parse class names typed one per line or comma-separated
+ */
+export function parseClassNames(text: string): string[] {
+  return text.split(/[\n,]/).map(name => name.trim()).filter(name => name.length > 0);
+}
+
+/**
+ * Check dry-run output shapes against the declared layout and class count.
+ * Returns why they don't match, or null when they do.
+ */
+export function checkModelOutputs(layout: ModelOutputLayout, classCount: number, shapes: number[][]): string | null {
+  if (shapes.length === 0) {
+    return 'The model produced no outputs';
+  }
+
+  if (layout === 'detr') {
+    const boxShape = shapes.find(shape => shape[shape.length - 1] === 4);
+    if (!boxShape) {
+      return `Expected a box output ending in 4, got ${formatShapes(shapes)}`;
+    }
+    if (shapes.length < 2) {
+      return 'Expected separate box and score outputs';
+    }
+    return null;
+  }
+
+  const channels = (layout === 'yolov5' ? 5 : 4) + classCount;
+  if (!shapes.some(shape => shape.length === 3 && shape.slice(1).includes(channels))) {
+    const found = shapes.find(shape => shape.length === 3);
+    const hint = found ? `; ${classCount} class names may not match the model` : '';
+    return `Expected an output of [1, ${channels}, N] or [1, N, ${channels}], got ${formatShapes(shapes)}${hint}`;
+  }
+  return null;
+}
+
+function formatShapes(shapes: number[][]): string {
+  return shapes.map(shape => `[${shape.join(', ')}]`).join(', ');
+}
+
+/**
+ * Load the model and run a dry-run tensor through it, so a wrong input size,
+ * layout or class list is reported before any video is processed
+ */
+export async function validateModel(model: InstalledModel): Promise<ModelValidation> {
+  const { CustomModelDetector } = await import('./custom-detector');
+  const detector = new CustomModelDetector(model);
+  try {
+    await detector.initialize();
+    const outputs = await detector.dryRun();
+    const outputShapes = outputs.map(output => output.dims);
+    const error = checkModelOutputs(model.layout, model.classNames.length, outputShapes);
+    return { valid: error === null, error: error ?? undefined, outputShapes };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+      outputShapes: []
+    };
+  } finally {
+    detector.dispose();
+  }
+}
+
+/**
+ * Detector id for a new model. Includes the install time so analyses cached
+ * with a replaced model of the same name are not reused.
+ */
+export function createModelId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'model';
+  return `user-${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Make an installed model selectable like the built-in detectors
+ */
+export function registerInstalledModel(model: InstalledModel): void {
+  registerDetector({
+    id: model.id,
+    name: model.name,
+    description: `Your ${model.backend === 'tfjs' ? 'TF.js' : 'ONNX'} model: ${model.layout}, ` +
+      `${model.inputSize}px input, ${model.classNames.length} class${model.classNames.length === 1 ? '' : 'es'}`,
+    backend: model.backend,
+    create: async () => {
+      const { CustomModelDetector } = await import('./custom-detector');
+      return new CustomModelDetector(model);
+    }
+  });
+}
+
+/**
+ * Installed models and their files in IndexedDB. Available in the detection
+ * worker too, so it can create the same detectors as the page.
+ */
+export class ModelStore {
+  private readonly open = createDatabaseOpener(DB_NAME, db => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  });
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async list(): Promise<InstalledModel[]> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const models = await promisifyRequest<InstalledModel[]>(store.getAll());
+    return models.sort((a, b) => a.installedAt - b.installedAt);
+  }
+
+  async put(model: InstalledModel): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.put(model));
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.delete(id));
+  }
+}
+
+let modelStore: ModelStore | null = null;
+
+function getModelStore(): ModelStore | null {
+  if (!modelStore && ModelStore.isSupported()) {
+    modelStore = new ModelStore();
+  }
+  return modelStore;
+}
+
+/**
+ * Register every installed model with the detector registry.
+ * An unavailable store is not an error.
+ */
+export async function loadInstalledModels(): Promise<InstalledModel[]> {
+  const store = getModelStore();
+  if (!store) return [];
+
+  try {
+    const models = await store.list();
+    models.forEach(registerInstalledModel);
+    return models;
+  } catch (error) {
+    // console.warn('Failed to load installed models:', error);
+    return [];
+  }
+}
+
+/**
+ * Validate a model, then save and register it. Invalid models are not installed.
+ */
+export async function installModel(spec: ModelSpec, files: File[]): Promise<{ model: InstalledModel; validation: ModelValidation }> {
+  const model: InstalledModel = { ...spec, id: createModelId(spec.name), files, installedAt: Date.now() };
+  const validation = await validateModel(model);
+  if (!validation.valid) {
+    return { model, validation };
+  }
+
+  const store = getModelStore();
+  if (!store) {
+    throw new Error('Installed models need IndexedDB, which this browser does not provide');
+  }
+  await store.put(model);
+  registerInstalledModel(model);
+  return { model, validation };
+}
+
+export async function uninstallModel(id: string): Promise<void> {
+  // Deleted first, so a failure leaves the model both stored and selectable
+  await getModelStore()?.delete(id);
+  unregisterDetector(id);
+}
+
+/**
+ * Whether a detector id saved with a project can still be created: built in,
+ * listed in the manifest or still installed
+ */
+export async function isDetectorAvailable(id: string): Promise<boolean> {
+  if (getDetectorDefinition(id)) return true;
+  await Promise.all([loadDetectorManifest(), loadInstalledModels()]);
+  return getDetectorDefinition(id) !== undefined;
+}
@@ -0,0 +1,316 @@
+import { ByteTracker } from './bytetrack-proper/byte-tracker';
+import { calcIoU, linearAssignment } from './bytetrack-proper/matching';
+import { ByteTrackInterpolator } from './bytetrack-interpolator';
+import { DEFAULT_TRACKER_SETTINGS } from './tracker-presets';
+import { BoundingBox, TrackerSettings } from '@/types';
+
+/**
+ * One row of a MOTChallenge file. Frames are 1-based as in the files;
+ * detections have id -1.
+ */
+export interface MotBox {
+  frame: number;
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+export interface MotMetrics {
+  mota: number;            // 1 - (misses + false positives + ID switches) / ground truth boxes
+  motp: number;            // Mean IoU of matched pairs
+  idf1: number;            // F1 of identity-preserving matches
+  idPrecision: number;
+  idRecall: number;
+  precision: number;
+  recall: number;
+  idSwitches: number;
+  fragmentations: number;  // Times a ground-truth track stops being tracked and is picked up again
+  falsePositives: number;
+  misses: number;
+  matches: number;
+  groundTruthBoxes: number;
+  hypothesisBoxes: number;
+  groundTruthTracks: number;
+  mostlyTracked: number;   // Ground-truth tracks matched on at least 80% of their frames
+  mostlyLost: number;      // Ground-truth tracks matched on at most 20% of their frames
+}
+
+export interface ReplayOptions {
+  settings?: TrackerSettings;
+  mode?: 'tracker' | 'interpolator'; // Raw ByteTracker output, or keyframes interpolated like the app does
+  keyframeInterval?: number;         // Interpolator mode only: detections are fed every Nth frame
+  fps?: number;
+  totalFrames?: number;              // Defaults to the last frame with a detection
+}
+
+// MOTChallenge ground truth class for pedestrians
+const PEDESTRIAN_CLASS = 1;
+
+/**
+ * Parse a MOTChallenge gt.txt or det.txt (frame, id, left, top, width, height,
+ * conf/flag, class, visibility). For ground truth, rows marked to be ignored and
+ * non-pedestrian classes are dropped; they are not kept as don't-care regions.
+ */
+export function parseMotFile(text: string, groundTruth: boolean = false): MotBox[] {
+  const boxes: MotBox[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const values = trimmed.split(/[,\s]+/).map(Number);
+    if (values.length < 6 || values.slice(0, 6).some(Number.isNaN)) continue;
+
+    const [frame, id, x, y, width, height] = values;
+    const confidence = values[6] ?? 1;
+    if (groundTruth) {
+      const objectClass = values[7];
+      if (confidence === 0) continue;
+      // -1 is "no class", as written by trackers and formatMotFile
+      if (objectClass > 0 && objectClass !== PEDESTRIAN_CLASS) continue;
+    }
+
+    // Kept ground truth rows are flagged 1, so tracker output read this way keeps its scores
+    boxes.push({ frame, id, x, y, width, height, confidence });
+  }
+
+  return boxes;
+}
+
+/**
+ * Write tracker output in the MOTChallenge result format, for the official devkit
+ */
+export function formatMotFile(boxes: MotBox[]): string {
+  return boxes
+    .map(box => [box.frame, box.id, box.x, box.y, box.width, box.height, box.confidence, -1, -1, -1]
+      .map(value => (Number.isInteger(value) ? String(value) : value.toFixed(2)))
+      .join(','))
+    .join('\n');
+}
+
+function groupByFrame(boxes: MotBox[]): Map<number, MotBox[]> {
+  const frames = new Map<number, MotBox[]>();
+  for (const box of boxes) {
+    const frameBoxes = frames.get(box.frame) ?? [];
+    frameBoxes.push(box);
+    frames.set(box.frame, frameBoxes);
+  }
+  return frames;
+}
+
+// Spreading a whole sequence into Math.max overflows the stack
+function lastFrame(boxes: MotBox[]): number {
+  return boxes.reduce((last, box) => Math.max(last, box.frame), 0);
+}
+
+function toTlbr(box: { x: number; y: number; width: number; height: number }): number[] {
+  return [box.x, box.y, box.x + box.width, box.y + box.height];
+}
+
+/**
+ * Feed MOT detections through ByteTracker, or through ByteTrackInterpolator on
+ * every keyframeInterval-th frame, and return the tracks as MOT rows
+ */
+export function replayTracker(detections: MotBox[], options: ReplayOptions = {}): MotBox[] {
+  const {
+    settings = DEFAULT_TRACKER_SETTINGS,
+    mode = 'tracker',
+    keyframeInterval = 1,
+    fps = 30
+  } = options;
+  const detectionsByFrame = groupByFrame(detections);
+  const totalFrames = options.totalFrames ?? lastFrame(detections);
+
+  const toBoundingBoxes = (frame: number): BoundingBox[] => (detectionsByFrame.get(frame) ?? []).map(box => ({
+    x: box.x,
+    y: box.y,
+    width: box.width,
+    height: box.height,
+    confidence: box.confidence,
+    class: 'person',
+    classId: 0
+  }));
+
+  // Track IDs are strings in the tracker, integers in MOT files
+  const numericIds = new Map<string, number>();
+  const toMotBox = (frame: number, box: BoundingBox): MotBox => {
+    if (!numericIds.has(box.trackId!)) numericIds.set(box.trackId!, numericIds.size + 1);
+    return { frame, id: numericIds.get(box.trackId!)!, x: box.x, y: box.y, width: box.width, height: box.height, confidence: box.confidence };
+  };
+
+  const hypotheses: MotBox[] = [];
+  if (mode === 'tracker') {
+    const tracker = new ByteTracker({ ...settings });
+    for (let frame = 1; frame <= totalFrames; frame++) {
+      for (const box of tracker.update(toBoundingBoxes(frame), frame)) {
+        if (box.trackId) hypotheses.push(toMotBox(frame, box));
+      }
+    }
+    return hypotheses;
+  }
+
+  // The interpolator is 0-based like the rest of the app
+  const interpolator = new ByteTrackInterpolator({ ...settings });
+  for (let frame = 1; frame <= totalFrames; frame++) {
+    const isKeyframe = (frame - 1) % keyframeInterval === 0 || frame === totalFrames;
+    if (isKeyframe) {
+      interpolator.processFrame(toBoundingBoxes(frame), frame - 1, (frame - 1) / fps);
+    }
+  }
+  for (const detection of interpolator.getAllDetections(totalFrames, fps)) {
+    for (const box of detection.boxes) {
+      if (box.trackId) hypotheses.push(toMotBox(detection.frameNumber + 1, box));
+    }
+  }
+  return hypotheses;
+}
+
+/**
+ * CLEAR MOT and identity metrics of hypotheses against ground truth.
+ * Per frame, last frame's correspondences are kept while their IoU holds and the
+ * rest are matched by Hungarian on IoU; a ground-truth track matched to a
+ * different hypothesis than last time is an ID switch. IDF1 comes from the best
+ * one-to-one assignment of whole tracks.
+ */
+export function evaluateMot(groundTruth: MotBox[], hypotheses: MotBox[], iouThreshold: number = 0.5): MotMetrics {
+  const gtByFrame = groupByFrame(groundTruth);
+  const hypByFrame = groupByFrame(hypotheses);
+  const frames = Array.from(new Set([...gtByFrame.keys(), ...hypByFrame.keys()])).sort((a, b) => a - b);
+
+  let matches = 0;
+  let falsePositives = 0;
+  let misses = 0;
+  let idSwitches = 0;
+  let iouSum = 0;
+
+  let previousPairs = new Map<number, number>();  // gt ID -> hypothesis ID on the previous frame
+  const lastMatched = new Map<number, number>();  // gt ID -> hypothesis ID it was last matched to
+  const trackedHistory = new Map<number, boolean[]>(); // Per gt ID, whether it was matched on each of its frames
+  const identityOverlaps = new Map<number, Map<number, number>>(); // gt ID -> hypothesis ID -> frames above threshold
+
+  for (const frame of frames) {
+    const gtBoxes = gtByFrame.get(frame) ?? [];
+    const hypBoxes = hypByFrame.get(frame) ?? [];
+
+    const ious = gtBoxes.map(gt => hypBoxes.map(hyp => calcIoU(toTlbr(gt), toTlbr(hyp))));
+
+    gtBoxes.forEach((gt, i) => {
+      hypBoxes.forEach((hyp, j) => {
+        if (ious[i][j] < iouThreshold) return;
+        const overlaps = identityOverlaps.get(gt.id) ?? new Map<number, number>();
+        overlaps.set(hyp.id, (overlaps.get(hyp.id) ?? 0) + 1);
+        identityOverlaps.set(gt.id, overlaps);
+      });
+    });
+
+    // Keep last frame's pairs that still overlap enough
+    const pairs = new Map<number, number>(); // gt index -> hypothesis index
+    const usedHyps = new Set<number>();
+    gtBoxes.forEach((gt, i) => {
+      const previousHyp = previousPairs.get(gt.id);
+      if (previousHyp === undefined) return;
+      const j = hypBoxes.findIndex(hyp => hyp.id === previousHyp);
+      if (j >= 0 && !usedHyps.has(j) && ious[i][j] >= iouThreshold) {
+        pairs.set(i, j);
+        usedHyps.add(j);
+      }
+    });
+
+    // Match the rest by IoU
+    const freeGts = gtBoxes.map((_, i) => i).filter(i => !pairs.has(i));
+    const freeHyps = hypBoxes.map((_, j) => j).filter(j => !usedHyps.has(j));
+    if (freeGts.length > 0 && freeHyps.length > 0) {
+      const cost = freeGts.map(i => freeHyps.map(j => 1 - ious[i][j]));
+      const [newMatches] = linearAssignment(cost, 1 - iouThreshold + 1e-9, freeHyps.length);
+      for (const [row, col] of newMatches) {
+        pairs.set(freeGts[row], freeHyps[col]);
+      }
+    }
+
+    const nextPairs = new Map<number, number>();
+    pairs.forEach((j, i) => {
+      const gtId = gtBoxes[i].id;
+      const hypId = hypBoxes[j].id;
+      const lastHyp = lastMatched.get(gtId);
+      if (lastHyp !== undefined && lastHyp !== hypId) idSwitches++;
+      lastMatched.set(gtId, hypId);
+      nextPairs.set(gtId, hypId);
+      iouSum += ious[i][j];
+    });
+    previousPairs = nextPairs;
+
+    gtBoxes.forEach((gt, i) => {
+      const history = trackedHistory.get(gt.id) ?? [];
+      history.push(pairs.has(i));
+      trackedHistory.set(gt.id, history);
+    });
+
+    matches += pairs.size;
+    misses += gtBoxes.length - pairs.size;
+    falsePositives += hypBoxes.length - pairs.size;
+  }
+
+  // Fragmentations, mostly tracked and mostly lost from each gt track's history
+  let fragmentations = 0;
+  let mostlyTracked = 0;
+  let mostlyLost = 0;
+  trackedHistory.forEach(history => {
+    let everTracked = false;
+    history.forEach((tracked, t) => {
+      if (tracked && everTracked && !history[t - 1]) fragmentations++;
+      everTracked = everTracked || tracked;
+    });
+    const trackedShare = history.filter(Boolean).length / history.length;
+    if (trackedShare >= 0.8) mostlyTracked++;
+    if (trackedShare <= 0.2) mostlyLost++;
+  });
+
+  // IDF1: whole gt tracks assigned one-to-one to whole hypothesis tracks
+  const gtIds = Array.from(new Set(groundTruth.map(box => box.id)));
+  const hypIds = Array.from(new Set(hypotheses.map(box => box.id)));
+  const overlapCost = gtIds.map(gtId => hypIds.map(hypId => -(identityOverlaps.get(gtId)?.get(hypId) ?? 0)));
+  const [identityMatches] = linearAssignment(overlapCost, 0, hypIds.length);
+  const idTruePositives = identityMatches.reduce((sum, [i, j]) => sum - overlapCost[i][j], 0);
+
+  const groundTruthBoxes = groundTruth.length;
+  const hypothesisBoxes = hypotheses.length;
+  const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+  return {
+    mota: groundTruthBoxes > 0 ? 1 - (misses + falsePositives + idSwitches) / groundTruthBoxes : 0,
+    motp: ratio(iouSum, matches),
+    idf1: ratio(2 * idTruePositives, groundTruthBoxes + hypothesisBoxes),
+    idPrecision: ratio(idTruePositives, hypothesisBoxes),
+    idRecall: ratio(idTruePositives, groundTruthBoxes),
+    precision: ratio(matches, hypothesisBoxes),
+    recall: ratio(matches, groundTruthBoxes),
+    idSwitches,
+    fragmentations,
+    falsePositives,
+    misses,
+    matches,
+    groundTruthBoxes,
+    hypothesisBoxes,
+    groundTruthTracks: trackedHistory.size,
+    mostlyTracked,
+    mostlyLost
+  };
+}
+
+/**
+ * Replay a MOTChallenge det.txt through the tracker and score it against gt.txt
+ */
+export function evaluateTracker(
+  groundTruthText: string,
+  detectionsText: string,
+  options: ReplayOptions & { iouThreshold?: number } = {}
+): MotMetrics {
+  const groundTruth = parseMotFile(groundTruthText, true);
+  const detections = parseMotFile(detectionsText);
+  const totalFrames = options.totalFrames ?? Math.max(lastFrame(groundTruth), lastFrame(detections));
+  const hypotheses = replayTracker(detections, { ...options, totalFrames });
+  return evaluateMot(groundTruth, hypotheses, options.iouThreshold);
+}
@@ -1,32 +1,44 @@
 import * as tf from '@tensorflow/tfjs';
 import { BoundingBox } from '@/types';
+import { Detector, DetectorCapabilities, DetectorInput, getInputDimensions, resolveClassFilter } from './detector';
+import { COCO_CLASSES } from './coco-classes';
+import { nonMaxSuppression } from './bytetrack-proper/matching';
+
+export interface PersonYOLODetectorOptions {
+  id?: string;
+  name?: string;
+  modelPath?: string;
+  inputSize?: number;
+  classNames?: string[];
+  classFilter?: string[] | null;
+}
+
+export class PersonYOLODetector implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend = 'tfjs' as const;
+  readonly inputSize: number;
+  readonly classNames: readonly string[];
+  readonly capabilities: DetectorCapabilities = { objects: true, heads: false, cropRefinement: false, landmarks: false, keypoints: false };
 
-export class PersonYOLODetector {
   private model: tf.GraphModel | null = null;
-  private modelPath: string = '/yolov8n_web_model/model.json';
-  private inputSize: number = 640;
+  private modelPath: string;
   private confidenceThreshold: number = 0.3; // 30% default confidence threshold for better detection
-  
-  constructor() {
-    // console.log('PersonYOLODetector constructor: initial threshold', this.confidenceThreshold);
-  }
   private iouThreshold: number = 0.45;
   private maxDetections: number = 100;
-  
-  // COCO class names - person is class 0
-  private classNames: string[] = [
-    'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
-    'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat',
-    'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack',
-    'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball',
-    'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket',
-    'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple',
-    'sandwich', 'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair',
-    'couch', 'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote',
-    'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink', 'refrigerator', 'book',
-    'clock', 'vase', 'scissors', 'teddy bear', 'hair drier', 'toothbrush'
-  ];
+  private classFilter: string[] | null;
+  private allowedClassIds: Set<number> | null;
 
+  constructor(options: PersonYOLODetectorOptions = {}) {
+    this.id = options.id ?? 'yolov8n-tfjs';
+    this.name = options.name ?? 'YOLOv8n (TF.js)';
+    this.modelPath = options.modelPath ?? '/yolov8n_web_model/model.json';
+    this.inputSize = options.inputSize ?? 640;
+    this.classNames = options.classNames ?? COCO_CLASSES;
+    // Persons only unless the project picks another class set
+    this.classFilter = options.classFilter !== undefined ? options.classFilter : ['person'];
+    this.allowedClassIds = resolveClassFilter(this.classNames, this.classFilter);
+  }
 
   async initialize(): Promise<void> {
     try {
@@ -47,7 +59,11 @@ export class PersonYOLODetector {
     }
   }
 
-  async detect(imageData: ImageData | HTMLVideoElement | HTMLCanvasElement, frameNumber?: number): Promise<BoundingBox[]> {
+  isInitialized(): boolean {
+    return this.model !== null;
+  }
+
+  async detect(imageData: DetectorInput, frameNumber?: number): Promise<BoundingBox[]> {
     if (!this.model) {
       throw new Error('Model not initialized');
     }
@@ -63,7 +79,7 @@ export class PersonYOLODetector {
     return boxes;
   }
 
-  private async preprocessImage(imageData: ImageData | HTMLVideoElement | HTMLCanvasElement): Promise<tf.Tensor> {
+  private async preprocessImage(imageData: DetectorInput): Promise<tf.Tensor> {
     let imageTensor: tf.Tensor;
     
     if (imageData instanceof ImageData) {
@@ -89,10 +105,8 @@ export class PersonYOLODetector {
     return batched;
   }
 
-  private async postprocess(predictions: tf.Tensor, originalImage: ImageData | HTMLVideoElement | HTMLCanvasElement, frameNumber?: number): Promise<BoundingBox[]> {
-    const [height, width] = originalImage instanceof ImageData 
-      ? [originalImage.height, originalImage.width]
-      : [originalImage.height, originalImage.width];
+  private async postprocess(predictions: tf.Tensor, originalImage: DetectorInput, frameNumber?: number): Promise<BoundingBox[]> {
+    const { width, height } = getInputDimensions(originalImage);
     
     const isFrame213 = frameNumber === 213;
     if (isFrame213) {
@@ -100,13 +114,15 @@ export class PersonYOLODetector {
     }
     
     // YOLOv8 outputs can be in different formats
-    // Common formats: [1, 84, 8400] or [1, 8400, 84]
+    // Common formats: [1, 84, 8400] or [1, 8400, 84] (84 = 4 box values + class scores)
+    const numClasses = this.classNames.length;
+    const channels = 4 + numClasses;
     let data: Float32Array;
     let numBoxes: number;
     let stride: number;
     let isTransposed = false;
     
-    if (predictions.shape[1] === 84 && predictions.shape[2] === 8400) {
+    if (predictions.shape[1] === channels && (predictions.shape[2] as number) > channels) {
       // Format: [1, 84, 8400] - need to transpose
       if (isFrame213) {
         // console.log('Frame 213: Transposing YOLOv8 output from [1, 84, 8400] to [1, 8400, 84]');
@@ -114,8 +130,8 @@ export class PersonYOLODetector {
       const transposed = predictions.transpose([0, 2, 1]);
       data = await transposed.data() as Float32Array;
       transposed.dispose();
-      numBoxes = 8400;
-      stride = 84;
+      numBoxes = predictions.shape[2] as number;
+      stride = channels;
       isTransposed = true;
     } else {
       // Format: [1, 8400, 84] or similar
@@ -136,7 +152,7 @@ export class PersonYOLODetector {
     for (let i = 0; i < numBoxes; i++) {
       const offset = i * stride;
       
-      // YOLOv8 format: first 4 values are bbox (cx, cy, w, h), then 80 class scores
+      // YOLOv8 format: first 4 values are bbox (cx, cy, w, h), then one score per class
       const cx = data[offset];
       const cy = data[offset + 1];
       const w = data[offset + 2];
@@ -146,7 +162,7 @@ export class PersonYOLODetector {
       let maxScore = 0;
       let maxClassIdx = -1;
       
-      for (let c = 0; c < 80; c++) {
+      for (let c = 0; c < numClasses; c++) {
         const score = data[offset + 4 + c];
         if (score > maxScore) {
           maxScore = score;
@@ -162,7 +178,8 @@ export class PersonYOLODetector {
         debugScoreCount++;
       }
       
-      // Only keep person detections (class 0) with confidence
+      // Only keep classes allowed by the class filter
+      const isAllowedClass = maxClassIdx !== -1 && (!this.allowedClassIds || this.allowedClassIds.has(maxClassIdx));
       // Debug: Log ALL person detections regardless of threshold
       if (maxClassIdx === 0 && isFrame213) {
         // console.log(`Frame 213 - Person detection: score=${maxScore.toFixed(3)}, threshold=${this.confidenceThreshold}, passes=${maxScore > this.confidenceThreshold}`);
@@ -170,7 +187,7 @@ export class PersonYOLODetector {
       
       // Check if score seems to be in percentage form (0-100) rather than decimal (0-1)
       // YOLOv8 should output scores in 0-1 range, but let's verify
-      if (maxClassIdx === 0 && maxScore > this.confidenceThreshold) {
+      if (isAllowedClass && maxScore > this.confidenceThreshold) {
         // YOLOv8 coordinates are already in pixel space (640x640)
         // Need to scale to original image size
         const scaleX = width / this.inputSize;
@@ -187,8 +204,8 @@ export class PersonYOLODetector {
           width: Math.min(boxWidth, width - x1),
           height: Math.min(boxHeight, height - y1),
           confidence: maxScore,
-          class: 'person',
-          classId: 0
+          class: this.classNames[maxClassIdx],
+          classId: maxClassIdx
         });
       }
     }
@@ -200,7 +217,7 @@ export class PersonYOLODetector {
     }
     
     // Apply NMS
-    const nmsBoxes = this.nonMaxSuppression(boxes);
+    const nmsBoxes = nonMaxSuppression(boxes, this.iouThreshold, this.maxDetections);
     if (isFrame213) {
       // console.log(`Frame 213: ${nmsBoxes.length} person detections after NMS`);
     }
@@ -208,49 +225,8 @@ export class PersonYOLODetector {
     return nmsBoxes;
   }
 
-  private nonMaxSuppression(boxes: BoundingBox[]): BoundingBox[] {
-    if (boxes.length === 0) return [];
-    
-    // Sort by confidence
-    boxes.sort((a, b) => b.confidence - a.confidence);
-    
-    const selected: BoundingBox[] = [];
-    const used = new Set<number>();
-    
-    for (let i = 0; i < boxes.length && selected.length < this.maxDetections; i++) {
-      if (used.has(i)) continue;
-      
-      selected.push(boxes[i]);
-      used.add(i);
-      
-      // Check IoU with remaining boxes
-      for (let j = i + 1; j < boxes.length; j++) {
-        if (used.has(j)) continue;
-        
-        const iou = this.calculateIoU(boxes[i], boxes[j]);
-        if (iou > this.iouThreshold) {
-          used.add(j);
-        }
-      }
-    }
-    
-    return selected;
-  }
-
-  private calculateIoU(box1: BoundingBox, box2: BoundingBox): number {
-    const x1 = Math.max(box1.x, box2.x);
-    const y1 = Math.max(box1.y, box2.y);
-    const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
-    const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
-    
-    if (x2 < x1 || y2 < y1) return 0;
-    
-    const intersection = (x2 - x1) * (y2 - y1);
-    const area1 = box1.width * box1.height;
-    const area2 = box2.width * box2.height;
-    const union = area1 + area2 - intersection;
-    
-    return intersection / union;
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
   }
 
   setConfidenceThreshold(threshold: number): void {
@@ -258,10 +234,23 @@ export class PersonYOLODetector {
     this.confidenceThreshold = threshold;
   }
 
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+
   setIouThreshold(threshold: number): void {
     this.iouThreshold = threshold;
   }
 
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+    this.allowedClassIds = resolveClassFilter(this.classNames, classNames);
+  }
+
   dispose(): void {
     if (this.model) {
       this.model.dispose();
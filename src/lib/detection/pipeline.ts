@@ -0,0 +1,406 @@
+import { DetectorInput } from './detector';
+import { createDetector, loadDetectorManifest } from './detector-registry';
+import { loadInstalledModels } from './model-manager';
+import { getClassSetNames } from './class-sets';
+import { ByteTrackInterpolator } from './bytetrack-interpolator';
+import { HeadDetector } from './head-detector';
+import { FaceLandmarkDetector } from './face-detector';
+import { PoseEstimator, createPoseEstimator } from './pose-estimator';
+import { estimateHeadCenter } from './pose-utils';
+import { DEFAULT_TRACKER_SETTINGS } from './tracker-presets';
+import { GlobalMotionEstimator } from '@/lib/video/global-motion';
+import { LucasKanadeTracker } from '@/lib/video/optical-flow';
+import { SaliencyAnalyzer } from '@/lib/video/saliency';
+import { KeyframeDetections, createByteTrackInterpolator, getTrackerInput, refineTrackedBoxes } from './retracker';
+import { smoothTracks } from './track-smoother';
+import { AppearanceExtractor, createAppearanceExtractor } from './appearance';
+import { AdaptiveSampler } from './adaptive-sampler';
+import { ShotBoundaryDetector } from '@/lib/video/shot-detector';
+import { DEFAULT_SLICING_SETTINGS, SlicedDetector } from './sliced-detector';
+import { BoundingBox, Detection, DetectionMask, DetectionSettings, SaliencyRegion, Shot, SlicingSettings, TrackerSettings } from '@/types';
+
+// Full-frame head detections below this are mostly background; the head model's own threshold is tuned for crops
+const HEAD_MIN_CONFIDENCE = 0.25;
+
+export type PipelineSettings = DetectionSettings;
+
+export interface VideoAnalysisOptions {
+  totalFrames: number;
+  fps: number;
+  targetTrackId: string | null; // Track whose head positions get filled in on every frame
+  tracker: TrackerSettings;
+  masks?: DetectionMask[]; // Regions whose detections are dropped or kept before tracking
+}
+
+export interface FrameAnalysisResult {
+  frameNumber: number;
+  processedFrames: number;
+  isKeyframe: boolean;
+  isShotStart: boolean;
+  detection?: Detection; // Only on keyframes
+}
+
+export interface VideoAnalysisResult {
+  detections: Detection[];
+  keyframes: number[];
+  shots: Shot[];
+  keyframeDetections: KeyframeDetections[]; // For re-tracking without inference
+  saliency: SaliencyRegion[]; // Every frame; what to follow when there are no people
+}
+
+/**
+ * Detection and tracking as a set of async calls, so the same analysis can run
+ * in this thread or behind a Web Worker
+ */
+export interface DetectionEngine {
+  initialize(settings: PipelineSettings): Promise<void>;
+  setClassSet(classSetId: string): Promise<void>;
+  setFaceLandmarks(enabled: boolean): Promise<void>;
+  setSlicing(settings: SlicingSettings): Promise<void>;
+  setConfidenceThreshold(threshold: number): Promise<void>;
+  detectFrame(image: DetectorInput, frameNumber: number, timestamp: number): Promise<Detection>;
+  beginVideo(options: VideoAnalysisOptions): Promise<void>;
+  processFrame(image: ImageData, frameNumber: number, timestamp: number): Promise<FrameAnalysisResult>;
+  getDetectionsSoFar(): Promise<Detection[]>;
+  finishVideo(): Promise<VideoAnalysisResult>;
+  reset(): Promise<void>;
+  dispose(): void;
+}
+
+/**
+ * Head centers exist on keyframes; carry them to the other frames by their
+ * position relative to the box, falling back to keypoints and box shape
+ */
+export function fillTargetHeadCenters(detections: Detection[], targetTrackId: string): void {
+  const headPositions = new Map<number, { relX: number; relY: number }>();
+
+  detections.forEach(det => {
+    det.boxes.forEach(box => {
+      if (box.trackId === targetTrackId && box.headCenterX !== undefined && box.headCenterY !== undefined) {
+        headPositions.set(det.frameNumber, {
+          relX: (box.headCenterX - box.x) / box.width,
+          relY: (box.headCenterY - box.y) / box.height
+        });
+      }
+    });
+  });
+
+  detections.forEach(det => {
+    det.boxes.forEach(box => {
+      if (box.trackId !== targetTrackId || box.class !== 'person' ||
+          (box.headCenterX !== undefined && box.headCenterY !== undefined)) {
+        return;
+      }
+
+      // Nearest earlier frame with a head position
+      let prevFrame = -1;
+      for (const frame of headPositions.keys()) {
+        if (frame < det.frameNumber && frame > prevFrame) prevFrame = frame;
+      }
+
+      if (prevFrame !== -1) {
+        const prevPos = headPositions.get(prevFrame)!;
+        box.headCenterX = box.x + box.width * prevPos.relX;
+        box.headCenterY = box.y + box.height * prevPos.relY;
+      } else {
+        const head = estimateHeadCenter(box);
+        box.headCenterX = head.x;
+        box.headCenterY = head.y;
+      }
+    });
+  });
+}
+
+/**
+ * The full analysis pipeline: object detection, appearance features, face and
+ * pose refinement, adaptive keyframe sampling, shot cuts and ByteTrack.
+ * Uses no DOM APIs, so it runs unchanged inside the detection worker.
+ */
+export class DetectionPipeline implements DetectionEngine {
+  private detector: SlicedDetector | null = null;
+  private byteTracker: ByteTrackInterpolator | null = null;
+  private headDetector: HeadDetector | null = null;
+  private faceDetector: FaceLandmarkDetector | null = null;
+  private poseEstimator: PoseEstimator | null = null;
+  private appearanceExtractor: AppearanceExtractor | null = null;
+
+  private sampler = new AdaptiveSampler();
+  private shotDetector = new ShotBoundaryDetector();
+  private motionEstimator = new GlobalMotionEstimator();
+  private flowTracker = new LucasKanadeTracker();
+  private saliencyAnalyzer = new SaliencyAnalyzer();
+  private video: VideoAnalysisOptions | null = null;
+  private processedFrames = 0;
+  private keyframeDetections: KeyframeDetections[] = [];
+
+  async initialize(settings: PipelineSettings): Promise<void> {
+    // Pick up team-supplied detectors and the user's installed models before resolving the id
+    await loadDetectorManifest();
+    await loadInstalledModels();
+    // Tiled inference for small subjects wraps whichever model is picked
+    this.detector = new SlicedDetector(await createDetector(settings.detectorId), settings.slicing ?? DEFAULT_SLICING_SETTINGS);
+    await this.detector.initialize();
+
+    // Set initial confidence threshold to match UI default (30%)
+    this.detector.setConfidenceThreshold(0.3);
+    this.detector.setClassFilter(getClassSetNames(settings.classSetId));
+
+    // Appearance features let ByteTracker re-identify targets after long occlusions
+    this.appearanceExtractor = await createAppearanceExtractor();
+
+    // Pose keypoints place heads and torsos; optional, skipped when the model isn't installed
+    this.poseEstimator = await createPoseEstimator();
+
+    if (settings.headDetection) {
+      this.headDetector = new HeadDetector();
+      await this.headDetector.initialize();
+    }
+
+    await this.setFaceLandmarks(settings.faceLandmarks);
+  }
+
+  async setClassSet(classSetId: string): Promise<void> {
+    this.detector?.setClassFilter(getClassSetNames(classSetId));
+  }
+
+  /**
+   * Load or release the face + landmark detector for talking-head framing
+   */
+  async setFaceLandmarks(enabled: boolean): Promise<void> {
+    if (!enabled) {
+      this.faceDetector?.dispose();
+      this.faceDetector = null;
+      return;
+    }
+    if (this.faceDetector) return;
+
+    const faceDetector = new FaceLandmarkDetector();
+    try {
+      await faceDetector.initialize();
+      this.faceDetector = faceDetector;
+    } catch (error) {
+      // console.warn('Face detector unavailable, using head estimates:', error);
+    }
+  }
+
+  async setSlicing(settings: SlicingSettings): Promise<void> {
+    this.detector?.setSlicing(settings);
+  }
+
+  /**
+   * Detector threshold only; ByteTrack thresholds come with each video's tracker settings
+   */
+  async setConfidenceThreshold(threshold: number): Promise<void> {
+    this.detector?.setConfidenceThreshold(threshold);
+  }
+
+  /**
+   * Detect objects on one frame and run them through ByteTrack
+   */
+  async detectFrame(image: DetectorInput, frameNumber: number, timestamp: number): Promise<Detection> {
+    const boxes = await this.detectBoxes(image, frameNumber);
+
+    if (!this.byteTracker) {
+      this.byteTracker = createByteTrackInterpolator(DEFAULT_TRACKER_SETTINGS);
+    }
+
+    return this.byteTracker.processFrame(boxes, frameNumber, timestamp);
+  }
+
+  /**
+   * Detector boxes with appearance embeddings, before tracking
+   */
+  private async detectBoxes(image: DetectorInput, frameNumber: number): Promise<BoundingBox[]> {
+    if (!this.detector) {
+      throw new Error('Model not loaded');
+    }
+
+    const boxes = await this.detector.detect(image, frameNumber);
+
+    // Attach appearance embeddings for re-identification
+    if (this.appearanceExtractor && boxes.length > 0) {
+      try {
+        const embeddings = await this.appearanceExtractor.extract(image, boxes);
+        boxes.forEach((box, i) => {
+          box.embedding = embeddings[i];
+        });
+      } catch (error) {
+        // console.warn('Appearance extraction failed, tracking on motion only:', error);
+      }
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Start analyzing a video from its first frame
+   */
+  async beginVideo(options: VideoAnalysisOptions): Promise<void> {
+    this.video = options;
+    this.processedFrames = 0;
+    this.keyframeDetections = [];
+    this.sampler = new AdaptiveSampler();
+    this.shotDetector = new ShotBoundaryDetector();
+    this.motionEstimator = new GlobalMotionEstimator();
+    this.flowTracker = new LucasKanadeTracker();
+    this.saliencyAnalyzer = new SaliencyAnalyzer();
+    this.byteTracker = createByteTrackInterpolator(options.tracker);
+  }
+
+  /**
+   * Feed the next video frame. Detection only runs on keyframes picked by the
+   * sampler, on shot cuts and on the first and last frame.
+   */
+  async processFrame(image: ImageData, frameNumber: number, timestamp: number): Promise<FrameAnalysisResult> {
+    if (!this.video) {
+      throw new Error('Video analysis not started');
+    }
+    this.processedFrames++;
+
+    const isFirstFrame = frameNumber === 0;
+    const isLastFrame = frameNumber === this.video.totalFrames - 1;
+    const motionEnergy = this.sampler.measureMotion(image);
+    const isSampleFrame = this.sampler.shouldDetect(frameNumber, motionEnergy);
+    const isShotStart = this.shotDetector.processFrame(image, frameNumber);
+    this.saliencyAnalyzer.processFrame(image, frameNumber, isShotStart);
+
+    const tracker = this.byteTracker!;
+    if (isShotStart) {
+      tracker.startNewShot(frameNumber);
+      this.motionEstimator.reset();
+      // Flow across the cut is meaningless; the shot's first keyframe seeds afresh
+      this.flowTracker.reset();
+    }
+    this.flowTracker.nextFrame(image);
+
+    const isKeyframe = isFirstFrame || isLastFrame || isSampleFrame || isShotStart;
+    if (!isKeyframe) {
+      return { frameNumber, processedFrames: this.processedFrames, isKeyframe, isShotStart };
+    }
+
+    const keyframe: KeyframeDetections = {
+      frameNumber,
+      timestamp,
+      isShotStart,
+      boxes: await this.detectBoxes(image, frameNumber)
+    };
+    await this.detectFacesAndPoses(image, keyframe);
+    await this.detectHeads(image, keyframe);
+
+    // Camera pan since the previous keyframe, measured on the background
+    const cameraMotion = this.motionEstimator.estimate(image, keyframe.boxes);
+    if (cameraMotion) {
+      keyframe.cameraMotion = cameraMotion;
+    }
+
+    // Points followed since the previous keyframe move boxes between the two
+    const flow = this.flowTracker.finishSegment();
+    const previousKeyframe = this.keyframeDetections[this.keyframeDetections.length - 1];
+    if (flow && previousKeyframe?.frameNumber === flow.startFrame) {
+      previousKeyframe.flow = flow;
+      tracker.addFlowSegment(flow);
+    }
+    this.flowTracker.startSegment(frameNumber, keyframe.boxes);
+    this.keyframeDetections.push(keyframe);
+
+    const detection = tracker.processFrame(getTrackerInput(keyframe, this.video.masks), frameNumber, timestamp, cameraMotion);
+    this.sampler.recordKeyframe(frameNumber, tracker.getTrackerStats());
+    refineTrackedBoxes(detection, keyframe);
+
+    return { frameNumber, processedFrames: this.processedFrames, isKeyframe, isShotStart, detection };
+  }
+
+  /**
+   * Faces give real eye-line and head positions; pose keypoints give head, torso
+   * and facing for people without a detected face
+   */
+  private async detectFacesAndPoses(image: ImageData, keyframe: KeyframeDetections): Promise<void> {
+    if (!keyframe.boxes.some(box => box.class === 'person')) return;
+
+    if (this.faceDetector) {
+      try {
+        keyframe.faces = await this.faceDetector.detectFaces(image);
+      } catch (error) {
+        // console.warn(`Face detection failed for frame ${keyframe.frameNumber}:`, error);
+      }
+    }
+
+    if (this.poseEstimator) {
+      try {
+        keyframe.poses = await this.poseEstimator.detect(image);
+      } catch (error) {
+        // console.warn(`Pose estimation failed for frame ${keyframe.frameNumber}:`, error);
+      }
+    }
+  }
+
+  /**
+   * One full-frame head pass per keyframe; heads are matched to people after
+   * tracking and tracked as their own class
+   */
+  private async detectHeads(image: ImageData, keyframe: KeyframeDetections): Promise<void> {
+    if (!this.headDetector) return;
+
+    try {
+      const heads = await this.headDetector.detect(image);
+      keyframe.heads = heads.filter(head => head.confidence >= HEAD_MIN_CONFIDENCE);
+    } catch (error) {
+      // console.error(`Head detection failed for frame ${keyframe.frameNumber}:`, error);
+    }
+  }
+
+  /**
+   * Tracked and interpolated detections for the frames processed so far
+   */
+  async getDetectionsSoFar(): Promise<Detection[]> {
+    if (!this.byteTracker || !this.video) return [];
+    return this.byteTracker.getAllDetections(this.processedFrames, this.video.fps);
+  }
+
+  /**
+   * Interpolate every frame, smooth the finished tracks and fill in head
+   * positions for the target track
+   */
+  async finishVideo(): Promise<VideoAnalysisResult> {
+    if (!this.video) {
+      throw new Error('Video analysis not started');
+    }
+    const { totalFrames, fps, targetTrackId } = this.video;
+
+    const shots = this.shotDetector.getShots(totalFrames);
+    const detections = this.byteTracker ? smoothTracks(this.byteTracker.getAllDetections(totalFrames, fps), shots) : [];
+    if (targetTrackId) {
+      fillTargetHeadCenters(detections, targetTrackId);
+    }
+
+    return {
+      detections,
+      keyframes: this.sampler.getKeyframes(),
+      shots,
+      keyframeDetections: this.keyframeDetections,
+      saliency: this.saliencyAnalyzer.getRegions()
+    };
+  }
+
+  async reset(): Promise<void> {
+    this.byteTracker?.reset();
+    this.video = null;
+    this.processedFrames = 0;
+    this.keyframeDetections = [];
+    this.saliencyAnalyzer.reset();
+  }
+
+  dispose(): void {
+    this.detector?.dispose();
+    this.detector = null;
+    this.headDetector?.dispose();
+    this.headDetector = null;
+    this.faceDetector?.dispose();
+    this.faceDetector = null;
+    this.poseEstimator?.dispose();
+    this.poseEstimator = null;
+    this.appearanceExtractor?.dispose();
+    this.appearanceExtractor = null;
+    this.byteTracker = null;
+  }
+}
@@ -0,0 +1,187 @@
+import * as ort from 'onnxruntime-web';
+import { BoundingBox, Keypoint } from '@/types';
+import { Detector, DetectorCapabilities, DetectorInput, getInputDimensions, letterbox } from './detector';
+import { nonMaxSuppression } from './bytetrack-proper/matching';
+import { COCO_KEYPOINT_NAMES } from './pose-utils';
+
+export interface PoseEstimatorOptions {
+  id?: string;
+  name?: string;
+  modelPath?: string;
+  inputSize?: number;
+}
+
+export const DEFAULT_POSE_MODEL_PATH = '/yolov8n-pose.onnx';
+
+const NUM_KEYPOINTS = COCO_KEYPOINT_NAMES.length;
+
+/**
+ * YOLOv8-pose person detector with 17 COCO keypoints per person.
+ * Expects the standard ONNX export: input [1, 3, S, S] in [0, 1],
+ * output [1, 56, N] (or transposed) = box (4) + score (1) + 17 x (x, y, confidence).
+ */
+export class PoseEstimator implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend = 'onnx' as const;
+  readonly inputSize: number;
+  readonly classNames: readonly string[] = ['person'];
+  readonly capabilities: DetectorCapabilities = { objects: true, heads: false, cropRefinement: false, landmarks: false, keypoints: true };
+
+  private session: ort.InferenceSession | null = null;
+  private modelPath: string;
+  private confidenceThreshold = 0.3;
+  private iouThreshold = 0.45;
+  private maxDetections = 100;
+  private classFilter: string[] | null = null; // Single-class model, kept for interface parity
+
+  constructor(options: PoseEstimatorOptions = {}) {
+    this.id = options.id ?? 'yolov8n-pose-onnx';
+    this.name = options.name ?? 'YOLOv8n Pose (ONNX)';
+    this.modelPath = options.modelPath ?? DEFAULT_POSE_MODEL_PATH;
+    this.inputSize = options.inputSize ?? 640;
+  }
+
+  async initialize(): Promise<void> {
+    const response = await fetch(this.modelPath, { method: 'HEAD' });
+    if (!response.ok) {
+      throw new Error(`Pose model not found: ${this.modelPath} (${response.status})`);
+    }
+
+    this.session = await ort.InferenceSession.create(this.modelPath, {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+  }
+
+  isInitialized(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Detect people as person-class boxes with keypoints attached
+   */
+  async detect(imageData: DetectorInput): Promise<BoundingBox[]> {
+    if (!this.session) {
+      throw new Error('Pose model not initialized');
+    }
+
+    const { width, height } = getInputDimensions(imageData);
+    const { input, scale, padX, padY } = letterbox(imageData, this.inputSize);
+
+    const feeds: Record<string, ort.Tensor> = {
+      [this.session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, this.inputSize, this.inputSize])
+    };
+    const output = await this.session.run(feeds);
+    const tensor = output[this.session.outputNames[0]];
+
+    const poses = this.decode(tensor, scale, padX, padY, width, height);
+    return nonMaxSuppression(poses, this.iouThreshold, this.maxDetections);
+  }
+
+  private decode(
+    tensor: ort.Tensor,
+    scale: number,
+    padX: number,
+    padY: number,
+    width: number,
+    height: number
+  ): BoundingBox[] {
+    const data = tensor.data as Float32Array;
+    const [, dim1, dim2] = tensor.dims;
+
+    // Channels are the smaller axis: [1, 56, 8400] or [1, 8400, 56]
+    const channelsFirst = dim1 < dim2;
+    const channels = channelsFirst ? dim1 : dim2;
+    const numAnchors = channelsFirst ? dim2 : dim1;
+    const value = (anchor: number, channel: number) =>
+      channelsFirst ? data[channel * numAnchors + anchor] : data[anchor * channels + channel];
+
+    const toImageX = (x: number) => Math.max(0, Math.min(width, (x - padX) / scale));
+    const toImageY = (y: number) => Math.max(0, Math.min(height, (y - padY) / scale));
+
+    const poses: BoundingBox[] = [];
+    for (let i = 0; i < numAnchors; i++) {
+      const confidence = value(i, 4);
+      if (confidence <= this.confidenceThreshold) continue;
+
+      const cx = value(i, 0);
+      const cy = value(i, 1);
+      const w = value(i, 2);
+      const h = value(i, 3);
+      const x1 = toImageX(cx - w / 2);
+      const y1 = toImageY(cy - h / 2);
+      const x2 = toImageX(cx + w / 2);
+      const y2 = toImageY(cy + h / 2);
+
+      const keypoints: Keypoint[] = [];
+      for (let k = 0; k < NUM_KEYPOINTS; k++) {
+        const offset = 5 + k * 3;
+        keypoints.push({
+          x: toImageX(value(i, offset)),
+          y: toImageY(value(i, offset + 1)),
+          confidence: value(i, offset + 2)
+        });
+      }
+
+      poses.push({
+        x: x1,
+        y: y1,
+        width: x2 - x1,
+        height: y2 - y1,
+        confidence,
+        class: 'person',
+        classId: 0,
+        keypoints
+      });
+    }
+
+    return poses;
+  }
+
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
+  }
+
+  setConfidenceThreshold(threshold: number): void {
+    this.confidenceThreshold = threshold;
+  }
+
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+
+  setIouThreshold(threshold: number): void {
+    this.iouThreshold = threshold;
+  }
+
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+  }
+
+  dispose(): void {
+    if (this.session) {
+      this.session.release();
+      this.session = null;
+    }
+  }
+}
+
+/**
+ * Load the pose model if one is installed. Returns null so callers fall back to
+ * head detection and box heuristics.
+ */
+export async function createPoseEstimator(modelPath: string = DEFAULT_POSE_MODEL_PATH): Promise<PoseEstimator | null> {
+  const estimator = new PoseEstimator({ modelPath });
+  try {
+    await estimator.initialize();
+    return estimator;
+  } catch (error) {
+    // console.warn('Pose model unavailable, using head estimates:', error);
+    return null;
+  }
+}
@@ -0,0 +1,232 @@
+import { BoundingBox, FacingDirection, Keypoint, Point } from '@/types';
+import { boxIoU } from './bytetrack-proper/matching';
+
+export const COCO_KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+] as const;
+
+// Indices into the COCO keypoint list. Left/right are the subject's own sides.
+export const KEYPOINT = {
+  nose: 0,
+  leftEye: 1,
+  rightEye: 2,
+  leftEar: 3,
+  rightEar: 4,
+  leftShoulder: 5,
+  rightShoulder: 6,
+  leftHip: 11,
+  rightHip: 12
+} as const;
+
+export const MIN_KEYPOINT_CONFIDENCE = 0.3;
+
+const HEAD_KEYPOINTS = [KEYPOINT.nose, KEYPOINT.leftEye, KEYPOINT.rightEye, KEYPOINT.leftEar, KEYPOINT.rightEar];
+const TORSO_KEYPOINTS = [KEYPOINT.leftShoulder, KEYPOINT.rightShoulder, KEYPOINT.leftHip, KEYPOINT.rightHip];
+
+function visible(keypoints: Keypoint[], index: number): Keypoint | null {
+  const keypoint = keypoints[index];
+  return keypoint && keypoint.confidence >= MIN_KEYPOINT_CONFIDENCE ? keypoint : null;
+}
+
+function meanOf(keypoints: Keypoint[], indices: number[]): Point | null {
+  const points = indices.map(i => visible(keypoints, i)).filter((p): p is Keypoint => p !== null);
+  if (points.length === 0) return null;
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  };
+}
+
+/**
+ * Head center from the face keypoints, or projected from the shoulders along the
+ * hip-to-shoulder axis when the face is hidden. Works for lying and inverted poses.
+ */
+export function getHeadCenterFromKeypoints(keypoints: Keypoint[]): Point | null {
+  const face = meanOf(keypoints, HEAD_KEYPOINTS);
+  if (face) return face;
+
+  const leftShoulder = visible(keypoints, KEYPOINT.leftShoulder);
+  const rightShoulder = visible(keypoints, KEYPOINT.rightShoulder);
+  const hips = meanOf(keypoints, [KEYPOINT.leftHip, KEYPOINT.rightHip]);
+  if (!leftShoulder || !rightShoulder || !hips) return null;
+
+  const shoulders = {
+    x: (leftShoulder.x + rightShoulder.x) / 2,
+    y: (leftShoulder.y + rightShoulder.y) / 2
+  };
+  // The head center sits roughly 40% of a torso length beyond the shoulders
+  return {
+    x: shoulders.x + (shoulders.x - hips.x) * 0.4,
+    y: shoulders.y + (shoulders.y - hips.y) * 0.4
+  };
+}
+
+/**
+ * Torso center from shoulders and hips (needs at least two of the four)
+ */
+export function getTorsoCenter(keypoints: Keypoint[]): Point | null {
+  const points = TORSO_KEYPOINTS.filter(i => visible(keypoints, i));
+  if (points.length < 2) return null;
+  return meanOf(keypoints, TORSO_KEYPOINTS);
+}
+
+/**
+ * Which way the subject faces in the image.
+ * Shoulder order tells front from back; a narrow shoulder line means a profile,
+ * where the nose (or visible ear) tells left from right.
+ */
+export function estimateFacing(keypoints: Keypoint[]): FacingDirection | null {
+  const leftShoulder = visible(keypoints, KEYPOINT.leftShoulder);
+  const rightShoulder = visible(keypoints, KEYPOINT.rightShoulder);
+  const nose = visible(keypoints, KEYPOINT.nose);
+  const torso = getTorsoCenter(keypoints);
+
+  if (leftShoulder && rightShoulder) {
+    const shoulderMidX = (leftShoulder.x + rightShoulder.x) / 2;
+    const shoulderMidY = (leftShoulder.y + rightShoulder.y) / 2;
+    const shoulderWidth = Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y);
+    const hips = meanOf(keypoints, [KEYPOINT.leftHip, KEYPOINT.rightHip]);
+    const torsoLength = hips ? Math.hypot(shoulderMidX - hips.x, shoulderMidY - hips.y) : shoulderWidth * 1.5;
+
+    const isProfile = shoulderWidth < torsoLength * 0.35;
+    if (!isProfile) {
+      // Facing the camera, the subject's left shoulder appears on the image right
+      return leftShoulder.x > rightShoulder.x ? 'front' : 'back';
+    }
+
+    if (nose) {
+      return nose.x < shoulderMidX ? 'left' : 'right';
+    }
+  }
+
+  // Profile with the nose hidden: the visible ear is on the far side from where they look
+  const leftEar = visible(keypoints, KEYPOINT.leftEar);
+  const rightEar = visible(keypoints, KEYPOINT.rightEar);
+  if (leftEar && !rightEar) return 'right';
+  if (rightEar && !leftEar) return 'left';
+
+  if (nose && torso) {
+    return nose.x < torso.x ? 'left' : 'right';
+  }
+  return null;
+}
+
+/**
+ * Store keypoints on a box and derive torso center, facing and head center.
+ * A head center already set from a detected face is kept.
+ */
+export function applyPoseToBox(box: BoundingBox, keypoints: Keypoint[]): void {
+  box.keypoints = keypoints;
+
+  const torso = getTorsoCenter(keypoints);
+  if (torso) {
+    box.torsoCenterX = torso.x;
+    box.torsoCenterY = torso.y;
+  }
+
+  const facing = estimateFacing(keypoints);
+  if (facing) {
+    box.facing = facing;
+  }
+
+  if (!box.face) {
+    const head = getHeadCenterFromKeypoints(keypoints);
+    if (head) {
+      box.headCenterX = head.x;
+      box.headCenterY = head.y;
+    }
+  }
+}
+
+/**
+ * Match pose detections to tracked person boxes by IoU and apply their keypoints.
+ * Returns the number of boxes that received a pose.
+ */
+export function attachPosesToBoxes(boxes: BoundingBox[], poses: BoundingBox[], minIou: number = 0.4): number {
+  const pairs: { box: BoundingBox; pose: BoundingBox; iou: number }[] = [];
+  for (const box of boxes) {
+    if (box.class !== 'person') continue;
+    for (const pose of poses) {
+      if (!pose.keypoints) continue;
+      const iou = boxIoU(box, pose);
+      if (iou >= minIou) {
+        pairs.push({ box, pose, iou });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const usedBoxes = new Set<BoundingBox>();
+  const usedPoses = new Set<BoundingBox>();
+  for (const { box, pose } of pairs) {
+    if (usedBoxes.has(box) || usedPoses.has(pose)) continue;
+    usedBoxes.add(box);
+    usedPoses.add(pose);
+    applyPoseToBox(box, pose.keypoints!);
+  }
+
+  return usedBoxes.size;
+}
+
+/**
+ * Best available head center for a person box: face or head detection already on
+ * the box, then pose keypoints, then box-shape heuristics as a last resort
+ */
+export function estimateHeadCenter(box: BoundingBox): Point {
+  if (box.headCenterX !== undefined && box.headCenterY !== undefined) {
+    return { x: box.headCenterX, y: box.headCenterY };
+  }
+
+  if (box.keypoints) {
+    const head = getHeadCenterFromKeypoints(box.keypoints);
+    if (head) return head;
+  }
+
+  const aspectRatio = box.width / box.height;
+  if (aspectRatio > 1.5) {
+    // Wide box - person likely horizontal (e.g. figure skating); guess the left end
+    return { x: box.x + box.width * 0.15, y: box.y + box.height * 0.5 };
+  }
+  if (aspectRatio < 0.5) {
+    // Very tall box - person standing upright
+    return { x: box.x + box.width / 2, y: box.y + box.height * 0.15 };
+  }
+  // Normal standing pose
+  return { x: box.x + box.width / 2, y: box.y + box.height * 0.25 };
+}
+
+/**
+ * Interpolate pose fields between two keyframe boxes (t in [0, 1])
+ */
+export function interpolatePose(
+  prevBox: BoundingBox,
+  nextBox: BoundingBox,
+  t: number
+): Pick<BoundingBox, 'keypoints' | 'torsoCenterX' | 'torsoCenterY' | 'facing'> {
+  const result: Pick<BoundingBox, 'keypoints' | 'torsoCenterX' | 'torsoCenterY' | 'facing'> = {
+    facing: t < 0.5 ? prevBox.facing ?? nextBox.facing : nextBox.facing ?? prevBox.facing
+  };
+
+  if (prevBox.keypoints && nextBox.keypoints && prevBox.keypoints.length === nextBox.keypoints.length) {
+    result.keypoints = prevBox.keypoints.map((prev, i) => {
+      const next = nextBox.keypoints![i];
+      return {
+        x: prev.x + (next.x - prev.x) * t,
+        y: prev.y + (next.y - prev.y) * t,
+        confidence: Math.min(prev.confidence, next.confidence)
+      };
+    });
+  }
+
+  if (prevBox.torsoCenterX !== undefined && prevBox.torsoCenterY !== undefined &&
+      nextBox.torsoCenterX !== undefined && nextBox.torsoCenterY !== undefined) {
+    result.torsoCenterX = prevBox.torsoCenterX + (nextBox.torsoCenterX - prevBox.torsoCenterX) * t;
+    result.torsoCenterY = prevBox.torsoCenterY + (nextBox.torsoCenterY - prevBox.torsoCenterY) * t;
+  }
+
+  return result;
+}
@@ -0,0 +1,51 @@
+import { DetectionMask, SlicingSettings } from '@/types';
+import { createDatabaseOpener, promisifyRequest } from './indexed-db';
+
+const DB_NAME = 'autoreframer-projects';
+const STORE_NAME = 'projects';
+
+/**
+ * What the user set up for one video, keyed by its fingerprint so it comes
+ * back when the same file is loaded again
+ */
+export interface VideoProject {
+  fingerprint: string;
+  updatedAt: number;
+  masks: DetectionMask[];
+  slicing?: SlicingSettings; // Tiled inference suits some footage (wide stage shots, sports) and not others
+  detectorId?: string; // Built-in, manifest or installed model picked for this video
+}
+
+/**
+ * Per-video projects in IndexedDB. Unlike analyses these are the user's own
+ * work, so they are never pruned.
+ */
+export class ProjectStore {
+  private readonly open = createDatabaseOpener(DB_NAME, db => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'fingerprint' });
+  });
+
+  static isSupported(): boolean {
+    // Projects are keyed by a SHA-256 fingerprint of the video
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+  }
+
+  async get(fingerprint: string): Promise<VideoProject | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry = await promisifyRequest<VideoProject | undefined>(store.get(fingerprint));
+    return entry ?? null;
+  }
+
+  async put(project: VideoProject): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.put(project));
+  }
+
+  async delete(fingerprint: string): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisifyRequest(store.delete(fingerprint));
+  }
+}
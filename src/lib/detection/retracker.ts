@@ -0,0 +1,90 @@
+import { ByteTrackInterpolator } from './bytetrack-interpolator';
+import { attachFacesToBoxes } from './face-landmarks';
+import { attachPosesToBoxes, estimateHeadCenter } from './pose-utils';
+import { attachHeadsToBoxes } from './head-association';
+import { applyDetectionMasks } from './detection-masks';
+import { smoothTracks } from './track-smoother';
+import { buildShots } from '@/lib/video/shot-detector';
+import { AffineTransform, BoundingBox, Detection, DetectionMask, FaceLandmarks, FlowSegment, TrackerSettings } from '@/types';
+
+/**
+ * Everything the models produced for one keyframe, before tracking.
+ * Kept so tracking can be re-run with other parameters without inference.
+ */
+export interface KeyframeDetections {
+  frameNumber: number;
+  timestamp: number;
+  isShotStart: boolean;
+  boxes: BoundingBox[]; // Detector output with appearance embeddings
+  faces?: FaceLandmarks[];
+  poses?: BoundingBox[];
+  heads?: BoundingBox[]; // Full-frame head detections, class 'head'
+  cameraMotion?: AffineTransform; // Camera motion since the previous keyframe of the shot
+  flow?: FlowSegment; // Optical flow from this keyframe through the next one of the shot
+}
+
+export function createByteTrackInterpolator(settings: TrackerSettings): ByteTrackInterpolator {
+  return new ByteTrackInterpolator({ ...settings });
+}
+
+/**
+ * Everything ByteTrack sees on a keyframe: objects plus heads, which are
+ * tracked as their own class, minus what the masks rule out
+ */
+export function getTrackerInput(keyframe: KeyframeDetections, masks: DetectionMask[] = []): BoundingBox[] {
+  const boxes = keyframe.heads ? [...keyframe.boxes, ...keyframe.heads] : keyframe.boxes;
+  return applyDetectionMasks(boxes, masks, keyframe.frameNumber);
+}
+
+/**
+ * Attach a keyframe's faces, poses and heads to the tracked people, in that
+ * order of trust
+ */
+export function refineTrackedBoxes(detection: Detection, keyframe: KeyframeDetections): void {
+  if (keyframe.faces) {
+    attachFacesToBoxes(detection.boxes, keyframe.faces);
+  }
+  if (keyframe.poses) {
+    attachPosesToBoxes(detection.boxes, keyframe.poses);
+  }
+  if (keyframe.heads) {
+    attachHeadsToBoxes(detection.boxes, keyframe.heads);
+
+    // Last resort when the head model ran: estimate from keypoints or box shape
+    for (const box of detection.boxes) {
+      if (box.class !== 'person' || box.headCenterX !== undefined) continue;
+      const head = estimateHeadCenter(box);
+      box.headCenterX = head.x;
+      box.headCenterY = head.y;
+    }
+  }
+}
+
+/**
+ * Run ByteTrack again over stored keyframe detections, interpolate every frame
+ * and smooth the tracks
+ */
+export function retrackKeyframes(
+  keyframes: KeyframeDetections[],
+  settings: TrackerSettings,
+  totalFrames: number,
+  fps: number,
+  masks: DetectionMask[] = []
+): Detection[] {
+  const tracker = createByteTrackInterpolator(settings);
+  const ordered = [...keyframes].sort((a, b) => a.frameNumber - b.frameNumber);
+
+  for (const keyframe of ordered) {
+    if (keyframe.isShotStart) {
+      tracker.startNewShot(keyframe.frameNumber);
+    }
+    const detection = tracker.processFrame(getTrackerInput(keyframe, masks), keyframe.frameNumber, keyframe.timestamp, keyframe.cameraMotion);
+    refineTrackedBoxes(detection, keyframe);
+    if (keyframe.flow) {
+      tracker.addFlowSegment(keyframe.flow);
+    }
+  }
+
+  const cuts = ordered.filter(keyframe => keyframe.isShotStart).map(keyframe => keyframe.frameNumber);
+  return smoothTracks(tracker.getAllDetections(totalFrames, fps), buildShots(cuts, totalFrames));
+}
@@ -0,0 +1,199 @@
+import { BoundingBox, SlicingSettings } from '@/types';
+import { Detector, DetectorBackend, DetectorCapabilities, DetectorInput, getInputDimensions } from './detector';
+import { createCanvas, toDrawable } from './canvas-utils';
+import { nonMaxSuppression } from './bytetrack-proper/matching';
+
+export const DEFAULT_SLICING_SETTINGS: SlicingSettings = {
+  mode: 'off',
+  overlap: 0.2,
+  maxSlices: 4
+};
+
+// Tiles only help when the model sees them at a clearly higher resolution than the full frame
+const MIN_UPSCALE = 1.5;
+
+// Auto mode slices when the full-frame pass finds nobody, or someone shorter than this share of the frame
+const SMALL_SUBJECT_HEIGHT = 0.15;
+
+// Boxes this close to a tile edge inside the frame are cut off by the tile
+const EDGE_MARGIN = 2;
+
+export interface Slice {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Overlapping tiles covering the frame: the grid within the slice budget whose
+ * tiles the model sees sharpest, using no more tiles than it takes to reach
+ * the model's native input size. Empty when tiles would be no sharper than the
+ * full frame.
+ */
+export function planSlices(width: number, height: number, inputSize: number, settings: SlicingSettings): Slice[] {
+  if (settings.mode === 'off' || settings.maxSlices < 2) return [];
+
+  const overlap = Math.min(0.5, Math.max(0, settings.overlap));
+  // Length of each of n tiles that cover the side with the given overlap
+  const tileLength = (length: number, n: number) => length / (n - (n - 1) * overlap);
+
+  let best: { cols: number; rows: number; size: number } | null = null;
+  for (let cols = 1; cols <= settings.maxSlices; cols++) {
+    for (let rows = 1; cols * rows <= settings.maxSlices; rows++) {
+      if (cols * rows < 2) continue;
+      // Detectors stretch tiles to their square input, so the longer side is shrunk the most and sets the sharpness
+      const size = Math.max(inputSize, tileLength(width, cols), tileLength(height, rows));
+      if (!best || size < best.size || (size === best.size && cols * rows < best.cols * best.rows)) {
+        best = { cols, rows, size };
+      }
+    }
+  }
+  if (!best || Math.max(width, height) < best.size * MIN_UPSCALE) return [];
+
+  const { cols, rows } = best;
+  const tileWidth = Math.round(tileLength(width, cols));
+  const tileHeight = Math.round(tileLength(height, rows));
+  const slices: Slice[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      slices.push({
+        x: cols > 1 ? Math.round((col * (width - tileWidth)) / (cols - 1)) : 0,
+        y: rows > 1 ? Math.round((row * (height - tileHeight)) / (rows - 1)) : 0,
+        width: tileWidth,
+        height: tileHeight
+      });
+    }
+  }
+  return slices;
+}
+
+/**
+ * Whether a box found in a tile is cut off by one of the tile's edges inside
+ * the frame. The full-frame pass or a neighboring tile sees it whole.
+ */
+function isCutByTile(box: BoundingBox, slice: Slice, frameWidth: number, frameHeight: number): boolean {
+  return (slice.x > 0 && box.x <= EDGE_MARGIN) ||
+    (slice.y > 0 && box.y <= EDGE_MARGIN) ||
+    (slice.x + slice.width < frameWidth && box.x + box.width >= slice.width - EDGE_MARGIN) ||
+    (slice.y + slice.height < frameHeight && box.y + box.height >= slice.height - EDGE_MARGIN);
+}
+
+/**
+ * Sliced inference around any detector: the full frame plus overlapping tiles
+ * at close to the model's input resolution, merged with NMS in frame
+ * coordinates. Finds distant subjects that shrink to a few pixels when a 4K
+ * frame is resized to the model input.
+ */
+export class SlicedDetector implements Detector {
+  readonly id: string;
+  readonly name: string;
+  readonly backend: DetectorBackend;
+  readonly inputSize: number;
+  readonly classNames: readonly string[];
+  readonly capabilities: DetectorCapabilities;
+
+  private inner: Detector;
+  private settings: SlicingSettings;
+  private lastSliceCount = 0;
+
+  constructor(inner: Detector, settings: SlicingSettings = DEFAULT_SLICING_SETTINGS) {
+    this.inner = inner;
+    this.settings = { ...settings };
+    this.id = inner.id;
+    this.name = inner.name;
+    this.backend = inner.backend;
+    this.inputSize = inner.inputSize;
+    this.classNames = inner.classNames;
+    this.capabilities = inner.capabilities;
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  isInitialized(): boolean {
+    return this.inner.isInitialized();
+  }
+
+  getSlicing(): SlicingSettings {
+    return { ...this.settings };
+  }
+
+  setSlicing(settings: SlicingSettings): void {
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Tiles run on the last frame, for cost reporting
+   */
+  getLastSliceCount(): number {
+    return this.lastSliceCount;
+  }
+
+  async detect(image: DetectorInput, frameNumber?: number): Promise<BoundingBox[]> {
+    const fullFrame = await this.inner.detect(image, frameNumber);
+    this.lastSliceCount = 0;
+
+    const { width, height } = getInputDimensions(image);
+    const slices = planSlices(width, height, this.inner.inputSize, this.settings);
+    if (slices.length === 0) return fullFrame;
+
+    // Large subjects are already sharp enough in the full frame
+    if (this.settings.mode === 'auto' && fullFrame.length > 0 &&
+        fullFrame.every(box => box.height >= height * SMALL_SUBJECT_HEIGHT)) {
+      return fullFrame;
+    }
+
+    const source = toDrawable(image);
+    const tileBoxes: BoundingBox[] = [];
+    for (const slice of slices) {
+      const { ctx } = createCanvas(slice.width, slice.height);
+      ctx.drawImage(source, slice.x, slice.y, slice.width, slice.height, 0, 0, slice.width, slice.height);
+      const boxes = await this.inner.detect(ctx.getImageData(0, 0, slice.width, slice.height), frameNumber);
+
+      for (const box of boxes) {
+        if (isCutByTile(box, slice, width, height)) continue;
+        tileBoxes.push({
+          ...box,
+          x: box.x + slice.x,
+          y: box.y + slice.y,
+          headCenterX: box.headCenterX !== undefined ? box.headCenterX + slice.x : undefined,
+          headCenterY: box.headCenterY !== undefined ? box.headCenterY + slice.y : undefined
+        });
+      }
+    }
+    this.lastSliceCount = slices.length;
+
+    // Class-aware NMS over the full-frame and tile boxes
+    return nonMaxSuppression([...fullFrame, ...tileBoxes], this.inner.getIouThreshold());
+  }
+
+  getConfidenceThreshold(): number {
+    return this.inner.getConfidenceThreshold();
+  }
+
+  setConfidenceThreshold(threshold: number): void {
+    this.inner.setConfidenceThreshold(threshold);
+  }
+
+  getIouThreshold(): number {
+    return this.inner.getIouThreshold();
+  }
+
+  setIouThreshold(threshold: number): void {
+    this.inner.setIouThreshold(threshold);
+  }
+
+  getClassFilter(): string[] | null {
+    return this.inner.getClassFilter();
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.inner.setClassFilter(classNames);
+  }
+
+  dispose(): void {
+    this.inner.dispose();
+  }
+}
@@ -0,0 +1,104 @@
+import { BoundingBox, Detection, TrackedObject } from '@/types';
+
+/**
+ * Group per-frame boxes into tracks keyed by trackId
+ */
+export function buildTrackedObjects(detections: Detection[], selectedTrackId: string | null = null): TrackedObject[] {
+  const trackMap = new Map<string, TrackedObject>();
+
+  detections.forEach((detection) => {
+    detection.boxes.forEach((box) => {
+      if (box.trackId) {
+        if (!trackMap.has(box.trackId)) {
+          trackMap.set(box.trackId, {
+            id: box.trackId,
+            firstFrame: detection.frameNumber,
+            lastFrame: detection.frameNumber,
+            positions: new Map(),
+            label: box.class,
+            selected: box.trackId === selectedTrackId
+          });
+        }
+
+        const track = trackMap.get(box.trackId)!;
+        track.lastFrame = detection.frameNumber;
+        track.positions.set(detection.frameNumber, box);
+      }
+    });
+  });
+
+  return Array.from(trackMap.values());
+}
+
+/**
+ * An unused track ID. ByteTrack numbers its tracks, so continue after the highest.
+ */
+export function createTrackId(detections: Detection[]): string {
+  let maxId = 0;
+  detections.forEach(detection => {
+    detection.boxes.forEach(box => {
+      const id = Number(box.trackId);
+      if (Number.isFinite(id) && id > maxId) maxId = id;
+    });
+  });
+  return `${maxId + 1}`;
+}
+
+// Copy-on-write over every frame: untouched detections and boxes are shared
+function mapBoxes(
+  detections: Detection[],
+  update: (boxes: BoundingBox[], detection: Detection) => BoundingBox[] | null
+): Detection[] {
+  return detections.map(detection => {
+    const boxes = update(detection.boxes, detection);
+    return boxes ? { ...detection, boxes } : detection;
+  });
+}
+
+/**
+ * Give every box of mergeId the ID keepId. Where both tracks have a box in the
+ * same frame, the more confident one stays.
+ */
+export function mergeTracks(detections: Detection[], keepId: string, mergeId: string): Detection[] {
+  if (keepId === mergeId) return detections;
+
+  return mapBoxes(detections, boxes => {
+    const mergeBox = boxes.find(box => box.trackId === mergeId);
+    if (!mergeBox) return null;
+
+    const keepBox = boxes.find(box => box.trackId === keepId);
+    if (keepBox && keepBox.confidence >= mergeBox.confidence) {
+      return boxes.filter(box => box !== mergeBox);
+    }
+    return boxes
+      .filter(box => box !== keepBox)
+      .map(box => box === mergeBox ? { ...box, trackId: keepId } : box);
+  });
+}
+
+/**
+ * Move the boxes of trackId from fromFrame onward to newTrackId
+ */
+export function splitTrack(detections: Detection[], trackId: string, fromFrame: number, newTrackId: string): Detection[] {
+  return mapBoxes(detections, (boxes, detection) => {
+    if (detection.frameNumber < fromFrame || !boxes.some(box => box.trackId === trackId)) return null;
+    return boxes.map(box => box.trackId === trackId ? { ...box, trackId: newTrackId } : box);
+  });
+}
+
+/**
+ * Give the box of fromId in one frame the ID toId. If toId already has a box in
+ * that frame, the two boxes swap IDs.
+ */
+export function reassignBox(detections: Detection[], frameNumber: number, fromId: string, toId: string): Detection[] {
+  if (fromId === toId) return detections;
+
+  return mapBoxes(detections, (boxes, detection) => {
+    if (detection.frameNumber !== frameNumber || !boxes.some(box => box.trackId === fromId)) return null;
+    return boxes.map(box => {
+      if (box.trackId === fromId) return { ...box, trackId: toId };
+      if (box.trackId === toId) return { ...box, trackId: fromId };
+      return box;
+    });
+  });
+}
@@ -0,0 +1,192 @@
+import { BoundingBox, Detection } from '@/types';
+
+export type TrackRating = 'good' | 'fair' | 'poor';
+
+export interface SuspectedIdSwitch {
+  frameNumber: number;
+  reason: 'reidentified' | 'jump' | 'resize';
+}
+
+export interface TrackQuality {
+  trackId: string;
+  label: string;
+  firstFrame: number;
+  lastFrame: number;
+  detectedFrames: number; // Keyframes where the detector actually saw the track
+  interpolatedFrames: number; // Frames filled in between keyframes
+  detectionRatio: number; // detectedFrames / all frames with a box
+  keyframeCoverage: number; // Share of keyframes in the track's lifetime that detected it
+  longestGap: number; // Longest run of frames the tracker had lost the track
+  averageConfidence: number; // Over real detections
+  sizeJitter: number; // Mean relative change in box size between consecutive detections
+  meanUncertainty: number; // Mean Kalman position std relative to box height
+  smoothingResidual: number; // Mean distance offline smoothing moved the center, relative to box height
+  peakSmoothingResidual: { frameNumber: number; value: number } | null;
+  suspectedIdSwitches: SuspectedIdSwitch[];
+  rating: TrackRating;
+}
+
+// A center moving more than this many box sizes per frame (and at least JUMP_MIN) looks like another person
+const JUMP_PER_FRAME = 0.15;
+const JUMP_MIN = 0.75;
+// Box size changing by more than this factor between detections
+const RESIZE_RATIO = 1.5;
+
+interface TrackAccumulator {
+  label: string;
+  firstFrame: number;
+  lastFrame: number;
+  detected: { frameNumber: number; box: BoundingBox }[];
+  interpolatedFrames: number;
+  residualSum: number;
+  residualCount: number;
+  peakResidual: { frameNumber: number; value: number } | null;
+}
+
+function boxSize(box: BoundingBox): number {
+  return Math.sqrt(Math.max(1, box.width * box.height));
+}
+
+/**
+ * Rate a track by how much of it was really detected and how consistent it is
+ */
+function rateTrack(quality: Omit<TrackQuality, 'rating'>): TrackRating {
+  if (quality.suspectedIdSwitches.length >= 2 || quality.keyframeCoverage < 0.5 || quality.averageConfidence < 0.4) {
+    return 'poor';
+  }
+  if (quality.suspectedIdSwitches.length === 0 && quality.keyframeCoverage >= 0.85 && quality.sizeJitter < 0.1) {
+    return 'good';
+  }
+  return 'fair';
+}
+
+/**
+ * Per-track diagnostics from the interpolated detections. Keyframes carry the
+ * real detections plus ByteTrack's re-find events and Kalman uncertainty;
+ * everything else was interpolated. Every smoothed keyframe reports how far
+ * offline smoothing moved it.
+ */
+export function computeTrackQuality(detections: Detection[]): TrackQuality[] {
+  const tracks = new Map<string, TrackAccumulator>();
+  const keyframes: number[] = [];
+
+  for (const detection of detections) {
+    if (detection.isKeyframe) {
+      keyframes.push(detection.frameNumber);
+    }
+
+    for (const box of detection.boxes) {
+      if (!box.trackId) continue;
+
+      let track = tracks.get(box.trackId);
+      if (!track) {
+        track = {
+          label: box.class,
+          firstFrame: detection.frameNumber,
+          lastFrame: detection.frameNumber,
+          detected: [],
+          interpolatedFrames: 0,
+          residualSum: 0,
+          residualCount: 0,
+          peakResidual: null
+        };
+        tracks.set(box.trackId, track);
+      }
+
+      track.firstFrame = Math.min(track.firstFrame, detection.frameNumber);
+      track.lastFrame = Math.max(track.lastFrame, detection.frameNumber);
+      if (detection.isKeyframe) {
+        track.detected.push({ frameNumber: detection.frameNumber, box });
+      } else {
+        track.interpolatedFrames++;
+      }
+
+      if (box.smoothingResidual && box.height > 0) {
+        const residual = Math.hypot(box.smoothingResidual.centerX, box.smoothingResidual.centerY) / box.height;
+        track.residualSum += residual;
+        track.residualCount++;
+        if (!track.peakResidual || residual > track.peakResidual.value) {
+          track.peakResidual = { frameNumber: detection.frameNumber, value: residual };
+        }
+      }
+    }
+  }
+
+  keyframes.sort((a, b) => a - b);
+  const keyframeIndex = new Map(keyframes.map((frame, index) => [frame, index]));
+
+  const report: TrackQuality[] = [];
+  tracks.forEach((track, trackId) => {
+    const detected = track.detected.sort((a, b) => a.frameNumber - b.frameNumber);
+    const detectedFrames = detected.length;
+
+    // Keyframes inside the track's lifetime where it should have been seen
+    const lifetimeKeyframes = keyframes.filter(f => f >= track.firstFrame && f <= track.lastFrame);
+    const detectedSet = new Set(detected.map(d => d.frameNumber));
+
+    let longestGap = 0;
+    let sizeChangeSum = 0;
+    const suspectedIdSwitches: SuspectedIdSwitch[] = [];
+
+    for (let i = 1; i < detected.length; i++) {
+      const prev = detected[i - 1];
+      const curr = detected[i];
+      const elapsed = curr.frameNumber - prev.frameNumber;
+
+      // A gap only counts when keyframes in between missed the track
+      if (keyframeIndex.get(curr.frameNumber)! - keyframeIndex.get(prev.frameNumber)! > 1) {
+        longestGap = Math.max(longestGap, elapsed - 1);
+      }
+
+      const prevSize = boxSize(prev.box);
+      const currSize = boxSize(curr.box);
+      sizeChangeSum += Math.abs(currSize - prevSize) / ((currSize + prevSize) / 2);
+
+      if (curr.box.trackerEvent === 'reidentified') {
+        suspectedIdSwitches.push({ frameNumber: curr.frameNumber, reason: 'reidentified' });
+        continue;
+      }
+
+      const dx = (curr.box.x + curr.box.width / 2) - (prev.box.x + prev.box.width / 2);
+      const dy = (curr.box.y + curr.box.height / 2) - (prev.box.y + prev.box.height / 2);
+      const displacement = Math.hypot(dx, dy) / prevSize;
+      if (displacement > Math.max(JUMP_MIN, JUMP_PER_FRAME * elapsed)) {
+        suspectedIdSwitches.push({ frameNumber: curr.frameNumber, reason: 'jump' });
+      } else if (Math.max(currSize / prevSize, prevSize / currSize) > RESIZE_RATIO) {
+        suspectedIdSwitches.push({ frameNumber: curr.frameNumber, reason: 'resize' });
+      }
+    }
+
+    const uncertainties = detected
+      .map(d => d.box.trackUncertainty)
+      .filter((u): u is number => u !== undefined);
+
+    const quality: Omit<TrackQuality, 'rating'> = {
+      trackId,
+      label: track.label,
+      firstFrame: track.firstFrame,
+      lastFrame: track.lastFrame,
+      detectedFrames,
+      interpolatedFrames: track.interpolatedFrames,
+      detectionRatio: detectedFrames / Math.max(1, detectedFrames + track.interpolatedFrames),
+      keyframeCoverage: lifetimeKeyframes.length > 0
+        ? lifetimeKeyframes.filter(f => detectedSet.has(f)).length / lifetimeKeyframes.length
+        : 0,
+      longestGap,
+      averageConfidence: detectedFrames > 0
+        ? detected.reduce((sum, d) => sum + d.box.confidence, 0) / detectedFrames
+        : 0,
+      sizeJitter: detected.length > 1 ? sizeChangeSum / (detected.length - 1) : 0,
+      meanUncertainty: uncertainties.length > 0
+        ? uncertainties.reduce((sum, u) => sum + u, 0) / uncertainties.length
+        : 0,
+      smoothingResidual: track.residualCount > 0 ? track.residualSum / track.residualCount : 0,
+      peakSmoothingResidual: track.peakResidual,
+      suspectedIdSwitches
+    };
+
+    report.push({ ...quality, rating: rateTrack(quality) });
+  });
+
+  return report;
+}
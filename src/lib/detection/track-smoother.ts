@@ -0,0 +1,292 @@
+import { BoundingBox, Detection, Shot, SmoothingResidual } from '@/types';
+import { KalmanFilter } from './bytetrack-proper/kalman-filter';
+
+// A center moving more than this many box heights in one frame starts a new run
+const MAX_FRAME_JUMP = 1;
+// Runs with fewer measurements are left as they are; there is nothing to smooth against
+const MIN_RUN_LENGTH = 3;
+
+interface TrackSample {
+  detectionIndex: number;
+  boxIndex: number;
+  frameNumber: number;
+  box: BoundingBox;
+  measured: boolean; // From a keyframe's detection pass, not interpolated between keyframes
+}
+
+// How far smoothing moved a measured box, carried to the frames between measurements
+interface Correction {
+  dx: number;
+  dy: number;
+  heightScale: number;
+  headDx: number;
+  headDy: number;
+}
+
+const kalmanFilter = new KalmanFilter();
+
+function toTlbr(centerX: number, centerY: number, width: number, height: number): number[] {
+  return [centerX - width / 2, centerY - height / 2, centerX + width / 2, centerY + height / 2];
+}
+
+/**
+ * Filter a run forward frame by frame, correcting only on measured frames
+ * (null entries are not measured), then smooth it backward with the RTS pass.
+ * The first entry must be measured.
+ */
+function smoothMeasurements(measurements: (number[] | null)[]): Float64Array[] {
+  const filtered: [Float64Array, Float64Array][] = [];
+  const predicted: [Float64Array, Float64Array][] = [];
+
+  let [mean, covariance] = kalmanFilter.initiate(measurements[0]!);
+  predicted.push([mean.slice(), covariance.slice()]);
+  filtered.push([mean.slice(), covariance.slice()]);
+
+  for (let i = 1; i < measurements.length; i++) {
+    mean = mean.slice();
+    covariance = covariance.slice();
+    kalmanFilter.predict(mean, covariance);
+    predicted.push([mean.slice(), covariance.slice()]);
+    const measurement = measurements[i];
+    if (measurement) {
+      kalmanFilter.update(mean, covariance, measurement);
+    }
+    filtered.push([mean.slice(), covariance.slice()]);
+  }
+
+  return kalmanFilter.smooth(filtered, predicted).map(([smoothedMean]) => smoothedMean);
+}
+
+/**
+ * Split a track into runs of consecutive frames within one shot and without
+ * implausible jumps
+ */
+function splitIntoRuns(samples: TrackSample[], shotStarts: Set<number>): TrackSample[][] {
+  const runs: TrackSample[][] = [];
+  let run: TrackSample[] = [];
+
+  for (const sample of samples) {
+    const prev = run[run.length - 1];
+    if (prev) {
+      const jump = Math.hypot(
+        (sample.box.x + sample.box.width / 2) - (prev.box.x + prev.box.width / 2),
+        (sample.box.y + sample.box.height / 2) - (prev.box.y + prev.box.height / 2)
+      );
+      if (sample.frameNumber !== prev.frameNumber + 1 || shotStarts.has(sample.frameNumber) ||
+          jump > MAX_FRAME_JUMP * prev.box.height) {
+        runs.push(run);
+        run = [];
+      }
+    }
+    run.push(sample);
+  }
+  if (run.length > 0) runs.push(run);
+
+  return runs;
+}
+
+/**
+ * Box with the smoothed center and size. Face, keypoints and torso move with
+ * the head or box center so they stay attached to the person. Only measured
+ * boxes report a smoothing residual.
+ */
+function applySmoothedState(
+  box: BoundingBox,
+  state: ArrayLike<number>,
+  head: { x: number; y: number } | null,
+  measured: boolean
+): BoundingBox {
+  const height = state[3];
+  const width = state[2] * height;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const dx = state[0] - centerX;
+  const dy = state[1] - centerY;
+
+  const residual: SmoothingResidual = {
+    centerX: centerX - state[0],
+    centerY: centerY - state[1],
+    height: box.height - height
+  };
+
+  const smoothed: BoundingBox = {
+    ...box,
+    x: state[0] - width / 2,
+    y: state[1] - height / 2,
+    width,
+    height,
+    velocityX: state[4],
+    velocityY: state[5],
+    // Interpolated boxes were never measured, so how far they moved says nothing about the detector
+    smoothingResidual: measured ? residual : undefined
+  };
+
+  let faceDx = dx;
+  let faceDy = dy;
+  if (head && box.headCenterX !== undefined && box.headCenterY !== undefined) {
+    residual.headX = box.headCenterX - head.x;
+    residual.headY = box.headCenterY - head.y;
+    smoothed.headCenterX = head.x;
+    smoothed.headCenterY = head.y;
+    faceDx = -residual.headX;
+    faceDy = -residual.headY;
+  } else if (box.headCenterX !== undefined && box.headCenterY !== undefined) {
+    smoothed.headCenterX = box.headCenterX + dx;
+    smoothed.headCenterY = box.headCenterY + dy;
+  }
+
+  if (box.face) {
+    const { face } = box;
+    const move = (point: { x: number; y: number }) => ({ x: point.x + faceDx, y: point.y + faceDy });
+    smoothed.face = {
+      ...face,
+      x: face.x + faceDx,
+      y: face.y + faceDy,
+      leftEye: move(face.leftEye),
+      rightEye: move(face.rightEye),
+      nose: move(face.nose),
+      mouthLeft: move(face.mouthLeft),
+      mouthRight: move(face.mouthRight)
+    };
+  }
+  if (box.keypoints) {
+    smoothed.keypoints = box.keypoints.map(keypoint => ({ ...keypoint, x: keypoint.x + dx, y: keypoint.y + dy }));
+  }
+  if (box.torsoCenterX !== undefined && box.torsoCenterY !== undefined) {
+    smoothed.torsoCenterX = box.torsoCenterX + dx;
+    smoothed.torsoCenterY = box.torsoCenterY + dy;
+  }
+
+  return smoothed;
+}
+
+function getCorrection(box: BoundingBox, state: Float64Array, headState: Float64Array | null): Correction {
+  return {
+    dx: state[0] - (box.x + box.width / 2),
+    dy: state[1] - (box.y + box.height / 2),
+    heightScale: state[3] / box.height,
+    headDx: headState ? headState[0] - box.headCenterX! : 0,
+    headDy: headState ? headState[1] - box.headCenterY! : 0
+  };
+}
+
+function lerpCorrection(a: Correction, b: Correction, t: number): Correction {
+  const lerp = (from: number, to: number) => from + (to - from) * t;
+  return {
+    dx: lerp(a.dx, b.dx),
+    dy: lerp(a.dy, b.dy),
+    heightScale: lerp(a.heightScale, b.heightScale),
+    headDx: lerp(a.headDx, b.headDx),
+    headDy: lerp(a.headDy, b.headDy)
+  };
+}
+
+/**
+ * Smooth one run of a track. Only keyframe detections are measurements; the
+ * frames between them were interpolated (along optical flow where there was
+ * any), so they keep their own motion and move by the corrections of the
+ * keyframes around them. Head centers are smoothed as a square the height of
+ * the person, so they get the same noise model as the box.
+ */
+function smoothRun(run: TrackSample[]): BoundingBox[] {
+  const boxStates = smoothMeasurements(run.map(({ box, measured }) => measured
+    ? toTlbr(box.x + box.width / 2, box.y + box.height / 2, box.width, box.height)
+    : null
+  ));
+
+  const hasHeads = run.every(({ box, measured }) =>
+    !measured || (box.headCenterX !== undefined && box.headCenterY !== undefined)
+  );
+  const headStates = hasHeads
+    ? smoothMeasurements(run.map(({ box, measured }) => measured
+      ? toTlbr(box.headCenterX!, box.headCenterY!, box.height, box.height)
+      : null
+    ))
+    : null;
+
+  const measuredIndices = run.flatMap((sample, i) => (sample.measured ? [i] : []));
+  const corrections = new Map(measuredIndices.map(i => [
+    i,
+    getCorrection(run[i].box, boxStates[i], headStates ? headStates[i] : null)
+  ]));
+
+  let next = 0;
+  return run.map(({ box, measured, frameNumber }, i) => {
+    if (measured) {
+      next++;
+      return applySmoothedState(box, boxStates[i], headStates ? { x: headStates[i][0], y: headStates[i][1] } : null, true);
+    }
+
+    // Runs start and end on measured frames, so both neighbors exist
+    const before = measuredIndices[next - 1];
+    const after = measuredIndices[next];
+    const correction = lerpCorrection(
+      corrections.get(before)!,
+      corrections.get(after)!,
+      (frameNumber - run[before].frameNumber) / (run[after].frameNumber - run[before].frameNumber)
+    );
+    const height = box.height * correction.heightScale;
+    const state = [
+      box.x + box.width / 2 + correction.dx,
+      box.y + box.height / 2 + correction.dy,
+      box.width / box.height,
+      height,
+      boxStates[i][4],
+      boxStates[i][5]
+    ];
+    const head = headStates && box.headCenterX !== undefined && box.headCenterY !== undefined
+      ? { x: box.headCenterX + correction.headDx, y: box.headCenterY + correction.headDy }
+      : null;
+    return applySmoothedState(box, state, head, false);
+  });
+}
+
+/**
+ * Drop interpolated frames before the first and after the last measurement;
+ * there is nothing to smooth them against
+ */
+function trimToMeasured(run: TrackSample[]): TrackSample[] {
+  const first = run.findIndex(sample => sample.measured);
+  if (first < 0) return [];
+  let last = run.length - 1;
+  while (!run[last].measured) last--;
+  return run.slice(first, last + 1);
+}
+
+/**
+ * Rauch-Tung-Striebel smoothing of finished tracks. The online Kalman filter
+ * only knows the past; offline every frame can also use what comes after it,
+ * which takes the jitter out of boxes and head centers without the lag of a
+ * causal filter. Runs never cross a shot cut. Smoothed boxes carry their
+ * velocity, and measured ones how far they moved (smoothingResidual), for
+ * diagnostics. Returns new detections.
+ */
+export function smoothTracks(detections: Detection[], shots: Shot[] = []): Detection[] {
+  const shotStarts = new Set(shots.map(shot => shot.startFrame));
+  const tracks = new Map<string, TrackSample[]>();
+  detections.forEach((detection, detectionIndex) => {
+    detection.boxes.forEach((box, boxIndex) => {
+      if (!box.trackId || box.width <= 0 || box.height <= 0) return;
+      let samples = tracks.get(box.trackId);
+      if (!samples) {
+        samples = [];
+        tracks.set(box.trackId, samples);
+      }
+      samples.push({ detectionIndex, boxIndex, frameNumber: detection.frameNumber, box, measured: !!detection.isKeyframe });
+    });
+  });
+
+  const smoothedBoxes = detections.map(detection => [...detection.boxes]);
+
+  tracks.forEach(samples => {
+    samples.sort((a, b) => a.frameNumber - b.frameNumber);
+    for (const run of splitIntoRuns(samples, shotStarts).map(trimToMeasured)) {
+      if (run.filter(sample => sample.measured).length < MIN_RUN_LENGTH) continue;
+      smoothRun(run).forEach((box, i) => {
+        smoothedBoxes[run[i].detectionIndex][run[i].boxIndex] = box;
+      });
+    }
+  });
+
+  return detections.map((detection, i) => ({ ...detection, boxes: smoothedBoxes[i] }));
+}
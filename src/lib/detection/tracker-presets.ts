@@ -0,0 +1,92 @@
+import { TrackerSettings } from '@/types';
+
+/**
+ * Named ByteTrack parameter sets for common kinds of footage
+ */
+export interface TrackerPreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: TrackerSettings;
+}
+
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+  trackThresh: 0.3,
+  lowThresh: 0.1,
+  matchThresh: 0.8,
+  trackBuffer: 90,
+  minBoxArea: 100,
+  cameraMotionCompensation: true
+};
+
+export const TRACKER_PRESETS: Record<string, TrackerPreset> = {
+  'default': {
+    id: 'default',
+    name: 'Default',
+    description: 'Balanced for one or a few people',
+    settings: DEFAULT_TRACKER_SETTINGS
+  },
+  'crowd': {
+    id: 'crowd',
+    name: 'Crowd',
+    description: 'Stricter matching so neighbors don\'t swap IDs',
+    settings: {
+      trackThresh: 0.45,
+      lowThresh: 0.15,
+      matchThresh: 0.6,
+      trackBuffer: 60,
+      minBoxArea: 100,
+      cameraMotionCompensation: true
+    }
+  },
+  'occlusion': {
+    id: 'occlusion',
+    name: 'Occlusions',
+    description: 'Keeps lost people longer and accepts weak detections',
+    settings: {
+      trackThresh: 0.25,
+      lowThresh: 0.05,
+      matchThresh: 0.8,
+      trackBuffer: 270,
+      minBoxArea: 100,
+      cameraMotionCompensation: true
+    }
+  },
+  'fast-motion': {
+    id: 'fast-motion',
+    name: 'Fast Motion',
+    description: 'Looser matching for sports and quick camera moves',
+    settings: {
+      trackThresh: 0.3,
+      lowThresh: 0.1,
+      matchThresh: 0.9,
+      trackBuffer: 135,
+      minBoxArea: 50,
+      cameraMotionCompensation: true
+    }
+  },
+  'small-subjects': {
+    id: 'small-subjects',
+    name: 'Small Subjects',
+    description: 'Wide shots where people are only a few pixels tall',
+    settings: {
+      trackThresh: 0.25,
+      lowThresh: 0.1,
+      matchThresh: 0.85,
+      trackBuffer: 90,
+      minBoxArea: 0,
+      cameraMotionCompensation: true
+    }
+  }
+};
+
+export const DEFAULT_TRACKER_PRESET_ID = 'default';
+
+/**
+ * The preset whose settings match exactly, if any
+ */
+export function findTrackerPreset(settings: TrackerSettings): TrackerPreset | null {
+  return Object.values(TRACKER_PRESETS).find(preset =>
+    (Object.keys(settings) as (keyof TrackerSettings)[]).every(key => preset.settings[key] === settings[key])
+  ) ?? null;
+}
@@ -0,0 +1,39 @@
+import { Detection, SlicingSettings } from '@/types';
+import { TransferableFrame } from './canvas-utils';
+import { FrameAnalysisResult, PipelineSettings, VideoAnalysisOptions, VideoAnalysisResult } from './pipeline';
+
+// Messages from the page to the detection worker. Every request gets exactly one response with its id.
+export type DetectionWorkerRequest =
+  | { id: number; type: 'initialize'; settings: PipelineSettings }
+  | { id: number; type: 'setClassSet'; classSetId: string }
+  | { id: number; type: 'setFaceLandmarks'; enabled: boolean }
+  | { id: number; type: 'setSlicing'; settings: SlicingSettings }
+  | { id: number; type: 'setConfidenceThreshold'; threshold: number }
+  | { id: number; type: 'detectFrame'; frame: TransferableFrame; frameNumber: number; timestamp: number }
+  | { id: number; type: 'beginVideo'; options: VideoAnalysisOptions }
+  | { id: number; type: 'processFrame'; frame: TransferableFrame; frameNumber: number; timestamp: number }
+  | { id: number; type: 'getDetectionsSoFar' }
+  | { id: number; type: 'finishVideo' }
+  | { id: number; type: 'reset' };
+
+export type DetectionWorkerRequestType = DetectionWorkerRequest['type'];
+
+// What each request resolves to
+export interface DetectionWorkerResultMap {
+  initialize: void;
+  setClassSet: void;
+  setFaceLandmarks: void;
+  setSlicing: void;
+  setConfidenceThreshold: void;
+  detectFrame: Detection;
+  beginVideo: void;
+  processFrame: FrameAnalysisResult;
+  getDetectionsSoFar: Detection[];
+  finishVideo: VideoAnalysisResult;
+  reset: void;
+}
+
+// Messages from the worker back to the page
+export type DetectionWorkerResponse =
+  | { id: number; type: 'result'; result: DetectionWorkerResultMap[DetectionWorkerRequestType] }
+  | { id: number; type: 'error'; message: string };
@@ -1,26 +1,23 @@
 import * as tf from '@tensorflow/tfjs';
 import { BoundingBox } from '@/types';
+import { Detector, DetectorCapabilities, DetectorInput, getInputDimensions, resolveClassFilter } from './detector';
+import { COCO_CLASSES } from './coco-classes';
+
+export class YOLODetector implements Detector {
+  readonly id = 'yolov8n-tfjs-nms';
+  readonly name = 'YOLOv8n (TF.js, tensor NMS)';
+  readonly backend = 'tfjs' as const;
+  readonly inputSize: number = 640;
+  readonly classNames: readonly string[] = COCO_CLASSES;
+  readonly capabilities: DetectorCapabilities = { objects: true, heads: false, cropRefinement: false, landmarks: false, keypoints: false };
 
-const COCO_CLASSES = [
-  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
-  'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat',
-  'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack',
-  'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball',
-  'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket',
-  'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple',
-  'sandwich', 'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake',
-  'chair', 'couch', 'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop',
-  'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
-  'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier', 'toothbrush'
-];
-
-export class YOLODetector {
   private model: tf.GraphModel | null = null;
   private modelPath: string;
-  private inputSize: number = 640;
   private confidenceThreshold: number = 0.45;
   private iouThreshold: number = 0.5;
   private maxDetections: number = 100;
+  private classFilter: string[] | null = ['person'];
+  private allowedClassIds: Set<number> | null = resolveClassFilter(COCO_CLASSES, this.classFilter);
 
   constructor(modelPath: string = '/yolov8n_web_model/model.json') {
     this.modelPath = modelPath;
@@ -44,7 +41,11 @@ export class YOLODetector {
     }
   }
 
-  async detect(imageData: ImageData | HTMLVideoElement | HTMLCanvasElement): Promise<BoundingBox[]> {
+  isInitialized(): boolean {
+    return this.model !== null;
+  }
+
+  async detect(imageData: DetectorInput): Promise<BoundingBox[]> {
     if (!this.model) {
       throw new Error('Model not initialized');
     }
@@ -59,7 +60,7 @@ export class YOLODetector {
     return boxes;
   }
 
-  private async preprocessImage(imageData: ImageData | HTMLVideoElement | HTMLCanvasElement): Promise<tf.Tensor4D> {
+  private async preprocessImage(imageData: DetectorInput): Promise<tf.Tensor4D> {
     let tensor: tf.Tensor3D;
     
     if (imageData instanceof ImageData) {
@@ -84,10 +85,8 @@ export class YOLODetector {
     return batched as tf.Tensor4D;
   }
 
-  private async postprocess(predictions: tf.Tensor, originalImage: ImageData | HTMLVideoElement | HTMLCanvasElement): Promise<BoundingBox[]> {
-    const [height, width] = originalImage instanceof ImageData 
-      ? [originalImage.height, originalImage.width]
-      : [originalImage.height, originalImage.width];
+  private async postprocess(predictions: tf.Tensor, originalImage: DetectorInput): Promise<BoundingBox[]> {
+    const { width, height } = getInputDimensions(originalImage);
 
     // YOLOv8 output shape: [1, 84, 8400]
     const transposed = tf.transpose(predictions, [0, 2, 1]);
@@ -121,8 +120,9 @@ export class YOLODetector {
       const maxScore = Math.max(...classScores);
       const classId = classScores.indexOf(maxScore);
       
-      // Only detect person (class 0 in COCO dataset)
-      if (classId === 0 && maxScore > this.confidenceThreshold) {
+      // Only detect classes allowed by the class filter
+      const isAllowedClass = !this.allowedClassIds || this.allowedClassIds.has(classId);
+      if (isAllowedClass && maxScore > this.confidenceThreshold) {
         // Convert from center format to corner format
         const x1 = (cx - w / 2) / this.inputSize;
         const y1 = (cy - h / 2) / this.inputSize;
@@ -143,8 +143,9 @@ export class YOLODetector {
     
     const results: BoundingBox[] = [];
     
-    // Convert to tensors
-    const boxesTensor = tf.tensor2d(boxes);
+    // Offset boxes by class so tensor NMS never suppresses across classes
+    const offsetBoxes = boxes.map((box, i) => box.map(v => v + classes[i] * 2));
+    const boxesTensor = tf.tensor2d(offsetBoxes);
     const scoresTensor = tf.tensor1d(scores);
     
     const indices = tf.image.nonMaxSuppression(
@@ -188,17 +189,35 @@ export class YOLODetector {
     }));
   }
 
+  getConfidenceThreshold(): number {
+    return this.confidenceThreshold;
+  }
+
   setConfidenceThreshold(threshold: number): void {
     this.confidenceThreshold = threshold;
   }
 
+  getIouThreshold(): number {
+    return this.iouThreshold;
+  }
+
   setIouThreshold(threshold: number): void {
     this.iouThreshold = threshold;
   }
 
+  getClassFilter(): string[] | null {
+    return this.classFilter;
+  }
+
+  setClassFilter(classNames: string[] | null): void {
+    this.classFilter = classNames;
+    this.allowedClassIds = resolveClassFilter(this.classNames, classNames);
+  }
+
   dispose(): void {
     if (this.model) {
       this.model.dispose();
+      this.model = null;
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { AudioActivity, BoundingBox, Detection, Shot, SpeakerSegment, TrackedObject } from '@/types';
+import { getInterocularDistance } from '@/lib/detection/face-landmarks';
+import { buildShots } from '@/lib/video/shot-detector';
+
+export interface ActiveSpeakerOptions {
+  motionWeight: number; // Weight of mouth and head motion against the other visible people
+  panWeight: number;    // Weight of stereo panning agreeing with the person's side of the frame
+  panGain: number;      // Panning is subtle in most mixes; this scales it up before clamping
+  switchCost: number;   // Seconds of clear evidence needed before the speaker changes
+}
+
+const DEFAULT_OPTIONS: ActiveSpeakerOptions = {
+  motionWeight: 1,
+  panWeight: 0.5,
+  panGain: 3,
+  switchCost: 0.4
+};
+
+// Track ID of the per-frame copy of whoever is talking
+export const ACTIVE_SPEAKER_TRACK_ID = 'active-speaker';
+
+// Mouth shape changes are a few percent of the interocular distance per frame; head motion is smaller
+const MOUTH_MOTION_SCALE = 10;
+const HEAD_MOTION_SCALE = 20;
+
+interface VisualSample {
+  frame: number;
+  mouthOpening?: number; // Nose to mouth center, relative to the interocular distance
+  mouthWidth?: number;   // Relative to the interocular distance
+  headX: number;
+  headY: number;
+  height: number;
+}
+
+function toVisualSample(frame: number, box: BoundingBox): VisualSample {
+  const sample: VisualSample = {
+    frame,
+    headX: box.headCenterX ?? box.x + box.width / 2,
+    headY: box.headCenterY ?? box.y + box.height * 0.3,
+    height: box.height
+  };
+
+  const face = box.face;
+  const eyeDistance = face ? getInterocularDistance(face) : 0;
+  if (face && eyeDistance > 0) {
+    const mouthX = (face.mouthLeft.x + face.mouthRight.x) / 2;
+    const mouthY = (face.mouthLeft.y + face.mouthRight.y) / 2;
+    sample.mouthOpening = Math.hypot(mouthX - face.nose.x, mouthY - face.nose.y) / eyeDistance;
+    sample.mouthWidth = Math.hypot(face.mouthRight.x - face.mouthLeft.x, face.mouthRight.y - face.mouthLeft.y) / eyeDistance;
+  }
+
+  return sample;
+}
+
+/**
+ * Per-frame talking motion of each person. Measured between keyframes only,
+ * since interpolated frames move linearly and carry no mouth motion of their own.
+ */
+function measureVisualActivity(detections: Detection[]): Map<string, Map<number, number>> {
+  const samples = new Map<string, VisualSample[]>();
+  for (const detection of detections) {
+    if (!detection.isKeyframe) continue;
+    for (const box of detection.boxes) {
+      if (box.class !== 'person' || !box.trackId) continue;
+      const trackSamples = samples.get(box.trackId) ?? [];
+      trackSamples.push(toVisualSample(detection.frameNumber, box));
+      samples.set(box.trackId, trackSamples);
+    }
+  }
+
+  const activity = new Map<string, Map<number, number>>();
+  samples.forEach((trackSamples, trackId) => {
+    const perFrame = new Map<number, number>();
+    trackSamples.sort((a, b) => a.frame - b.frame);
+
+    for (let i = 1; i < trackSamples.length; i++) {
+      const prev = trackSamples[i - 1];
+      const next = trackSamples[i];
+      const gap = next.frame - prev.frame;
+
+      let rate: number;
+      if (prev.mouthOpening !== undefined && next.mouthOpening !== undefined) {
+        const change = Math.abs(next.mouthOpening - prev.mouthOpening) + Math.abs(next.mouthWidth! - prev.mouthWidth!);
+        rate = Math.min(1, (change / gap) * MOUTH_MOTION_SCALE);
+      } else {
+        const moved = Math.hypot(next.headX - prev.headX, next.headY - prev.headY) / Math.max(1, next.height);
+        rate = Math.min(1, (moved / gap) * HEAD_MOTION_SCALE);
+      }
+
+      for (let frame = prev.frame + 1; frame <= next.frame; frame++) {
+        perFrame.set(frame, rate);
+      }
+    }
+    activity.set(trackId, perFrame);
+  });
+
+  return activity;
+}
+
+/**
+ * Evidence that each visible person is the one talking on a frame. Zero when
+ * nobody speaks, positive for the person who moves their mouth more than the
+ * others and sits on the side the voice comes from.
+ */
+function scoreFrame(
+  boxes: BoundingBox[],
+  frame: number,
+  audio: AudioActivity,
+  visualActivity: Map<string, Map<number, number>>,
+  frameWidth: number,
+  options: ActiveSpeakerOptions
+): number[] {
+  const audioFrame = audio.frames[frame];
+  const voice = audioFrame?.voice ?? 0;
+
+  const motion = boxes.map(box => visualActivity.get(box.trackId!)?.get(frame) ?? 0);
+  const totalMotion = motion.reduce((sum, value) => sum + value, 0);
+  const fairShare = 1 / boxes.length;
+
+  return boxes.map((box, i) => {
+    const motionShare = totalMotion > 0 ? motion[i] / totalMotion - fairShare : 0;
+
+    let panAgreement = 0;
+    if (audio.stereo && audioFrame) {
+      const side = (2 * (box.x + box.width / 2)) / frameWidth - 1;
+      panAgreement = Math.max(-1, Math.min(1, audioFrame.pan * options.panGain)) * side;
+    }
+
+    // Larger people break ties while nobody talks
+    const prior = 1e-3 * (box.height / (boxes.reduce((max, b) => Math.max(max, b.height), 0) || 1));
+
+    return voice * (options.motionWeight * motionShare + options.panWeight * panAgreement) + prior;
+  });
+}
+
+/**
+ * Most likely speaker on every frame of a run where people are visible:
+ * Viterbi over who is talking, with a cost for every change of speaker.
+ */
+function decodeRun(
+  run: { frame: number; boxes: BoundingBox[]; scores: number[] }[],
+  switchPenalty: number
+): SpeakerSegment[] {
+  const trackIds = Array.from(new Set(run.flatMap(step => step.boxes.map(box => box.trackId!))));
+  const stateCount = trackIds.length;
+  const stateOf = new Map(trackIds.map((id, i) => [id, i]));
+
+  let scores = new Float64Array(stateCount).fill(-Infinity);
+  const backPointers: Int32Array[] = [];
+
+  run.forEach((step, t) => {
+    const evidence = new Float64Array(stateCount).fill(-Infinity);
+    step.boxes.forEach((box, i) => {
+      evidence[stateOf.get(box.trackId!)!] = step.scores[i];
+    });
+
+    let best = 0;
+    for (let s = 1; s < stateCount; s++) {
+      if (scores[s] > scores[best]) best = s;
+    }
+
+    const next = new Float64Array(stateCount);
+    const pointers = new Int32Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      if (t === 0) {
+        next[s] = evidence[s];
+        pointers[s] = s;
+        continue;
+      }
+      const stay = scores[s];
+      const change = scores[best] - switchPenalty;
+      pointers[s] = stay >= change ? s : best;
+      next[s] = evidence[s] + Math.max(stay, change);
+    }
+
+    backPointers.push(pointers);
+    scores = next;
+  });
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) {
+    if (scores[s] > scores[state]) state = s;
+  }
+
+  const path = new Array<number>(run.length);
+  for (let t = run.length - 1; t >= 0; t--) {
+    path[t] = state;
+    state = backPointers[t][state];
+  }
+
+  const segments: SpeakerSegment[] = [];
+  run.forEach((step, t) => {
+    const trackId = trackIds[path[t]];
+    const last = segments[segments.length - 1];
+    if (last && last.trackId === trackId && last.endFrame === step.frame - 1) {
+      last.endFrame = step.frame;
+    } else {
+      segments.push({ trackId, startFrame: step.frame, endFrame: step.frame });
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Who is talking when, from voice activity, stereo panning and each person's
+ * mouth or head motion. The speaker only changes on sustained evidence, and
+ * each shot and each stretch without people is decided on its own.
+ */
+export function detectActiveSpeakers(
+  detections: Detection[],
+  audio: AudioActivity,
+  frameWidth: number,
+  shots: Shot[] = [],
+  options: Partial<ActiveSpeakerOptions> = {}
+): SpeakerSegment[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const visualActivity = measureVisualActivity(detections);
+  const shotStarts = new Set(shots.map(shot => shot.startFrame));
+  const switchPenalty = settings.switchCost * audio.fps;
+
+  const segments: SpeakerSegment[] = [];
+  let run: { frame: number; boxes: BoundingBox[]; scores: number[] }[] = [];
+  const flush = () => {
+    if (run.length > 0) segments.push(...decodeRun(run, switchPenalty));
+    run = [];
+  };
+
+  const sorted = [...detections].sort((a, b) => a.frameNumber - b.frameNumber);
+  for (const detection of sorted) {
+    const frame = detection.frameNumber;
+    const people = detection.boxes.filter(box => box.class === 'person' && box.trackId);
+    const previous = run[run.length - 1];
+    if (people.length === 0 || shotStarts.has(frame) || (previous && previous.frame !== frame - 1)) {
+      flush();
+    }
+    if (people.length === 0) continue;
+
+    run.push({
+      frame,
+      boxes: people,
+      scores: scoreFrame(people, frame, audio, visualActivity, frameWidth, settings)
+    });
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Copy the active speaker's box on every frame under ACTIVE_SPEAKER_TRACK_ID,
+ * so the speaker can be followed like a single track
+ */
+export function buildSpeakerDetections(detections: Detection[], segments: SpeakerSegment[]): Detection[] {
+  const speakerByFrame = new Map<number, string>();
+  for (const segment of segments) {
+    for (let frame = segment.startFrame; frame <= segment.endFrame; frame++) {
+      speakerByFrame.set(frame, segment.trackId);
+    }
+  }
+
+  return detections.map(detection => {
+    const speakerId = speakerByFrame.get(detection.frameNumber);
+    const speakerBox = speakerId ? detection.boxes.find(box => box.trackId === speakerId) : undefined;
+    if (!speakerBox) return detection;
+    return { ...detection, boxes: [...detection.boxes, { ...speakerBox, trackId: ACTIVE_SPEAKER_TRACK_ID }] };
+  });
+}
+
+/**
+ * The active speaker as a track, for framing paths that follow a TrackedObject
+ */
+export function buildSpeakerTrack(detections: Detection[]): TrackedObject | null {
+  const positions = new Map<number, BoundingBox>();
+  for (const detection of detections) {
+    const speakerBox = detection.boxes.find(box => box.trackId === ACTIVE_SPEAKER_TRACK_ID);
+    if (speakerBox) positions.set(detection.frameNumber, speakerBox);
+  }
+  if (positions.size === 0) return null;
+
+  const frames = [...positions.keys()];
+  return {
+    id: ACTIVE_SPEAKER_TRACK_ID,
+    firstFrame: Math.min(...frames),
+    lastFrame: Math.max(...frames),
+    positions,
+    label: 'Active speaker',
+    selected: true
+  };
+}
+
+/**
+ * Treat every change of speaker as a cut, so the crop jumps to the new speaker
+ * instead of panning across
+ */
+export function splitShotsAtSpeakerChanges(shots: Shot[], segments: SpeakerSegment[], totalFrames: number): Shot[] {
+  const cuts = new Set(shots.map(shot => shot.startFrame));
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1];
+    if (segments[i].trackId !== previous.trackId && segments[i].startFrame === previous.endFrame + 1) {
+      cuts.add(segments[i].startFrame);
+    }
+  }
+  return buildShots(Array.from(cuts).sort((a, b) => a - b), totalFrames);
+}
@@ -1,6 +1,9 @@
-import { Detection, FrameTransform, ReframingConfig } from '@/types';
+import { Detection, FrameTransform, ReframingConfig, SaliencyRegion, Shot } from '@/types';
 import { TrajectoryInterpolator } from './trajectory-interpolator';
-import { ReframeSizeCalculatorV2, ReframingSettings } from './reframe-size-calculator-v2';
+import { findShot } from '@/lib/video/shot-detector';
+import { getSalientTarget } from '@/lib/video/saliency';
+import { FaceSize, ReframeSizeCalculatorV2, ReframingSettings } from './reframe-size-calculator-v2';
+import { getEyeCenter, getInterocularDistance } from '@/lib/detection/face-landmarks';
 
 interface TrajectoryPoint {
   frame: number;
@@ -10,6 +13,8 @@ interface TrajectoryPoint {
   headY?: number;
   width: number;
   height: number;
+  faceHeight?: number;
+  interocularDistance?: number;
 }
 
 interface ControlPoint {
@@ -29,7 +34,9 @@ export class BezierTrajectorySmoother {
   }
   
   /**
-   * Create smooth trajectory using Bezier curves
+   * Create smooth trajectory using Bezier curves.
+   * With shots, each shot is smoothed on its own so the crop cuts with the video.
+   * Shots without the target follow the salient region instead.
    */
   smoothTrajectory(
     detections: Detection[],
@@ -38,7 +45,9 @@ export class BezierTrajectorySmoother {
     frameHeight: number,
     outputRatio: number,
     initialTargetBox?: { width: number; height: number },
-    reframingConfig?: ReframingConfig
+    reframingConfig?: ReframingConfig,
+    shots: Shot[] = [],
+    saliency: SaliencyRegion[] = []
   ): Map<number, FrameTransform> {
     // Store initial target dimensions if provided
     if (initialTargetBox) {
@@ -50,7 +59,8 @@ export class BezierTrajectorySmoother {
     const interpolatedDetections = this.interpolator.interpolateTrajectory(
       detections,
       targetTrackId,
-      totalFrames
+      totalFrames,
+      shots
     );
     
     // Step 2: Extract trajectory points from interpolated data
@@ -62,6 +72,10 @@ export class BezierTrajectorySmoother {
     // Check if we have head center data
     const hasHeadData = rawPoints.some(p => p.headX !== undefined && p.headY !== undefined);
     
+    // With face landmarks on most frames, the head point is the eye line
+    const faceSize = this.calculateFaceSize(rawPoints);
+    const faceWeights = faceSize ? this.calculateFaceWeights(rawPoints) : new Map<number, number>();
+    
     // Step 3: Calculate consistent frame dimensions
     // If we have initial target dimensions from selection, use those
     // Otherwise, calculate from the first few frames
@@ -78,6 +92,60 @@ export class BezierTrajectorySmoother {
       }
     }
     
+    // Steps 4-8 run per shot so smoothing never glides across a cut
+    const finalTrajectory: ControlPoint[] = [];
+    for (const shotPoints of this.splitByShot(rawPoints, shots)) {
+      finalTrajectory.push(...this.smoothShot(shotPoints));
+    }
+    
+    // Shots where the target never appears follow what stands out, or hold a centered crop
+    const saliencyByFrame = new Map(saliency.map(region => [region.frameNumber, region]));
+    for (const shot of shots) {
+      if (!rawPoints.some(p => p.frame >= shot.startFrame && p.frame <= shot.endFrame)) {
+        finalTrajectory.push(...this.smoothShot(
+          this.extractSalientTrajectory(saliencyByFrame, shot, frameWidth, frameHeight)
+        ));
+      }
+    }
+    finalTrajectory.sort((a, b) => a.frame - b.frame);
+    
+    // Step 9: Convert to frame transforms with consistent dimensions
+    return this.createFrameTransforms(
+      finalTrajectory,
+      consistentDimensions,
+      frameWidth,
+      frameHeight,
+      outputRatio,
+      hasHeadData,
+      reframingConfig,
+      faceSize,
+      faceWeights
+    );
+  }
+  
+  /**
+   * Split trajectory points into runs that belong to the same shot
+   */
+  private splitByShot(points: TrajectoryPoint[], shots: Shot[]): TrajectoryPoint[][] {
+    if (shots.length <= 1) return [points];
+    
+    const groups: TrajectoryPoint[][] = [];
+    let currentShot: number | undefined;
+    for (const point of points) {
+      const shotIndex = findShot(shots, point.frame)?.index;
+      if (groups.length === 0 || shotIndex !== currentShot) {
+        groups.push([]);
+        currentShot = shotIndex;
+      }
+      groups[groups.length - 1].push(point);
+    }
+    return groups;
+  }
+  
+  /**
+   * Smooth the trajectory of a single shot, anchored on its first point
+   */
+  private smoothShot(rawPoints: TrajectoryPoint[]): ControlPoint[] {
     // Store the first frame position as anchor point
     const firstPoint = rawPoints[0];
     const anchorX = firstPoint.headX ?? firstPoint.x;
@@ -120,16 +188,7 @@ export class BezierTrajectorySmoother {
     // Step 8: Apply final smoothing with larger moving average, but preserve first frame
     const finalTrajectory = this.applyMovingAverageWithAnchor(smoothedTrajectory, 30, rawPoints[0].frame, anchorX, anchorY);
     
-    // Step 9: Convert to frame transforms with consistent dimensions
-    return this.createFrameTransforms(
-      finalTrajectory,
-      consistentDimensions,
-      frameWidth,
-      frameHeight,
-      outputRatio,
-      hasHeadData,
-      reframingConfig
-    );
+    return finalTrajectory;
   }
   
   /**
@@ -141,14 +200,17 @@ export class BezierTrajectorySmoother {
     for (const detection of detections) {
       const targetBox = detection.boxes.find(box => box.trackId === targetTrackId);
       if (targetBox) {
+        const eyeCenter = targetBox.face ? getEyeCenter(targetBox.face) : null;
         points.push({
           frame: detection.frameNumber,
           x: targetBox.x + targetBox.width / 2,
           y: targetBox.y + targetBox.height / 2,
-          headX: targetBox.headCenterX,
-          headY: targetBox.headCenterY,
+          headX: eyeCenter?.x ?? targetBox.headCenterX,
+          headY: eyeCenter?.y ?? targetBox.headCenterY,
           width: targetBox.width,
-          height: targetBox.height
+          height: targetBox.height,
+          faceHeight: targetBox.face?.height,
+          interocularDistance: targetBox.face ? getInterocularDistance(targetBox.face) : undefined
         });
       }
     }
@@ -156,6 +218,72 @@ export class BezierTrajectorySmoother {
     return points.sort((a, b) => a.frame - b.frame);
   }
   
+  /**
+   * Trajectory points for a shot from its salient regions, the frame center
+   * where nothing stands out
+   */
+  private extractSalientTrajectory(
+    saliencyByFrame: Map<number, SaliencyRegion>,
+    shot: Shot,
+    frameWidth: number,
+    frameHeight: number
+  ): TrajectoryPoint[] {
+    const points: TrajectoryPoint[] = [];
+    
+    for (let frame = shot.startFrame; frame <= shot.endFrame; frame++) {
+      const target = getSalientTarget(saliencyByFrame.get(frame));
+      points.push(target
+        ? { frame, x: target.x + target.width / 2, y: target.y + target.height / 2, width: target.width, height: target.height }
+        : { frame, x: frameWidth / 2, y: frameHeight / 2, width: frameWidth, height: frameHeight });
+    }
+    
+    return points;
+  }
+  
+  /**
+   * Share of the frames within half a second of each frame that have face
+   * landmarks, so the eye-line offset fades in and out with the face
+   */
+  private calculateFaceWeights(points: TrajectoryPoint[]): Map<number, number> {
+    const halfWindow = Math.max(1, Math.round(this.fps / 2));
+    const weights = new Map<number, number>();
+    let start = 0;
+    let end = 0;
+    let faces = 0;
+    
+    for (const point of points) {
+      while (end < points.length && points[end].frame <= point.frame + halfWindow) {
+        if (points[end].faceHeight !== undefined) faces++;
+        end++;
+      }
+      while (points[start].frame < point.frame - halfWindow) {
+        if (points[start].faceHeight !== undefined) faces--;
+        start++;
+      }
+      weights.set(point.frame, faces / (end - start));
+    }
+    
+    return weights;
+  }
+  
+  /**
+   * Median face size, or null when too few frames have face landmarks
+   */
+  private calculateFaceSize(points: TrajectoryPoint[]): FaceSize | null {
+    const facePoints = points.filter(p => p.faceHeight !== undefined);
+    if (facePoints.length === 0 || facePoints.length < points.length / 2) {
+      return null;
+    }
+    
+    const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+    const height = median(facePoints.map(p => p.faceHeight!));
+    return {
+      width: height,
+      height,
+      interocularDistance: median(facePoints.map(p => p.interocularDistance ?? 0))
+    };
+  }
+  
   /**
    * Calculate consistent dimensions using percentiles to avoid outliers
    */
@@ -536,7 +664,9 @@ export class BezierTrajectorySmoother {
     frameHeight: number,
     outputRatio: number,
     hasHeadData: boolean = false,
-    reframingConfig?: ReframingConfig
+    reframingConfig?: ReframingConfig,
+    faceSize: FaceSize | null = null,
+    faceWeights: Map<number, number> = new Map()
   ): Map<number, FrameTransform> {
     const transforms = new Map<number, FrameTransform>();
     
@@ -548,8 +678,16 @@ export class BezierTrajectorySmoother {
     } : {};
     
     // Use ReframeSizeCalculatorV2 to determine optimal reframe dimensions
-    // If we have head data, use head-based framing for better portrait shots
-    const reframeDimensions = hasHeadData 
+    // Face landmarks give talking-head framing; otherwise head data gives head-based framing
+    const reframeDimensions = faceSize
+      ? ReframeSizeCalculatorV2.calculateFaceBasedReframeSize(
+          faceSize,
+          frameWidth,
+          frameHeight,
+          outputRatio,
+          settings
+        )
+      : hasHeadData 
       ? ReframeSizeCalculatorV2.calculateHeadBasedReframeSize(
           dimensions,
           frameWidth,
@@ -570,6 +708,8 @@ export class BezierTrajectorySmoother {
     const consistentWidth = reframeDimensions.width;
     const consistentHeight = reframeDimensions.height;
     
+    // Trajectory follows the eyes where a face was found; lower the crop so they sit on the upper third
+    const eyeLineOffset = faceSize ? ReframeSizeCalculatorV2.calculateEyeLineOffset(consistentHeight) : 0;
     
     // Create transforms with smooth trajectory and consistent scale
     for (const point of trajectory) {
@@ -579,7 +719,7 @@ export class BezierTrajectorySmoother {
       
       // Apply offset if provided
       let targetX = point.x;
-      let targetY = point.y;
+      let targetY = point.y + eyeLineOffset * (faceWeights.get(point.frame) ?? 0);
       
       if (settings?.reframeBoxOffset) {
         // The offset represents where the target should be positioned within the reframe box
@@ -3,12 +3,22 @@ import {
   Detection, 
   FrameTransform, 
   ReframingConfig,
+  SaliencyRegion,
+  Shot,
+  SpeakerSegment,
   TrackedObject 
 } from '@/types';
 import { SmoothingAlgorithm, TargetSelector } from './algorithms';
 import { StableFrameCalculator } from './stable-calculator';
 import { BezierTrajectorySmoother } from './bezier-trajectory-smoother';
 import { ASPECT_RATIOS } from './presets';
+import { getSalientTarget } from '@/lib/video/saliency';
+import {
+  ACTIVE_SPEAKER_TRACK_ID,
+  buildSpeakerDetections,
+  buildSpeakerTrack,
+  splitShotsAtSpeakerChanges
+} from './active-speaker';
 
 export class ReframingEngine {
   private smoother: SmoothingAlgorithm;
@@ -39,12 +49,17 @@ export class ReframingEngine {
     detections: BoundingBox[],
     selectedTrack: TrackedObject | null,
     frameWidth: number,
-    frameHeight: number
+    frameHeight: number,
+    salientRegion?: SaliencyRegion
   ): FrameTransform {
     let targets: BoundingBox[] = [];
     
 
-    if (this.config.targetSelection === 'manual' && selectedTrack) {
+    // The active speaker is followed like a manual pick, whatever the selection strategy
+    const followTrack = selectedTrack && (
+      this.config.targetSelection === 'manual' || selectedTrack.id === ACTIVE_SPEAKER_TRACK_ID
+    );
+    if (followTrack) {
       // When using ByteTrack, find matching detection by track ID
       const matchingDetection = detections.find(det => 
         det.trackId === selectedTrack.id
@@ -81,8 +96,8 @@ export class ReframingEngine {
         }
       }
     } else if (this.config.trackingMode === 'multi') {
-      // Include all person detections  
-      targets = detections.filter(d => d.class === 'person');
+      // Include all tracked subjects (people, balls, pets, ...)
+      targets = detections.filter(d => d.class !== 'head');
     } else {
       // Auto mode - include primary target and nearby objects
       if (this.config.targetSelection !== 'manual') {
@@ -107,6 +122,14 @@ export class ReframingEngine {
       }
     }
 
+    // No one to follow: frame what stands out instead of the dead center
+    if (targets.length === 0) {
+      const salientTarget = getSalientTarget(salientRegion);
+      if (salientTarget) {
+        targets = [salientTarget];
+      }
+    }
+
     // Calculate optimal frame for targets
     const outputRatio = ASPECT_RATIOS[this.config.outputRatio];
     
@@ -135,7 +158,10 @@ export class ReframingEngine {
     selectedTrack: TrackedObject | null,
     frameWidth: number,
     frameHeight: number,
-    fps: number = 30
+    fps: number = 30,
+    shots: Shot[] = [],
+    saliency: SaliencyRegion[] = [],
+    speakers: SpeakerSegment[] = []
   ): Map<number, FrameTransform> {
     // Reset smoother and calculator for new sequence
     this.smoother.reset();
@@ -145,20 +171,32 @@ export class ReframingEngine {
     // Set FPS for trajectory smoother
     this.bezierTrajectorySmoother.setFPS(fps);
 
+    // Get total frames from detections
+    const maxFrame = Math.max(...detections.map(d => d.frameNumber));
+    
+    // Follow whoever is talking as one virtual track; cut mode treats speaker changes as shot cuts
+    const followSpeakers = speakers.length > 0 && (this.config.speakerFraming ?? 'off') !== 'off';
+    let targetTrack = selectedTrack;
+    if (followSpeakers) {
+      detections = buildSpeakerDetections(detections, speakers);
+      targetTrack = buildSpeakerTrack(detections) ?? selectedTrack;
+      if (this.config.speakerFraming === 'cut') {
+        shots = splitShotsAtSpeakerChanges(shots, speakers, maxFrame + 1);
+      }
+    }
+    const targetTrackId = targetTrack?.id;
+
     // Create a map for quick detection lookup
     const detectionMap = new Map<number, Detection>();
     for (const detection of detections) {
       detectionMap.set(detection.frameNumber, detection);
     }
-
-    // Get total frames from detections
-    const maxFrame = Math.max(...detections.map(d => d.frameNumber));
     
     // Process every frame since ByteTrack provides interpolated data
     // console.log(`ReframingEngine: Processing ${maxFrame + 1} frames with ByteTrack interpolated data`);
     
-    // If using Bezier smoothing and we have a selected track
-    if (this.useBezierSmoothing && selectedTrack) {
+    // If using Bezier smoothing and we have a selected track or speakers
+    if (this.useBezierSmoothing && targetTrackId) {
       // console.log('Using Bezier curve smoothing for stable reframing');
       
       // Get smoothed trajectory for the entire sequence
@@ -170,7 +208,7 @@ export class ReframingEngine {
       if (!initialTargetBox) {
         // Find the initial dimensions from the first detection of the selected track
         for (const detection of detections) {
-          const targetBox = detection.boxes.find(box => box.trackId === selectedTrack.id);
+          const targetBox = detection.boxes.find(box => box.trackId === targetTrackId);
           if (targetBox) {
             initialTargetBox = { width: targetBox.width, height: targetBox.height };
             // console.log(`ReframingEngine: Found initial target dimensions: ${targetBox.width}x${targetBox.height} from frame ${detection.frameNumber}`);
@@ -183,19 +221,29 @@ export class ReframingEngine {
       
       const smoothedTransforms = this.bezierTrajectorySmoother.smoothTrajectory(
         detections,
-        selectedTrack.id,
+        targetTrackId,
         frameWidth,
         frameHeight,
         outputRatio,
         initialTargetBox,
-        this.config
+        this.config,
+        shots,
+        saliency
       );
       
       // Use smoothed transforms
       this.frameTransforms = smoothedTransforms;
     } else {
       // Original processing
+      const shotStarts = new Set(shots.map(shot => shot.startFrame));
+      const saliencyByFrame = new Map(saliency.map(region => [region.frameNumber, region]));
       for (let frameNumber = 0; frameNumber <= maxFrame; frameNumber++) {
+        // Jump at cuts instead of smoothing across them
+        if (frameNumber > 0 && shotStarts.has(frameNumber)) {
+          this.smoother.reset();
+          this.frameCalculator.reset();
+        }
+        
         const detection = detectionMap.get(frameNumber);
         const boxes = detection ? detection.boxes : [];
         
@@ -203,9 +251,10 @@ export class ReframingEngine {
         const rawTransform = this.processFrame(
           frameNumber,
           boxes,
-          selectedTrack,
+          targetTrack,
           frameWidth,
-          frameHeight
+          frameHeight,
+          saliencyByFrame.get(frameNumber)
         );
         
         // Note: processFrame already applies smoothing internally
@@ -1,4 +1,5 @@
 import { ReframingConfig, AspectRatio } from '@/types';
+import { DEFAULT_TRACKER_SETTINGS, TRACKER_PRESETS } from '@/lib/detection/tracker-presets';
 
 export const ASPECT_RATIOS: Record<AspectRatio, number> = {
   '16:9': 16 / 9,
@@ -15,56 +16,64 @@ export const REFRAMING_PRESETS: Record<string, ReframingConfig> = {
     trackingMode: 'single',
     smoothness: 0.85,
     padding: 0.15,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'youtube-short': {
     outputRatio: '9:16',
     trackingMode: 'single',
     smoothness: 0.8,
     padding: 0.2,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'instagram-post': {
     outputRatio: '1:1',
     trackingMode: 'single',
     smoothness: 0.9,
     padding: 0.1,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'tiktok': {
     outputRatio: '9:16',
     trackingMode: 'single',
     smoothness: 0.75,
     padding: 0.15,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'landscape-to-portrait': {
     outputRatio: '9:16',
     trackingMode: 'auto',
     smoothness: 0.8,
     padding: 0.2,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'portrait-to-landscape': {
     outputRatio: '16:9',
     trackingMode: 'auto',
     smoothness: 0.85,
     padding: 0.25,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: DEFAULT_TRACKER_SETTINGS
   },
   'zoom-meeting': {
     outputRatio: '16:9',
     trackingMode: 'single',
     smoothness: 0.95,
     padding: 0.3,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: TRACKER_PRESETS['occlusion'].settings
   },
   'presentation': {
     outputRatio: '16:9',
     trackingMode: 'single',
     smoothness: 0.98,
     padding: 0.4,
-    targetSelection: 'manual'
+    targetSelection: 'manual',
+    tracker: TRACKER_PRESETS['occlusion'].settings
   }
 };
 
@@ -14,6 +14,15 @@ export interface ReframingSettings {
   reframeBoxOffset?: { x: number; y: number }; // Offset from center
 }
 
+export interface FaceSize {
+  width: number;
+  height: number;
+  interocularDistance?: number;
+}
+
+// Rule of thirds: eyes sit one third down from the top of the crop
+export const EYE_LINE_FROM_TOP = 1 / 3;
+
 /**
  * Enhanced reframe size calculator that considers input video resolution
  */
@@ -342,4 +351,69 @@ export class ReframeSizeCalculatorV2 {
       scale: clampedScale
     };
   }
+  
+  /**
+   * Calculate reframe size for talking-head framing from face landmarks.
+   * Frames a medium close-up (head and shoulders) sized from the face.
+   */
+  static calculateFaceBasedReframeSize(
+    face: FaceSize,
+    frameWidth: number,
+    frameHeight: number,
+    outputRatio: number,
+    settings?: Partial<ReframingSettings>
+  ): ReframeDimensions {
+    // Interocular distance is about 40% of face height on a frontal face and
+    // doesn't shrink when the chin drops; the face box covers profile views
+    const faceHeight = face.interocularDistance
+      ? Math.max(face.height, face.interocularDistance / 0.4)
+      : face.height;
+    
+    let desiredHeight: number;
+    if (outputRatio < 1) {
+      // Portrait output (9:16) - head and shoulders down to mid-chest
+      desiredHeight = faceHeight * 5.0;
+    } else if (outputRatio > 1.5) {
+      // Landscape output (16:9) - tighter vertically, width gives context
+      desiredHeight = faceHeight * 4.0;
+    } else {
+      // Square or 4:3 output
+      desiredHeight = faceHeight * 4.5;
+    }
+    
+    if (settings?.reframeBoxSize) {
+      desiredHeight *= settings.reframeBoxSize;
+    }
+    
+    let reframeHeight = desiredHeight;
+    let reframeWidth = reframeHeight * outputRatio;
+    
+    // Don't zoom in past 4x or the face turns into mush
+    const MAX_SCALE = 4.0;
+    if (frameWidth / reframeWidth > MAX_SCALE) {
+      reframeWidth = frameWidth / MAX_SCALE;
+      reframeHeight = reframeWidth / outputRatio;
+    }
+    
+    // Fit inside the frame
+    const fitScale = Math.min(frameWidth / reframeWidth, frameHeight / reframeHeight);
+    if (fitScale < 1) {
+      reframeWidth *= fitScale;
+      reframeHeight *= fitScale;
+    }
+    
+    return {
+      width: reframeWidth,
+      height: reframeHeight,
+      scale: frameWidth / reframeWidth
+    };
+  }
+  
+  /**
+   * Vertical offset from the eye line to the crop center that puts the eyes
+   * on the upper third line
+   */
+  static calculateEyeLineOffset(reframeHeight: number): number {
+    return reframeHeight * (0.5 - EYE_LINE_FROM_TOP);
+  }
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { BoundingBox, FrameTransform } from '@/types';
+import { getEyeCenter, getInterocularDistance } from '@/lib/detection/face-landmarks';
+import { ReframeSizeCalculatorV2 } from './reframe-size-calculator-v2';
 
 // Extended BoundingBox type to include head center
 interface BoxWithHead extends BoundingBox {
@@ -13,6 +15,8 @@ interface BoxHistory {
   height: number;
   centerX: number;
   centerY: number;
+  faceHeight?: number;
+  interocularDistance?: number;
 }
 
 export class StableFrameCalculator {
@@ -48,7 +52,12 @@ export class StableFrameCalculator {
       let headCenterX: number;
       let headCenterY: number;
       
-      if (target.headCenterX !== undefined && target.headCenterY !== undefined) {
+      if (target.face) {
+        // Compose on the eye line when face landmarks are available
+        const eyeCenter = getEyeCenter(target.face);
+        headCenterX = eyeCenter.x;
+        headCenterY = eyeCenter.y;
+      } else if (target.headCenterX !== undefined && target.headCenterY !== undefined) {
         // Use detected head center
         headCenterX = target.headCenterX;
         headCenterY = target.headCenterY;
@@ -67,7 +76,9 @@ export class StableFrameCalculator {
         width: target.width,
         height: target.height,
         centerX: headCenterX,
-        centerY: headCenterY
+        centerY: headCenterY,
+        faceHeight: target.face?.height,
+        interocularDistance: target.face ? getInterocularDistance(target.face) : undefined
       });
       
       // Keep history size limited
@@ -98,6 +109,10 @@ export class StableFrameCalculator {
         stableCenterY = medianY * weight + headCenterY * (1 - weight);
       }
       
+      if (target.face) {
+        return this.calculateEyeLineFrame(stableCenterX, stableCenterY, outputRatio, frameWidth, frameHeight);
+      }
+      
       // Calculate stable box dimensions using average
       let stableWidth = target.width;
       let stableHeight = target.height;
@@ -216,6 +231,39 @@ export class StableFrameCalculator {
     };
   }
   
+  /**
+   * Size the crop from the averaged face and put the eyes on the upper third line
+   */
+  private calculateEyeLineFrame(
+    eyeX: number,
+    eyeY: number,
+    outputRatio: number,
+    frameWidth: number,
+    frameHeight: number
+  ): FrameTransform {
+    const recentFaces = this.boxHistory.slice(-15).filter(h => h.faceHeight !== undefined);
+    const faceHeight = recentFaces.reduce((sum, h) => sum + h.faceHeight!, 0) / recentFaces.length;
+    const interocularDistance = recentFaces.reduce((sum, h) => sum + (h.interocularDistance ?? 0), 0) / recentFaces.length;
+    
+    const dimensions = ReframeSizeCalculatorV2.calculateFaceBasedReframeSize(
+      { width: faceHeight, height: faceHeight, interocularDistance },
+      frameWidth,
+      frameHeight,
+      outputRatio
+    );
+    
+    const halfWidth = dimensions.width / 2;
+    const halfHeight = dimensions.height / 2;
+    const centerY = eyeY + ReframeSizeCalculatorV2.calculateEyeLineOffset(dimensions.height);
+    
+    return {
+      x: Math.max(halfWidth, Math.min(frameWidth - halfWidth, eyeX)),
+      y: Math.max(halfHeight, Math.min(frameHeight - halfHeight, centerY)),
+      scale: dimensions.scale,
+      rotation: 0
+    };
+  }
+  
   reset(): void {
     this.boxHistory = [];
   }
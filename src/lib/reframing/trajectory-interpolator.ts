@@ -1,4 +1,7 @@
-import { Detection, BoundingBox } from '@/types';
+import { Detection, BoundingBox, Shot } from '@/types';
+import { findShot } from '@/lib/video/shot-detector';
+import { interpolateFaceLandmarks, translateFaceLandmarks } from '@/lib/detection/face-landmarks';
+import { interpolatePose } from '@/lib/detection/pose-utils';
 
 interface InterpolatedPoint {
   frame: number;
@@ -12,12 +15,16 @@ interface InterpolatedPoint {
 
 export class TrajectoryInterpolator {
   /**
-   * Interpolate missing frames for a specific track
+   * Interpolate missing frames for a specific track.
+   * Frames between keyframes already come filled by tracking, moved with
+   * optical flow where it is reliable; this fills frames where the track
+   * has no box at all. When shots are given, interpolation never crosses a cut.
    */
   interpolateTrajectory(
     detections: Detection[],
     targetTrackId: string,
-    totalFrames: number
+    totalFrames: number,
+    shots: Shot[] = []
   ): Detection[] {
     // console.log(`TrajectoryInterpolator: Interpolating trajectory for track ${targetTrackId}`);
     
@@ -48,7 +55,7 @@ export class TrajectoryInterpolator {
         interpolatedDetections.push(existingDetectionMap.get(frame)!);
       } else {
         // Interpolate missing frame
-        const interpolatedBox = this.interpolateFrame(frame, existingPoints, targetTrackId);
+        const interpolatedBox = this.interpolateFrame(frame, existingPoints, targetTrackId, findShot(shots, frame));
         if (interpolatedBox) {
           // Create a new detection with the interpolated box
           let timestamp = frame / 30; // Default to 30fps
@@ -94,14 +101,16 @@ export class TrajectoryInterpolator {
   private interpolateFrame(
     targetFrame: number,
     existingPoints: Map<number, BoundingBox>,
-    trackId: string
+    trackId: string,
+    shot?: Shot
   ): BoundingBox | null {
     // Find surrounding frames with detections
     let prevFrame = -1;
     let nextFrame = -1;
+    const minFrame = shot ? shot.startFrame : 0;
     
     // Find previous frame with detection
-    for (let f = targetFrame - 1; f >= 0; f--) {
+    for (let f = targetFrame - 1; f >= minFrame; f--) {
       if (existingPoints.has(f)) {
         prevFrame = f;
         break;
@@ -109,7 +118,8 @@ export class TrajectoryInterpolator {
     }
     
     // Find next frame with detection
-    const maxFrame = Math.max(...Array.from(existingPoints.keys()));
+    const lastPointFrame = Math.max(...Array.from(existingPoints.keys()));
+    const maxFrame = shot ? Math.min(shot.endFrame, lastPointFrame) : lastPointFrame;
     for (let f = targetFrame + 1; f <= maxFrame; f++) {
       if (existingPoints.has(f)) {
         nextFrame = f;
@@ -151,6 +161,21 @@ export class TrajectoryInterpolator {
         interpolatedBox.headCenterY = interpolatedBox.y + interpolatedBox.height * relY;
       }
       
+      // Interpolate face landmarks, or carry a one-sided face along with the box
+      if (prevBox.face && nextBox.face) {
+        interpolatedBox.face = interpolateFaceLandmarks(prevBox.face, nextBox.face, easeT);
+      } else if (prevBox.face || nextBox.face) {
+        const sourceBox = prevBox.face ? prevBox : nextBox;
+        interpolatedBox.face = translateFaceLandmarks(
+          sourceBox.face!,
+          interpolatedBox.x - sourceBox.x,
+          interpolatedBox.y - sourceBox.y
+        );
+      }
+      
+      // Interpolate body keypoints, torso center and facing
+      Object.assign(interpolatedBox, interpolatePose(prevBox, nextBox, easeT));
+      
       return interpolatedBox;
     } else if (prevFrame !== -1) {
       // Only have previous frame - use motion prediction
@@ -158,7 +183,7 @@ export class TrajectoryInterpolator {
       
       // Look for earlier frame to calculate velocity
       let prevPrevFrame = -1;
-      for (let f = prevFrame - 1; f >= 0; f--) {
+      for (let f = prevFrame - 1; f >= minFrame; f--) {
         if (existingPoints.has(f)) {
           prevPrevFrame = f;
           break;
@@ -168,10 +193,11 @@ export class TrajectoryInterpolator {
       if (prevPrevFrame !== -1) {
         const prevPrevBox = existingPoints.get(prevPrevFrame)!;
         const dt = prevFrame - prevPrevFrame;
-        const vx = (prevBox.x - prevPrevBox.x) / dt;
-        const vy = (prevBox.y - prevPrevBox.y) / dt;
         const vw = (prevBox.width - prevPrevBox.width) / dt;
         const vh = (prevBox.height - prevPrevBox.height) / dt;
+        // Smoothed tracks carry a center velocity that used the frames after prevFrame too
+        const vx = prevBox.velocityX !== undefined ? prevBox.velocityX - vw / 2 : (prevBox.x - prevPrevBox.x) / dt;
+        const vy = prevBox.velocityY !== undefined ? prevBox.velocityY - vh / 2 : (prevBox.y - prevPrevBox.y) / dt;
         
         const timeDiff = targetFrame - prevFrame;
         
@@ -195,6 +221,10 @@ export class TrajectoryInterpolator {
           predictedBox.headCenterY = prevBox.headCenterY + vhy * timeDiff;
         }
         
+        if (prevBox.face) {
+          predictedBox.face = translateFaceLandmarks(prevBox.face, predictedBox.x - prevBox.x, predictedBox.y - prevBox.y);
+        }
+        
         return predictedBox;
       } else {
         // No velocity information, just copy previous
@@ -0,0 +1,34 @@
+/**
+ * Downsample an RGBA frame to a small grayscale buffer (values in [0, 1]).
+ * Cheap enough to run on every frame for motion and cut analysis.
+ */
+export function downsampleGray(imageData: ImageData, width: number, height: number): Float32Array {
+  const gray = new Float32Array(width * height);
+  const scaleX = imageData.width / width;
+  const scaleY = imageData.height / height;
+  const data = imageData.data;
+
+  for (let y = 0; y < height; y++) {
+    const srcY = Math.min(imageData.height - 1, Math.floor((y + 0.5) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const srcX = Math.min(imageData.width - 1, Math.floor((x + 0.5) * scaleX));
+      const i = (srcY * imageData.width + srcX) * 4;
+      // ITU-R BT.601 luma
+      gray[y * width + x] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+    }
+  }
+
+  return gray;
+}
+
+/**
+ * Mean absolute difference between two equally sized grayscale buffers, in [0, 1]
+ */
+export function meanAbsoluteDifference(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+}
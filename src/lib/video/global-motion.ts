@@ -0,0 +1,439 @@
+import { AffineTransform, BoundingBox } from '@/types';
+import { downsampleGray } from './frame-difference';
+
+export interface GlobalMotionOptions {
+  analysisWidth: number;    // Frames are analyzed at this width
+  gridColumns: number;      // At most one feature per grid cell keeps features spread out
+  gridRows: number;
+  patchRadius: number;      // Half size of the patch matched between frames
+  searchRadius: number;     // Search around the coarse shift, in analysis pixels
+  coarseSearch: number;     // Largest shift tried on the coarse level, in analysis pixels
+  ransacIterations: number;
+  inlierThreshold: number;  // Reprojection error in analysis pixels
+  minInliers: number;
+  foregroundMargin: number; // Detection boxes are grown by this share before masking
+}
+
+const DEFAULT_OPTIONS: GlobalMotionOptions = {
+  analysisWidth: 320,
+  gridColumns: 16,
+  gridRows: 9,
+  patchRadius: 4,
+  searchRadius: 4,
+  coarseSearch: 64,
+  ransacIterations: 200,
+  inlierThreshold: 1.5,
+  minInliers: 12,
+  foregroundMargin: 0.1
+};
+
+// Coarse level is this many times smaller than the analysis frame
+const COARSE_FACTOR = 4;
+// Shi-Tomasi response below this is flat texture that can't be matched
+const MIN_CORNER_RESPONSE = 1e-4;
+// Mean absolute patch difference above which a match is rejected
+const MAX_PATCH_DIFFERENCE = 0.08;
+
+interface Correspondence {
+  x: number;
+  y: number;
+  nx: number;
+  ny: number;
+}
+
+/**
+ * Solve a 3x3 linear system with Cramer's rule. Null when singular.
+ */
+function solve3(m: number[][], v: number[]): [number, number, number] | null {
+  const det3 = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+
+  const det = det3(m);
+  if (Math.abs(det) < 1e-9) return null;
+
+  const result = [0, 0, 0];
+  for (let col = 0; col < 3; col++) {
+    const replaced = m.map((row, i) => row.map((value, j) => (j === col ? v[i] : value)));
+    result[col] = det3(replaced) / det;
+  }
+  return result as [number, number, number];
+}
+
+/**
+ * Least-squares affine transform from point correspondences
+ */
+function fitAffine(points: Correspondence[]): AffineTransform | null {
+  // Normal equations shared by both rows: sum of [x, y, 1]^T [x, y, 1]
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const bx = [0, 0, 0];
+  const by = [0, 0, 0];
+  for (const p of points) {
+    const row = [p.x, p.y, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        m[i][j] += row[i] * row[j];
+      }
+      bx[i] += row[i] * p.nx;
+      by[i] += row[i] * p.ny;
+    }
+  }
+
+  const xRow = solve3(m, bx);
+  const yRow = solve3(m, by);
+  if (!xRow || !yRow) return null;
+  return [xRow[0], xRow[1], xRow[2], yRow[0], yRow[1], yRow[2]];
+}
+
+function transformError(t: AffineTransform, p: Correspondence): number {
+  const x = t[0] * p.x + t[1] * p.y + t[2];
+  const y = t[3] * p.x + t[4] * p.y + t[5];
+  return Math.hypot(x - p.nx, y - p.ny);
+}
+
+/**
+ * Estimates how the camera moved between consecutive analyzed frames, for
+ * compensating tracker predictions on handheld and panned footage.
+ * Corners on the background (detections masked out) are matched by patch search
+ * around a coarse global shift, then an affine model is fit with RANSAC.
+ * Runs on the CPU on a small grayscale copy of the frame.
+ */
+export class GlobalMotionEstimator {
+  private options: GlobalMotionOptions;
+  private previousFrame: Float32Array | null = null;
+  private previousForeground: BoundingBox[] = [];
+  private width = 0;
+  private height = 0;
+  private seed = 1;
+
+  constructor(options: Partial<GlobalMotionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Camera motion from the previous call's frame to this one, in full-resolution
+   * pixels, or null when it can't be estimated reliably (first frame, flat or
+   * fully covered image).
+   * foreground: this frame's detections, whose motion isn't the camera's.
+   */
+  estimate(imageData: ImageData, foreground: BoundingBox[] = []): AffineTransform | null {
+    const width = Math.min(this.options.analysisWidth, imageData.width);
+    const height = Math.max(1, Math.round(width * imageData.height / imageData.width));
+    const frame = downsampleGray(imageData, width, height);
+    const scaleX = imageData.width / width;
+    const scaleY = imageData.height / height;
+
+    const previous = this.previousFrame;
+    const previousForeground = this.previousForeground;
+    const sameSize = previous !== null && this.width === width && this.height === height;
+
+    this.previousFrame = frame;
+    this.previousForeground = foreground;
+    this.width = width;
+    this.height = height;
+
+    if (!previous || !sameSize) return null;
+
+    // Background only: people move on their own and would drag the estimate with them
+    const mask = this.foregroundMask([...previousForeground, ...foreground], scaleX, scaleY);
+
+    const [shiftX, shiftY] = this.coarseShift(previous, frame, mask);
+    const correspondences = this.matchFeatures(previous, frame, mask, shiftX, shiftY);
+    if (correspondences.length < this.options.minInliers) return null;
+
+    const transform = this.ransac(correspondences);
+    if (!transform) return null;
+
+    // Reject implausible camera motion (mostly mismatched repetitive texture)
+    const scale = Math.sqrt(Math.abs(transform[0] * transform[4] - transform[1] * transform[3]));
+    if (scale < 0.67 || scale > 1.5) return null;
+
+    return [
+      transform[0],
+      transform[1] * scaleX / scaleY,
+      transform[2] * scaleX,
+      transform[3] * scaleY / scaleX,
+      transform[4],
+      transform[5] * scaleY
+    ];
+  }
+
+  /**
+   * Forget the previous frame, e.g. after a cut
+   */
+  reset(): void {
+    this.previousFrame = null;
+    this.previousForeground = [];
+    this.seed = 1;
+  }
+
+  /**
+   * 1 for pixels covered by a (grown) detection box, in analysis coordinates
+   */
+  private foregroundMask(boxes: BoundingBox[], scaleX: number, scaleY: number): Uint8Array {
+    const mask = new Uint8Array(this.width * this.height);
+    const margin = this.options.foregroundMargin;
+
+    for (const box of boxes) {
+      const x0 = Math.max(0, Math.floor((box.x - box.width * margin) / scaleX));
+      const y0 = Math.max(0, Math.floor((box.y - box.height * margin) / scaleY));
+      const x1 = Math.min(this.width - 1, Math.ceil((box.x + box.width * (1 + margin)) / scaleX));
+      const y1 = Math.min(this.height - 1, Math.ceil((box.y + box.height * (1 + margin)) / scaleY));
+      for (let y = y0; y <= y1; y++) {
+        mask.fill(1, y * this.width + x0, y * this.width + x1 + 1);
+      }
+    }
+
+    return mask;
+  }
+
+  /**
+   * Whole-frame translation found by exhaustive search on a block-averaged
+   * copy. Gives feature matching a starting point for large pans.
+   */
+  private coarseShift(previous: Float32Array, current: Float32Array, mask: Uint8Array): [number, number] {
+    const cw = Math.floor(this.width / COARSE_FACTOR);
+    const ch = Math.floor(this.height / COARSE_FACTOR);
+    if (cw < 4 || ch < 4) return [0, 0];
+
+    const prevCoarse = this.blockAverage(previous, cw, ch);
+    const currCoarse = this.blockAverage(current, cw, ch);
+    const coarseMask = new Uint8Array(cw * ch);
+    for (let y = 0; y < ch; y++) {
+      for (let x = 0; x < cw; x++) {
+        coarseMask[y * cw + x] = mask[(y * COARSE_FACTOR + COARSE_FACTOR / 2) * this.width + x * COARSE_FACTOR + COARSE_FACTOR / 2];
+      }
+    }
+
+    const search = Math.min(Math.round(this.options.coarseSearch / COARSE_FACTOR), Math.floor(cw / 2), Math.floor(ch / 2));
+    let best: [number, number] = [0, 0];
+    let bestCost = Infinity;
+
+    for (let dy = -search; dy <= search; dy++) {
+      for (let dx = -search; dx <= search; dx++) {
+        let sum = 0;
+        let count = 0;
+        for (let y = Math.max(0, -dy); y < Math.min(ch, ch - dy); y++) {
+          for (let x = Math.max(0, -dx); x < Math.min(cw, cw - dx); x++) {
+            const i = y * cw + x;
+            if (coarseMask[i]) continue;
+            sum += Math.abs(prevCoarse[i] - currCoarse[(y + dy) * cw + x + dx]);
+            count++;
+          }
+        }
+        // Require a decent overlap so huge shifts don't win on a sliver of pixels
+        if (count < cw * ch * 0.25) continue;
+        const cost = sum / count;
+        // Prefer the smaller shift on ties
+        if (cost < bestCost - 1e-6 || (Math.abs(cost - bestCost) <= 1e-6 && Math.hypot(dx, dy) < Math.hypot(best[0], best[1]))) {
+          bestCost = cost;
+          best = [dx, dy];
+        }
+      }
+    }
+
+    return [best[0] * COARSE_FACTOR, best[1] * COARSE_FACTOR];
+  }
+
+  private blockAverage(frame: Float32Array, cw: number, ch: number): Float32Array {
+    const result = new Float32Array(cw * ch);
+    const area = COARSE_FACTOR * COARSE_FACTOR;
+    for (let y = 0; y < ch; y++) {
+      for (let x = 0; x < cw; x++) {
+        let sum = 0;
+        for (let by = 0; by < COARSE_FACTOR; by++) {
+          const row = (y * COARSE_FACTOR + by) * this.width + x * COARSE_FACTOR;
+          for (let bx = 0; bx < COARSE_FACTOR; bx++) {
+            sum += frame[row + bx];
+          }
+        }
+        result[y * cw + x] = sum / area;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Shi-Tomasi corners on the previous frame (strongest per grid cell), each
+   * matched into the current frame by patch search around the coarse shift
+   */
+  private matchFeatures(
+    previous: Float32Array,
+    current: Float32Array,
+    mask: Uint8Array,
+    shiftX: number,
+    shiftY: number
+  ): Correspondence[] {
+    const { gridColumns, gridRows, patchRadius, searchRadius } = this.options;
+    const border = patchRadius + 1;
+    const cellWidth = (this.width - 2 * border) / gridColumns;
+    const cellHeight = (this.height - 2 * border) / gridRows;
+    const correspondences: Correspondence[] = [];
+
+    for (let row = 0; row < gridRows; row++) {
+      for (let col = 0; col < gridColumns; col++) {
+        const corner = this.strongestCorner(
+          previous,
+          mask,
+          Math.floor(border + col * cellWidth),
+          Math.floor(border + row * cellHeight),
+          Math.floor(border + (col + 1) * cellWidth),
+          Math.floor(border + (row + 1) * cellHeight)
+        );
+        if (!corner) continue;
+
+        const match = this.matchPatch(previous, current, corner[0], corner[1], corner[0] + shiftX, corner[1] + shiftY, searchRadius);
+        if (match) {
+          correspondences.push({ x: corner[0], y: corner[1], nx: match[0], ny: match[1] });
+        }
+      }
+    }
+
+    return correspondences;
+  }
+
+  /**
+   * Pixel with the largest minimum structure-tensor eigenvalue in a cell
+   */
+  private strongestCorner(
+    frame: Float32Array,
+    mask: Uint8Array,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number
+  ): [number, number] | null {
+    const w = this.width;
+    let best: [number, number] | null = null;
+    let bestResponse = MIN_CORNER_RESPONSE;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (mask[y * w + x]) continue;
+
+        let sxx = 0;
+        let syy = 0;
+        let sxy = 0;
+        for (let wy = -1; wy <= 1; wy++) {
+          for (let wx = -1; wx <= 1; wx++) {
+            const i = (y + wy) * w + x + wx;
+            const gx = (frame[i + 1] - frame[i - 1]) / 2;
+            const gy = (frame[i + w] - frame[i - w]) / 2;
+            sxx += gx * gx;
+            syy += gy * gy;
+            sxy += gx * gy;
+          }
+        }
+
+        const trace = sxx + syy;
+        const response = trace / 2 - Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+        if (response > bestResponse) {
+          bestResponse = response;
+          best = [x, y];
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Best sub-pixel position of a previous-frame patch in the current frame
+   */
+  private matchPatch(
+    previous: Float32Array,
+    current: Float32Array,
+    x: number,
+    y: number,
+    guessX: number,
+    guessY: number,
+    radius: number
+  ): [number, number] | null {
+    const r = this.options.patchRadius;
+    const w = this.width;
+    const size = (2 * r + 1) * (2 * r + 1);
+    const costs = new Float32Array((2 * radius + 1) * (2 * radius + 1)).fill(Infinity);
+    let bestCost = Infinity;
+    let bestDx = 0;
+    let bestDy = 0;
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      const cy = guessY + dy;
+      if (cy - r < 0 || cy + r >= this.height) continue;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const cx = guessX + dx;
+        if (cx - r < 0 || cx + r >= w) continue;
+
+        let sum = 0;
+        for (let py = -r; py <= r && sum < bestCost * size; py++) {
+          const prevRow = (y + py) * w + x;
+          const currRow = (cy + py) * w + cx;
+          for (let px = -r; px <= r; px++) {
+            sum += Math.abs(previous[prevRow + px] - current[currRow + px]);
+          }
+        }
+        const cost = sum / size;
+        costs[(dy + radius) * (2 * radius + 1) + dx + radius] = cost;
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestDx = dx;
+          bestDy = dy;
+        }
+      }
+    }
+
+    if (bestCost > MAX_PATCH_DIFFERENCE) return null;
+
+    // Parabola through the cost minimum and its neighbours in each direction
+    const at = (dx: number, dy: number) => {
+      if (Math.abs(dx) > radius || Math.abs(dy) > radius) return Infinity;
+      return costs[(dy + radius) * (2 * radius + 1) + dx + radius];
+    };
+    const subpixel = (before: number, after: number) => {
+      const denominator = before - 2 * bestCost + after;
+      return Number.isFinite(denominator) && denominator > 1e-9 ? (before - after) / (2 * denominator) : 0;
+    };
+
+    return [
+      guessX + bestDx + subpixel(at(bestDx - 1, bestDy), at(bestDx + 1, bestDy)),
+      guessY + bestDy + subpixel(at(bestDx, bestDy - 1), at(bestDx, bestDy + 1))
+    ];
+  }
+
+  /**
+   * Affine fit that ignores mismatches and independently moving objects
+   */
+  private ransac(points: Correspondence[]): AffineTransform | null {
+    const { ransacIterations, inlierThreshold, minInliers } = this.options;
+    let bestInliers: Correspondence[] = [];
+
+    for (let iteration = 0; iteration < ransacIterations; iteration++) {
+      const sample = this.sampleIndices(points.length, 3).map(i => points[i]);
+      const model = fitAffine(sample);
+      if (!model) continue;
+
+      const inliers = points.filter(p => transformError(model, p) < inlierThreshold);
+      if (inliers.length > bestInliers.length) {
+        bestInliers = inliers;
+        if (inliers.length === points.length) break;
+      }
+    }
+
+    if (bestInliers.length < minInliers) return null;
+    return fitAffine(bestInliers);
+  }
+
+  /**
+   * Distinct random indices from a seeded generator, so re-runs give the same result
+   */
+  private sampleIndices(count: number, k: number): number[] {
+    const indices: number[] = [];
+    while (indices.length < k) {
+      this.seed = (this.seed * 1664525 + 1013904223) >>> 0;
+      const index = this.seed % count;
+      if (!indices.includes(index)) indices.push(index);
+    }
+    return indices;
+  }
+}
@@ -0,0 +1,433 @@
+import { BoundingBox, FlowSegment } from '@/types';
+import { downsampleGray } from './frame-difference';
+
+export interface OpticalFlowOptions {
+  analysisWidth: number;          // Frames are analyzed at this width
+  pyramidLevels: number;          // Coarser levels let the tracker follow fast motion
+  windowRadius: number;           // Half size of the window each point is matched with
+  iterations: number;             // Gauss-Newton steps per pyramid level
+  gridSize: number;               // Boxes are split into gridSize x gridSize cells, one point per cell
+  maxForwardBackwardError: number; // Round-trip error in analysis pixels before a point is dropped
+}
+
+const DEFAULT_OPTIONS: OpticalFlowOptions = {
+  analysisWidth: 480,
+  pyramidLevels: 4,
+  windowRadius: 5,
+  iterations: 10,
+  gridSize: 4,
+  maxForwardBackwardError: 1
+};
+
+// Shi-Tomasi response below this is flat texture that can't be followed
+const MIN_CORNER_RESPONSE = 1e-4;
+// Smallest eigenvalue of the window's gradient matrix, per pixel, for a solvable step
+const MIN_WINDOW_EIGENVALUE = 1e-5;
+// Iteration stops once a step is shorter than this, in pixels of the level
+const CONVERGENCE = 0.01;
+// Points seeded this far inside a box's edges lie on the subject more often than on the background
+const SEED_INSET = 0.15;
+
+// Flow is trusted while at least this share of a box's points are still followed
+export const MIN_FLOW_CONFIDENCE = 0.5;
+const MIN_FLOW_POINTS = 3;
+
+type FlowRect = Pick<BoundingBox, 'x' | 'y' | 'width' | 'height'>;
+
+interface PyramidLevel {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * How the points inside a box moved from the segment's first frame to a later one
+ */
+export interface FlowMotion {
+  dx: number;
+  dy: number;
+  scale: number;
+  confidence: number; // Share of the box's points still followed
+}
+
+function sample(level: PyramidLevel, x: number, y: number): number {
+  const cx = Math.min(level.width - 1.001, Math.max(0, x));
+  const cy = Math.min(level.height - 1.001, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const i = y0 * level.width + x0;
+  const top = level.data[i] * (1 - fx) + level.data[i + 1] * fx;
+  const bottom = level.data[i + level.width] * (1 - fx) + level.data[i + level.width + 1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Pyramidal Lucas-Kanade tracker for sparse points inside detection boxes.
+ * Fed every frame of the video; between two keyframes it follows corners
+ * seeded in the first keyframe's boxes so boxes can move with the actual
+ * pixels instead of easing from one keyframe to the next.
+ * Runs on the CPU on a small grayscale copy of the frame.
+ */
+export class LucasKanadeTracker {
+  private options: OpticalFlowOptions;
+  private previous: PyramidLevel[] | null = null;
+  private scaleX = 1;
+  private scaleY = 1;
+
+  // Segment being recorded
+  private startFrame = -1;
+  private points: Float32Array = new Float32Array(0); // Current x, y in analysis pixels
+  private alive: Uint8Array = new Uint8Array(0);
+  private frames: Float32Array[] = [];
+
+  constructor(options: Partial<OpticalFlowOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed the next frame, moving the points of the segment being recorded
+   */
+  nextFrame(imageData: ImageData): void {
+    const width = Math.min(this.options.analysisWidth, imageData.width);
+    const height = Math.max(1, Math.round(width * imageData.height / imageData.width));
+    const pyramid = this.buildPyramid(downsampleGray(imageData, width, height), width, height);
+    const sameSize = this.previous !== null && this.previous[0].width === width && this.previous[0].height === height;
+
+    if (this.startFrame !== -1) {
+      if (sameSize) {
+        this.trackPoints(this.previous!, pyramid);
+      } else {
+        this.alive.fill(0);
+      }
+      this.recordFrame();
+    }
+
+    this.previous = pyramid;
+    this.scaleX = imageData.width / width;
+    this.scaleY = imageData.height / height;
+  }
+
+  /**
+   * Seed points inside the boxes on the last fed frame and start recording
+   */
+  startSegment(frameNumber: number, boxes: BoundingBox[]): void {
+    this.startFrame = -1;
+    this.frames = [];
+    if (!this.previous) return;
+
+    const seeds: number[] = [];
+    for (const box of boxes) {
+      seeds.push(...this.seedPoints(box));
+    }
+    this.points = Float32Array.from(seeds);
+    this.alive = new Uint8Array(seeds.length / 2).fill(1);
+    this.startFrame = frameNumber;
+    this.recordFrame();
+  }
+
+  /**
+   * The recorded segment, up to and including the last fed frame.
+   * Null when nothing was recorded or no point could be seeded.
+   */
+  finishSegment(): FlowSegment | null {
+    const pointCount = this.alive.length;
+    const segment = this.startFrame !== -1 && pointCount > 0 && this.frames.length > 1
+      ? {
+        startFrame: this.startFrame,
+        frameCount: this.frames.length,
+        pointCount,
+        positions: this.concatFrames()
+      }
+      : null;
+
+    this.startFrame = -1;
+    this.frames = [];
+    return segment;
+  }
+
+  /**
+   * Forget the previous frame and the segment being recorded, e.g. after a cut
+   */
+  reset(): void {
+    this.previous = null;
+    this.startFrame = -1;
+    this.frames = [];
+  }
+
+  private buildPyramid(gray: Float32Array, width: number, height: number): PyramidLevel[] {
+    const levels: PyramidLevel[] = [{ data: gray, width, height }];
+
+    for (let level = 1; level < this.options.pyramidLevels; level++) {
+      const source = levels[level - 1];
+      const w = Math.floor(source.width / 2);
+      const h = Math.floor(source.height / 2);
+      if (w < 2 * this.options.windowRadius + 3 || h < 2 * this.options.windowRadius + 3) break;
+
+      const data = new Float32Array(w * h);
+      for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+          const i = 2 * y * source.width + 2 * x;
+          data[y * w + x] = (source.data[i] + source.data[i + 1] + source.data[i + source.width] + source.data[i + source.width + 1]) / 4;
+        }
+      }
+      levels.push({ data, width: w, height: h });
+    }
+    return levels;
+  }
+
+  /**
+   * Strongest corner of each grid cell inside the box, as analysis-pixel x, y pairs
+   */
+  private seedPoints(box: BoundingBox): number[] {
+    const frame = this.previous![0];
+    const border = this.options.windowRadius + 1;
+    const x0 = Math.max(border, (box.x + box.width * SEED_INSET) / this.scaleX);
+    const y0 = Math.max(border, (box.y + box.height * SEED_INSET) / this.scaleY);
+    const x1 = Math.min(frame.width - border, (box.x + box.width * (1 - SEED_INSET)) / this.scaleX);
+    const y1 = Math.min(frame.height - border, (box.y + box.height * (1 - SEED_INSET)) / this.scaleY);
+    if (x1 - x0 < 2 || y1 - y0 < 2) return [];
+
+    const { gridSize } = this.options;
+    const cellWidth = (x1 - x0) / gridSize;
+    const cellHeight = (y1 - y0) / gridSize;
+    const seeds: number[] = [];
+
+    for (let row = 0; row < gridSize; row++) {
+      for (let col = 0; col < gridSize; col++) {
+        const corner = this.strongestCorner(
+          frame,
+          Math.floor(x0 + col * cellWidth),
+          Math.floor(y0 + row * cellHeight),
+          Math.max(Math.floor(x0 + col * cellWidth) + 1, Math.floor(x0 + (col + 1) * cellWidth)),
+          Math.max(Math.floor(y0 + row * cellHeight) + 1, Math.floor(y0 + (row + 1) * cellHeight))
+        );
+        if (corner) {
+          seeds.push(corner[0], corner[1]);
+        }
+      }
+    }
+    return seeds;
+  }
+
+  /**
+   * Pixel with the largest minimum structure-tensor eigenvalue in a cell
+   */
+  private strongestCorner(frame: PyramidLevel, x0: number, y0: number, x1: number, y1: number): [number, number] | null {
+    const w = frame.width;
+    let best: [number, number] | null = null;
+    let bestResponse = MIN_CORNER_RESPONSE;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        let sxx = 0;
+        let syy = 0;
+        let sxy = 0;
+        for (let wy = -1; wy <= 1; wy++) {
+          for (let wx = -1; wx <= 1; wx++) {
+            const i = (y + wy) * w + x + wx;
+            const gx = (frame.data[i + 1] - frame.data[i - 1]) / 2;
+            const gy = (frame.data[i + w] - frame.data[i - w]) / 2;
+            sxx += gx * gx;
+            syy += gy * gy;
+            sxy += gx * gy;
+          }
+        }
+
+        const response = (sxx + syy) / 2 - Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+        if (response > bestResponse) {
+          bestResponse = response;
+          best = [x, y];
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Move every live point into the current frame. Points that can't be
+   * followed, leave the frame or don't track back to where they started are dropped.
+   */
+  private trackPoints(previous: PyramidLevel[], current: PyramidLevel[]): void {
+    const { maxForwardBackwardError } = this.options;
+    const frame = current[0];
+
+    for (let p = 0; p < this.alive.length; p++) {
+      if (!this.alive[p]) continue;
+      const x = this.points[p * 2];
+      const y = this.points[p * 2 + 1];
+
+      const forward = this.trackPoint(previous, current, x, y);
+      const backward = forward && this.trackPoint(current, previous, forward[0], forward[1]);
+      if (!forward || !backward ||
+          Math.hypot(backward[0] - x, backward[1] - y) > maxForwardBackwardError ||
+          forward[0] < 0 || forward[1] < 0 || forward[0] > frame.width - 1 || forward[1] > frame.height - 1) {
+        this.alive[p] = 0;
+        continue;
+      }
+      this.points[p * 2] = forward[0];
+      this.points[p * 2 + 1] = forward[1];
+    }
+  }
+
+  /**
+   * Pyramidal Lucas-Kanade: coarse-to-fine Gauss-Newton on the window around
+   * the point. Null when the window has too little texture.
+   */
+  private trackPoint(from: PyramidLevel[], to: PyramidLevel[], x: number, y: number): [number, number] | null {
+    const r = this.options.windowRadius;
+    const size = (2 * r + 1) * (2 * r + 1);
+    const template = new Float32Array(size);
+    const gradX = new Float32Array(size);
+    const gradY = new Float32Array(size);
+    const levels = Math.min(from.length, to.length);
+    let guessX = 0;
+    let guessY = 0;
+
+    for (let level = levels - 1; level >= 0; level--) {
+      const a = from[level];
+      const b = to[level];
+      const px = x / (1 << level);
+      const py = y / (1 << level);
+
+      // Template and its gradients on the previous frame
+      let sxx = 0;
+      let syy = 0;
+      let sxy = 0;
+      let k = 0;
+      for (let wy = -r; wy <= r; wy++) {
+        for (let wx = -r; wx <= r; wx++) {
+          const gx = (sample(a, px + wx + 1, py + wy) - sample(a, px + wx - 1, py + wy)) / 2;
+          const gy = (sample(a, px + wx, py + wy + 1) - sample(a, px + wx, py + wy - 1)) / 2;
+          template[k] = sample(a, px + wx, py + wy);
+          gradX[k] = gx;
+          gradY[k] = gy;
+          sxx += gx * gx;
+          syy += gy * gy;
+          sxy += gx * gy;
+          k++;
+        }
+      }
+
+      const det = sxx * syy - sxy * sxy;
+      const minEigenvalue = (sxx + syy) / 2 - Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+      // Coarse levels can blur fine texture away; they then just pass the guess down
+      const solvable = minEigenvalue / size >= MIN_WINDOW_EIGENVALUE && det > 0;
+      if (!solvable && level === 0) return null;
+
+      let dx = guessX;
+      let dy = guessY;
+      for (let iteration = 0; solvable && iteration < this.options.iterations; iteration++) {
+        let bx = 0;
+        let by = 0;
+        k = 0;
+        for (let wy = -r; wy <= r; wy++) {
+          for (let wx = -r; wx <= r; wx++) {
+            const difference = template[k] - sample(b, px + wx + dx, py + wy + dy);
+            bx += difference * gradX[k];
+            by += difference * gradY[k];
+            k++;
+          }
+        }
+        const stepX = (syy * bx - sxy * by) / det;
+        const stepY = (sxx * by - sxy * bx) / det;
+        dx += stepX;
+        dy += stepY;
+        if (Math.hypot(stepX, stepY) < CONVERGENCE) break;
+      }
+
+      if (level > 0) {
+        guessX = dx * 2;
+        guessY = dy * 2;
+      } else {
+        return [x + dx, y + dy];
+      }
+    }
+    return null;
+  }
+
+  private recordFrame(): void {
+    const frame = new Float32Array(this.alive.length * 2);
+    for (let p = 0; p < this.alive.length; p++) {
+      frame[p * 2] = this.alive[p] ? this.points[p * 2] * this.scaleX : NaN;
+      frame[p * 2 + 1] = this.alive[p] ? this.points[p * 2 + 1] * this.scaleY : NaN;
+    }
+    this.frames.push(frame);
+  }
+
+  private concatFrames(): Float32Array {
+    const stride = this.alive.length * 2;
+    const positions = new Float32Array(stride * this.frames.length);
+    this.frames.forEach((frame, i) => positions.set(frame, i * stride));
+    return positions;
+  }
+}
+
+/**
+ * Motion of the box's points from the segment start to a frame: median
+ * shift, median change of spread and the share of points still followed.
+ * Null when the box holds too few points or the frame is outside the segment.
+ */
+export function estimateBoxMotion(segment: FlowSegment, box: FlowRect, frameNumber: number): FlowMotion | null {
+  const index = frameNumber - segment.startFrame;
+  if (index < 0 || index >= segment.frameCount) return null;
+
+  const stride = segment.pointCount * 2;
+  const start = segment.positions.subarray(0, stride);
+  const current = segment.positions.subarray(index * stride, (index + 1) * stride);
+
+  const inside: number[] = [];
+  for (let p = 0; p < segment.pointCount; p++) {
+    const x = start[p * 2];
+    const y = start[p * 2 + 1];
+    if (x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height) {
+      inside.push(p);
+    }
+  }
+  if (inside.length < MIN_FLOW_POINTS) return null;
+
+  const followed = inside.filter(p => !Number.isNaN(current[p * 2]));
+  const confidence = followed.length / inside.length;
+  if (followed.length < MIN_FLOW_POINTS) {
+    return { dx: 0, dy: 0, scale: 1, confidence };
+  }
+
+  const dx = median(followed.map(p => current[p * 2] - start[p * 2]));
+  const dy = median(followed.map(p => current[p * 2 + 1] - start[p * 2 + 1]));
+
+  // Spread around the centroid grows as the subject comes closer
+  const centroid = (positions: Float32Array) => [
+    followed.reduce((sum, p) => sum + positions[p * 2], 0) / followed.length,
+    followed.reduce((sum, p) => sum + positions[p * 2 + 1], 0) / followed.length
+  ];
+  const [sx, sy] = centroid(start);
+  const [cx, cy] = centroid(current);
+  const ratios: number[] = [];
+  for (const p of followed) {
+    const before = Math.hypot(start[p * 2] - sx, start[p * 2 + 1] - sy);
+    if (before < 1) continue;
+    ratios.push(Math.hypot(current[p * 2] - cx, current[p * 2 + 1] - cy) / before);
+  }
+  const scale = ratios.length >= MIN_FLOW_POINTS ? Math.min(2, Math.max(0.5, median(ratios))) : 1;
+
+  return { dx, dy, scale, confidence };
+}
+
+/**
+ * Where a point of the box ends up when the box moves with the flow
+ */
+export function moveWithFlow(box: FlowRect, motion: FlowMotion, x: number, y: number): { x: number; y: number } {
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  return {
+    x: centerX + motion.dx + (x - centerX) * motion.scale,
+    y: centerY + motion.dy + (y - centerY) * motion.scale
+  };
+}
@@ -1,6 +1,11 @@
 import { VideoMetadata, Detection, ProcessingStatus } from '@/types';
 import { VideoRotationDetector } from './rotation-detector';
 
+export interface FrameExtractor {
+  extractFrame: (time: number) => Promise<ImageData>;
+  dispose: () => void;
+}
+
 export class VideoProcessor {
   private video: HTMLVideoElement;
   private canvas: HTMLCanvasElement;
@@ -118,44 +123,88 @@ export class VideoProcessor {
   }
 
   async extractFrame(time: number): Promise<ImageData> {
+    return VideoProcessor.grabFrame(this.video, this.canvas, this.ctx, this.videoRotation, time);
+  }
+
+  /**
+   * Frame grabber on its own video element, for long runs of seeks such as a
+   * dataset export that must not move the player or the analysis
+   */
+  async createFrameExtractor(): Promise<FrameExtractor> {
+    if (!this.metadata) {
+      throw new Error('Video not loaded');
+    }
+
+    const video = document.createElement('video');
+    video.src = this.video.src;
+    video.muted = true;
+    video.playsInline = true;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Failed to load video'));
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = this.canvas.width;
+    canvas.height = this.canvas.height;
+    const ctx = canvas.getContext('2d')!;
+    const rotation = this.videoRotation;
+
+    return {
+      extractFrame: (time: number) => VideoProcessor.grabFrame(video, canvas, ctx, rotation, time),
+      // The object URL belongs to this processor and is not revoked here
+      dispose: () => {
+        video.removeAttribute('src');
+        video.load();
+      }
+    };
+  }
+
+  private static grabFrame(
+    video: HTMLVideoElement,
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    videoRotation: number,
+    time: number
+  ): Promise<ImageData> {
     return new Promise((resolve, reject) => {
-      this.video.currentTime = time;
+      video.currentTime = time;
       
-      this.video.onseeked = () => {
+      video.onseeked = () => {
         try {
           // Clear canvas
-          this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
           
           // Apply rotation if needed
-          this.ctx.save();
+          ctx.save();
           
-          if (this.videoRotation !== 0) {
+          if (videoRotation !== 0) {
             VideoRotationDetector.applyRotation(
-              this.ctx, 
-              this.videoRotation, 
-              this.canvas.width, 
-              this.canvas.height
+              ctx, 
+              videoRotation, 
+              canvas.width, 
+              canvas.height
             );
           }
           
           // Draw the video frame
-          if (this.videoRotation === 90 || this.videoRotation === 270) {
+          if (videoRotation === 90 || videoRotation === 270) {
             // For 90/270 rotation, swap the dimensions when drawing
-            this.ctx.drawImage(this.video, 0, 0, this.video.videoHeight, this.video.videoWidth);
+            ctx.drawImage(video, 0, 0, video.videoHeight, video.videoWidth);
           } else {
-            this.ctx.drawImage(this.video, 0, 0, this.video.videoWidth, this.video.videoHeight);
+            ctx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
           }
           
-          this.ctx.restore();
+          ctx.restore();
           
-          const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
           resolve(imageData);
         } catch (error) {
           reject(error);
         }
       };
       
-      this.video.onerror = () => {
+      video.onerror = () => {
         reject(new Error('Failed to seek video'));
       };
     });
@@ -177,13 +226,11 @@ export class VideoProcessor {
       const timestamp = frameNumber * frameInterval;
       
       if (this.onProgress) {
-        const isDetectionFrame = frameNumber % 10 === 0; // Match the sample interval
+        // Detection frames are chosen adaptively by the caller, so report generic progress
         this.onProgress({
           stage: 'analyzing',
           progress: ((frameNumber + 1) / totalFrames) * 100,
-          message: isDetectionFrame 
-            ? `Detecting heads in frame ${frameNumber + 1} of ${totalFrames}`
-            : `Processing frame ${frameNumber + 1} of ${totalFrames}`
+          message: `Analyzing frame ${frameNumber + 1} of ${totalFrames}`
         });
       }
       
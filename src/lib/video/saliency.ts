@@ -0,0 +1,339 @@
+import { BoundingBox, SaliencyRegion } from '@/types';
+import { downsampleGray } from './frame-difference';
+
+export interface SaliencyOptions {
+  motionWeight: number;      // Share of the combined map taken by motion energy when something moves
+  minMotion: number;         // Mean frame difference below which motion is treated as noise
+  temporalSmoothing: number; // Weight of the previous combined map (0 = none); reset at shot starts
+  threshold: number;         // Map values above this share of the peak make up the region
+  minRegionSize: number;     // Smallest region, as a share of the frame's width and height
+  blurRadius: number;        // Box blur radius on the saliency map, in map pixels
+}
+
+const DEFAULT_OPTIONS: SaliencyOptions = {
+  motionWeight: 0.5,
+  minMotion: 0.004,
+  temporalSmoothing: 0.7,
+  threshold: 0.5,
+  minRegionSize: 0.2,
+  blurRadius: 3
+};
+
+// Spectral residual works on a small power-of-two thumbnail
+const MAP_SIZE = 64;
+// Region extent in weighted standard deviations around the centroid
+const REGION_SPREAD = 2;
+// Weaker regions are noise or busy texture; a centered crop is the better guess there
+export const MIN_SALIENCY_STRENGTH = 0.2;
+
+/**
+ * In-place radix-2 FFT of a complex signal of power-of-two length.
+ * inverse computes the unnormalized inverse transform.
+ */
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * 2D FFT of a size x size row-major complex image, rows then columns
+ */
+function fft2d(re: Float64Array, im: Float64Array, size: number, inverse: boolean): void {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+
+  for (let y = 0; y < size; y++) {
+    rowRe.set(re.subarray(y * size, (y + 1) * size));
+    rowIm.set(im.subarray(y * size, (y + 1) * size));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, y * size);
+    im.set(rowIm, y * size);
+  }
+
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm, inverse);
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+}
+
+/**
+ * Separable box blur with clamped edges
+ */
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  if (radius <= 0) return values;
+  const horizontal = new Float32Array(values.length);
+  const result = new Float32Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += values[y * width + Math.min(width - 1, Math.max(0, x + k))];
+      }
+      horizontal[y * width + x] = sum / (2 * radius + 1);
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += horizontal[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+      }
+      result[y * width + x] = sum / (2 * radius + 1);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Scale a map to [0, 1] by its peak. Returns the peak.
+ */
+function normalizeByPeak(values: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) {
+    peak = Math.max(peak, values[i]);
+  }
+  if (peak > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= peak;
+    }
+  }
+  return peak;
+}
+
+/**
+ * Spectral residual saliency (Hou & Zhang, 2007): the log amplitude spectrum
+ * minus its local average keeps what is unusual in the image; transforming it
+ * back with the original phase lights up the regions that stand out.
+ */
+export function spectralResidualSaliency(gray: Float32Array, size: number = MAP_SIZE, blurRadius: number = DEFAULT_OPTIONS.blurRadius): Float32Array {
+  const re = Float64Array.from(gray);
+  const im = new Float64Array(gray.length);
+  fft2d(re, im, size, false);
+
+  const logAmplitude = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    logAmplitude[i] = Math.log(Math.hypot(re[i], im[i]) + 1e-9);
+  }
+  const averaged = boxBlur(logAmplitude, size, size, 1);
+
+  // exp(residual + i * phase) = exp(log|F| - average) * F / |F| = F * exp(-average)
+  for (let i = 0; i < gray.length; i++) {
+    const factor = Math.exp(-averaged[i]);
+    re[i] *= factor;
+    im[i] *= factor;
+  }
+  fft2d(re, im, size, true);
+
+  const saliency = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    saliency[i] = re[i] * re[i] + im[i] * im[i];
+  }
+
+  const blurred = boxBlur(saliency, size, size, blurRadius);
+  normalizeByPeak(blurred);
+  return blurred;
+}
+
+/**
+ * A salient region as a box the reframing engine can follow like a detection,
+ * centered on the region. Null when the region is too weak to be worth following.
+ */
+export function getSalientTarget(region: SaliencyRegion | undefined): BoundingBox | null {
+  if (!region || region.strength < MIN_SALIENCY_STRENGTH) return null;
+
+  return {
+    x: region.x,
+    y: region.y,
+    width: region.width,
+    height: region.height,
+    confidence: region.strength,
+    class: 'salient',
+    classId: -1,
+    headCenterX: region.x + region.width / 2,
+    headCenterY: region.y + region.height / 2
+  };
+}
+
+/**
+ * Region of interest for footage without people.
+ * Combines spectral residual saliency with frame-difference motion energy on
+ * every frame, accumulates the map within a shot so the region doesn't flicker,
+ * and reports the weighted extent of the strongest part as a box in frame pixels.
+ */
+export class SaliencyAnalyzer {
+  private options: SaliencyOptions;
+  private previousFrame: Float32Array | null = null;
+  private accumulated: Float32Array | null = null;
+  private regions: SaliencyRegion[] = [];
+
+  constructor(options: Partial<SaliencyOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed the next frame. A shot start drops the motion reference and the accumulated map.
+   */
+  processFrame(imageData: ImageData, frameNumber: number, isShotStart: boolean = false): SaliencyRegion {
+    if (isShotStart) {
+      this.previousFrame = null;
+      this.accumulated = null;
+    }
+
+    const gray = downsampleGray(imageData, MAP_SIZE, MAP_SIZE);
+    const combined = spectralResidualSaliency(gray, MAP_SIZE, this.options.blurRadius);
+
+    const motion = this.motionEnergy(gray);
+    if (motion) {
+      const { motionWeight } = this.options;
+      for (let i = 0; i < combined.length; i++) {
+        combined[i] = combined[i] * (1 - motionWeight) + motion[i] * motionWeight;
+      }
+    }
+    this.previousFrame = gray;
+
+    if (this.accumulated) {
+      const keep = this.options.temporalSmoothing;
+      for (let i = 0; i < combined.length; i++) {
+        combined[i] = this.accumulated[i] * keep + combined[i] * (1 - keep);
+      }
+    }
+    this.accumulated = combined;
+
+    const region = this.extractRegion(combined, frameNumber, imageData.width, imageData.height);
+    this.regions.push(region);
+    return region;
+  }
+
+  /**
+   * Regions of every frame processed so far
+   */
+  getRegions(): SaliencyRegion[] {
+    return [...this.regions];
+  }
+
+  reset(): void {
+    this.previousFrame = null;
+    this.accumulated = null;
+    this.regions = [];
+  }
+
+  /**
+   * Blurred absolute frame difference scaled to [0, 1], or null when nothing
+   * moves beyond sensor noise
+   */
+  private motionEnergy(gray: Float32Array): Float32Array | null {
+    if (!this.previousFrame) return null;
+
+    const difference = new Float32Array(gray.length);
+    let sum = 0;
+    for (let i = 0; i < gray.length; i++) {
+      difference[i] = Math.abs(gray[i] - this.previousFrame[i]);
+      sum += difference[i];
+    }
+    if (sum / gray.length < this.options.minMotion) return null;
+
+    const blurred = boxBlur(difference, MAP_SIZE, MAP_SIZE, this.options.blurRadius);
+    normalizeByPeak(blurred);
+    return blurred;
+  }
+
+  /**
+   * Weighted centroid and spread of the map above the threshold. Strength is
+   * how much the peak stands out from the average and how little of the frame
+   * the region covers, so flat or busy frames score low.
+   */
+  private extractRegion(map: Float32Array, frameNumber: number, frameWidth: number, frameHeight: number): SaliencyRegion {
+    let peak = 0;
+    let total = 0;
+    for (let i = 0; i < map.length; i++) {
+      peak = Math.max(peak, map[i]);
+      total += map[i];
+    }
+    const mean = total / map.length;
+
+    const cutoff = peak * this.options.threshold;
+    let weightSum = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumXX = 0;
+    let sumYY = 0;
+    for (let y = 0; y < MAP_SIZE; y++) {
+      for (let x = 0; x < MAP_SIZE; x++) {
+        const weight = map[y * MAP_SIZE + x] - cutoff;
+        if (weight <= 0) continue;
+        const px = x + 0.5;
+        const py = y + 0.5;
+        weightSum += weight;
+        sumX += weight * px;
+        sumY += weight * py;
+        sumXX += weight * px * px;
+        sumYY += weight * py * py;
+      }
+    }
+
+    if (weightSum === 0) {
+      return { frameNumber, x: 0, y: 0, width: frameWidth, height: frameHeight, strength: 0 };
+    }
+
+    const centerX = sumX / weightSum;
+    const centerY = sumY / weightSum;
+    const spreadX = Math.sqrt(Math.max(0, sumXX / weightSum - centerX * centerX));
+    const spreadY = Math.sqrt(Math.max(0, sumYY / weightSum - centerY * centerY));
+
+    const scaleX = frameWidth / MAP_SIZE;
+    const scaleY = frameHeight / MAP_SIZE;
+    const width = Math.min(frameWidth, Math.max(frameWidth * this.options.minRegionSize, 2 * REGION_SPREAD * spreadX * scaleX));
+    const height = Math.min(frameHeight, Math.max(frameHeight * this.options.minRegionSize, 2 * REGION_SPREAD * spreadY * scaleY));
+    const x = Math.min(frameWidth - width, Math.max(0, centerX * scaleX - width / 2));
+    const y = Math.min(frameHeight - height, Math.max(0, centerY * scaleY - height / 2));
+
+    const peakiness = Math.max(0, Math.min(1, 1 - mean / peak));
+    const strength = peakiness * (1 - (width * height) / (frameWidth * frameHeight));
+
+    return { frameNumber, x, y, width, height, strength };
+  }
+}
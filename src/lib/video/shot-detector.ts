@@ -0,0 +1,231 @@
+import { Shot } from '@/types';
+import { downsampleGray } from './frame-difference';
+
+export interface ShotDetectorOptions {
+  histogramThreshold: number; // Colour histogram distance (0-1) that suggests a cut
+  edgeThreshold: number;      // Edge change ratio (0-1) that confirms a softer cut
+  adaptiveFactor: number;     // Difference must also exceed mean + k * std of recent frames
+  windowSize: number;         // Frames of history for the adaptive threshold
+  minShotLength: number;      // Frames; suppresses flicker and flash false positives
+}
+
+const DEFAULT_OPTIONS: ShotDetectorOptions = {
+  histogramThreshold: 0.4,
+  edgeThreshold: 0.6,
+  adaptiveFactor: 3,
+  windowSize: 30,
+  minShotLength: 8
+};
+
+const THUMB_WIDTH = 64;
+const THUMB_HEIGHT = 36;
+const BINS_PER_CHANNEL = 4;
+const EDGE_MAGNITUDE = 0.25;
+
+/**
+ * Find which shot a frame belongs to
+ */
+export function findShot(shots: Shot[], frameNumber: number): Shot | undefined {
+  return shots.find(shot => frameNumber >= shot.startFrame && frameNumber <= shot.endFrame);
+}
+
+/**
+ * Hard-cut detector for edited footage.
+ * Combines a colour histogram difference with an edge change ratio and an
+ * adaptive threshold so fast motion within a shot isn't mistaken for a cut.
+ */
+export class ShotBoundaryDetector {
+  private options: ShotDetectorOptions;
+  private previousHistogram: Float32Array | null = null;
+  private previousEdges: Uint8Array | null = null;
+  private recentDifferences: number[] = [];
+  private cuts: number[] = [];
+  private lastCut = 0;
+
+  constructor(options: Partial<ShotDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed the next frame. Returns true when this frame starts a new shot.
+   */
+  processFrame(imageData: ImageData, frameNumber: number): boolean {
+    const histogram = this.colorHistogram(imageData);
+    const edges = this.edgeMap(downsampleGray(imageData, THUMB_WIDTH, THUMB_HEIGHT));
+
+    let isCut = false;
+
+    if (this.previousHistogram && this.previousEdges) {
+      const histogramDiff = this.histogramDistance(histogram, this.previousHistogram);
+      const edgeChange = this.edgeChangeRatio(edges, this.previousEdges);
+
+      const { mean, std } = this.recentStats();
+      const isOutlier = histogramDiff > mean + this.options.adaptiveFactor * std;
+      const isStrongCut = histogramDiff > this.options.histogramThreshold;
+      const isEdgeCut = histogramDiff > this.options.histogramThreshold * 0.6 && edgeChange > this.options.edgeThreshold;
+
+      isCut = isOutlier && (isStrongCut || isEdgeCut) &&
+        frameNumber - this.lastCut >= this.options.minShotLength;
+
+      if (isCut) {
+        this.cuts.push(frameNumber);
+        this.lastCut = frameNumber;
+        // The new shot gets its own baseline
+        this.recentDifferences = [];
+      } else {
+        this.recentDifferences.push(histogramDiff);
+        if (this.recentDifferences.length > this.options.windowSize) {
+          this.recentDifferences.shift();
+        }
+      }
+    }
+
+    this.previousHistogram = histogram;
+    this.previousEdges = edges;
+
+    return isCut;
+  }
+
+  /**
+   * Frames where a new shot starts (frame 0 excluded)
+   */
+  getCuts(): number[] {
+    return [...this.cuts];
+  }
+
+  /**
+   * Split the timeline into shots
+   */
+  getShots(totalFrames: number): Shot[] {
+    return buildShots(this.cuts, totalFrames);
+  }
+
+  reset(): void {
+    this.previousHistogram = null;
+    this.previousEdges = null;
+    this.recentDifferences = [];
+    this.cuts = [];
+    this.lastCut = 0;
+  }
+
+  private recentStats(): { mean: number; std: number } {
+    const values = this.recentDifferences;
+    if (values.length === 0) return { mean: 0, std: 0 };
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+    return { mean, std: Math.sqrt(variance) };
+  }
+
+  /**
+   * Normalized RGB histogram of a thumbnail
+   */
+  private colorHistogram(imageData: ImageData): Float32Array {
+    const histogram = new Float32Array(BINS_PER_CHANNEL * BINS_PER_CHANNEL * BINS_PER_CHANNEL);
+    const stepX = Math.max(1, Math.floor(imageData.width / THUMB_WIDTH));
+    const stepY = Math.max(1, Math.floor(imageData.height / THUMB_HEIGHT));
+    const data = imageData.data;
+    let count = 0;
+
+    for (let y = 0; y < imageData.height; y += stepY) {
+      for (let x = 0; x < imageData.width; x += stepX) {
+        const i = (y * imageData.width + x) * 4;
+        const r = (data[i] * BINS_PER_CHANNEL) >> 8;
+        const g = (data[i + 1] * BINS_PER_CHANNEL) >> 8;
+        const b = (data[i + 2] * BINS_PER_CHANNEL) >> 8;
+        histogram[(r * BINS_PER_CHANNEL + g) * BINS_PER_CHANNEL + b]++;
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      for (let i = 0; i < histogram.length; i++) {
+        histogram[i] /= count;
+      }
+    }
+    return histogram;
+  }
+
+  /**
+   * Half L1 distance between normalized histograms, in [0, 1]
+   */
+  private histogramDistance(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += Math.abs(a[i] - b[i]);
+    }
+    return sum / 2;
+  }
+
+  /**
+   * Binary Sobel edge map of a grayscale thumbnail
+   */
+  private edgeMap(gray: Float32Array): Uint8Array {
+    const edges = new Uint8Array(THUMB_WIDTH * THUMB_HEIGHT);
+
+    for (let y = 1; y < THUMB_HEIGHT - 1; y++) {
+      for (let x = 1; x < THUMB_WIDTH - 1; x++) {
+        const i = y * THUMB_WIDTH + x;
+        const gx =
+          gray[i - THUMB_WIDTH + 1] + 2 * gray[i + 1] + gray[i + THUMB_WIDTH + 1] -
+          gray[i - THUMB_WIDTH - 1] - 2 * gray[i - 1] - gray[i + THUMB_WIDTH - 1];
+        const gy =
+          gray[i + THUMB_WIDTH - 1] + 2 * gray[i + THUMB_WIDTH] + gray[i + THUMB_WIDTH + 1] -
+          gray[i - THUMB_WIDTH - 1] - 2 * gray[i - THUMB_WIDTH] - gray[i - THUMB_WIDTH + 1];
+        edges[i] = Math.sqrt(gx * gx + gy * gy) > EDGE_MAGNITUDE ? 1 : 0;
+      }
+    }
+
+    return edges;
+  }
+
+  /**
+   * Edge change ratio: share of edge pixels that appear or disappear between frames.
+   * Edges are matched within a one-pixel neighbourhood to tolerate small motion.
+   */
+  private edgeChangeRatio(current: Uint8Array, previous: Uint8Array): number {
+    let currentCount = 0;
+    let previousCount = 0;
+    let entering = 0;
+    let exiting = 0;
+
+    for (let y = 1; y < THUMB_HEIGHT - 1; y++) {
+      for (let x = 1; x < THUMB_WIDTH - 1; x++) {
+        const i = y * THUMB_WIDTH + x;
+        if (current[i]) {
+          currentCount++;
+          if (!this.hasEdgeNear(previous, x, y)) entering++;
+        }
+        if (previous[i]) {
+          previousCount++;
+          if (!this.hasEdgeNear(current, x, y)) exiting++;
+        }
+      }
+    }
+
+    const enteringRatio = currentCount > 0 ? entering / currentCount : 0;
+    const exitingRatio = previousCount > 0 ? exiting / previousCount : 0;
+    return Math.max(enteringRatio, exitingRatio);
+  }
+
+  private hasEdgeNear(edges: Uint8Array, x: number, y: number): boolean {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (edges[(y + dy) * THUMB_WIDTH + (x + dx)]) return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Turn a list of cut frames into contiguous shots covering the whole timeline
+ */
+export function buildShots(cuts: number[], totalFrames: number): Shot[] {
+  const starts = [0, ...cuts.filter(cut => cut > 0 && cut < totalFrames)].sort((a, b) => a - b);
+  return starts.map((startFrame, index) => ({
+    index,
+    startFrame,
+    endFrame: index + 1 < starts.length ? starts[index + 1] - 1 : Math.max(startFrame, totalFrames - 1)
+  }));
+}
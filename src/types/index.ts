@@ -6,6 +6,42 @@ export interface VideoMetadata {
   rotation?: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Face box and five-point landmarks. Left/right are as seen in the image.
+ */
+export interface FaceLandmarks {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+  leftEye: Point;
+  rightEye: Point;
+  nose: Point;
+  mouthLeft: Point;
+  mouthRight: Point;
+}
+
+/**
+ * Body keypoint in COCO order (nose, eyes, ears, shoulders, elbows, wrists, hips, knees, ankles)
+ */
+export interface Keypoint {
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+// Which way the subject faces, as seen in the image
+export type FacingDirection = 'left' | 'right' | 'front' | 'back';
+
+// How ByteTrack picked a lost track back up: by motion, or by appearance re-identification
+export type TrackerEvent = 'refound' | 'reidentified';
+
 export interface BoundingBox {
   x: number;
   y: number;
@@ -17,12 +53,106 @@ export interface BoundingBox {
   trackId?: string;
   headCenterX?: number;
   headCenterY?: number;
+  embedding?: Float32Array; // Appearance feature for re-identification
+  face?: FaceLandmarks; // Face box and landmarks when face mode is on
+  keypoints?: Keypoint[]; // 17 COCO body keypoints from the pose model
+  torsoCenterX?: number;
+  torsoCenterY?: number;
+  facing?: FacingDirection;
+  trackerEvent?: TrackerEvent; // Set on the keyframe where a lost track was matched again
+  trackUncertainty?: number; // Kalman position std relative to box height
+  velocityX?: number; // Center velocity in pixels per frame, from offline track smoothing
+  velocityY?: number;
+  smoothingResidual?: SmoothingResidual; // Raw minus smoothed, for diagnostics
+}
+
+/**
+ * How far offline smoothing moved a box, in pixels (raw minus smoothed)
+ */
+export interface SmoothingResidual {
+  centerX: number;
+  centerY: number;
+  height: number;
+  headX?: number;
+  headY?: number;
 }
 
 export interface Detection {
   frameNumber: number;
   timestamp: number;
   boxes: BoundingBox[];
+  isKeyframe?: boolean; // true when the boxes come from a real detection pass
+}
+
+export interface Shot {
+  index: number;
+  startFrame: number;
+  endFrame: number; // inclusive
+}
+
+/**
+ * Where the eye goes in a frame without people, from saliency and motion energy
+ */
+export interface SaliencyRegion {
+  frameNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  strength: number; // 0-1; how much the region stands out from the rest of the frame
+}
+
+export interface MaskKeyframe {
+  frameNumber: number;
+  points: Point[]; // Polygon in video pixels
+}
+
+/**
+ * Polygon painted on the video that drops the detections inside it (exclude),
+ * or keeps only the detections inside it (include), before they are tracked.
+ * The outline can be keyed over time to follow a moving screen or crowd.
+ */
+export interface DetectionMask {
+  id: string;
+  mode: 'exclude' | 'include';
+  startFrame: number;
+  endFrame: number; // inclusive
+  keyframes: MaskKeyframe[]; // Sorted by frame, at least one
+}
+
+/**
+ * 2x3 affine map [a, b, tx, c, d, ty]: x' = a*x + b*y + tx, y' = c*x + d*y + ty
+ */
+export type AffineTransform = [number, number, number, number, number, number];
+
+/**
+ * Feature points followed by optical flow from one keyframe through the frames
+ * up to the next. Points are seeded inside that keyframe's detections.
+ */
+export interface FlowSegment {
+  startFrame: number;
+  frameCount: number; // Frames covered, the start frame included
+  pointCount: number;
+  positions: Float32Array; // x, y in frame pixels per point, frame after frame; NaN once a point is lost
+}
+
+export type SliceMode = 'off' | 'auto' | 'always';
+
+/**
+ * Tiled inference for small and distant subjects in large frames
+ */
+export interface SlicingSettings {
+  mode: SliceMode;   // Auto slices only when the full-frame pass finds small subjects or none
+  overlap: number;   // Share of each tile overlapping its neighbor, 0-0.5
+  maxSlices: number; // Cost cap: model runs per keyframe on top of the full-frame pass
+}
+
+export interface DetectionSettings {
+  detectorId: string;
+  classSetId: string;
+  faceLandmarks: boolean; // Run the face detector and frame on the eye line
+  headDetection?: boolean; // Run the full-frame head detector and match heads to people; off when unset
+  slicing?: SlicingSettings;
 }
 
 export interface ReframingConfig {
@@ -33,6 +163,21 @@ export interface ReframingConfig {
   targetSelection: TargetSelectionStrategy;
   reframeBoxSize?: number;
   reframeBoxOffset?: { x: number; y: number };
+  tracker?: TrackerSettings; // ByteTrack parameters; defaults when unset
+  speakerFraming?: SpeakerFraming; // Follow whoever is talking; off when unset
+}
+
+/**
+ * ByteTrack association parameters. Thresholds are detection confidences,
+ * trackBuffer counts video frames whichever frames were detected.
+ */
+export interface TrackerSettings {
+  trackThresh: number; // Detections above this start and continue tracks
+  lowThresh: number; // Weaker detections only continue existing tracks
+  matchThresh: number; // Largest IoU distance accepted as a match
+  trackBuffer: number; // Video frames a lost track is kept before it is removed
+  minBoxArea: number; // Smaller detections are ignored (pixels)
+  cameraMotionCompensation: boolean; // Move predictions with the estimated camera pan before matching
 }
 
 export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:3' | '3:4' | 'custom';
@@ -41,6 +186,33 @@ export type TrackingMode = 'single' | 'multi' | 'auto';
 
 export type TargetSelectionStrategy = 'largest' | 'centered' | 'most-confident' | 'manual';
 
+// How the crop moves when the active speaker changes
+export type SpeakerFraming = 'off' | 'cut' | 'pan';
+
+/**
+ * Audio measured over one video frame
+ */
+export interface AudioFrame {
+  energy: number; // RMS level
+  voice: number;  // 0-1 voice activity
+  pan: number;    // Speech balance between channels: -1 left, 1 right, 0 for mono
+}
+
+export interface AudioActivity {
+  fps: number;
+  stereo: boolean;
+  frames: AudioFrame[]; // One per video frame
+}
+
+/**
+ * Stretch of frames where one track is talking
+ */
+export interface SpeakerSegment {
+  trackId: string;
+  startFrame: number;
+  endFrame: number; // inclusive
+}
+
 export interface FrameTransform {
   x: number;
   y: number;
@@ -0,0 +1,63 @@
+import { DetectionPipeline } from '@/lib/detection/pipeline';
+import { frameToImageData } from '@/lib/detection/canvas-utils';
+import {
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+  DetectionWorkerResultMap,
+  DetectionWorkerRequestType
+} from '@/lib/detection/worker-protocol';
+
+// The parts of DedicatedWorkerGlobalScope used here (the project compiles against the DOM lib)
+interface DetectionWorkerScope {
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+  postMessage(message: DetectionWorkerResponse): void;
+}
+
+const scope = self as unknown as DetectionWorkerScope;
+const pipeline = new DetectionPipeline();
+
+// Requests run one at a time in arrival order; the tracker is stateful
+let queue: Promise<void> = Promise.resolve();
+
+async function handleRequest(
+  request: DetectionWorkerRequest
+): Promise<DetectionWorkerResultMap[DetectionWorkerRequestType]> {
+  switch (request.type) {
+    case 'initialize':
+      return pipeline.initialize(request.settings);
+    case 'setClassSet':
+      return pipeline.setClassSet(request.classSetId);
+    case 'setFaceLandmarks':
+      return pipeline.setFaceLandmarks(request.enabled);
+    case 'setSlicing':
+      return pipeline.setSlicing(request.settings);
+    case 'setConfidenceThreshold':
+      return pipeline.setConfidenceThreshold(request.threshold);
+    case 'detectFrame':
+      return pipeline.detectFrame(frameToImageData(request.frame), request.frameNumber, request.timestamp);
+    case 'beginVideo':
+      return pipeline.beginVideo(request.options);
+    case 'processFrame':
+      return pipeline.processFrame(frameToImageData(request.frame), request.frameNumber, request.timestamp);
+    case 'getDetectionsSoFar':
+      return pipeline.getDetectionsSoFar();
+    case 'finishVideo':
+      return pipeline.finishVideo();
+    case 'reset':
+      return pipeline.reset();
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  queue = queue.then(async () => {
+    try {
+      const result = await handleRequest(request);
+      scope.postMessage({ id: request.id, type: 'result', result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      scope.postMessage({ id: request.id, type: 'error', message });
+    }
+  });
+};